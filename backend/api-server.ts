@@ -1,59 +1,540 @@
 import express, { Request, Response } from "express";
 import cors from "cors";
 import bodyParser from "body-parser";
-import { scrapeAllSites } from "./index.js";
+import {
+  scrapeAllSites,
+  testSiteLogin,
+  RejectedCar,
+  NearMissCar,
+  ScrapeCancelledError,
+  SiteEvent,
+} from "./index.js";
+import type {
+  CompleteEvent,
+  ConnectedEvent,
+  ErrorEvent,
+  ProgressEvent,
+  SiteCompletedEvent,
+  SiteFailedEvent,
+} from "./src/events/types.js";
+import type { StandardizedCarData } from "./src/types/car.ts";
+import {
+  searchParamsErrors,
+  searchParamsSchema,
+} from "./src/shared/search-params.js";
+import type { SearchParams } from "./src/shared/search-params.js";
+import { buildOpenApiDocument } from "./src/openapi/document.js";
+import { clusterVehicles } from "./src/vehicles/dedupe.js";
+import {
+  getVehicleHistory,
+  recordScrapeHistory,
+} from "./src/history/tracker.js";
+import {
+  cancelJob,
+  createJob,
+  getJob,
+  isTerminalEvent,
+  restoreJobs,
+  subscribeToJob,
+  summarizeJob,
+} from "./src/jobs/manager.js";
+import type { ScrapeJob } from "./src/jobs/types.js";
+import { startAlertScheduler } from "./src/alerts/scheduler.js";
+import {
+  getBrowserPoolMetrics,
+  shutdownBrowserPool,
+  warmBrowserPool,
+} from "./src/browsers/pool.js";
+import { AuthError, AuthUser, authenticateRequest } from "./src/auth/user.js";
+import {
+  consumeScrapeQuota,
+  getQuotaStatus,
+  QuotaExceededError,
+} from "./src/quotas/daily.js";
+import { isSupabaseConfigured } from "./src/supabase/client.js";
+import {
+  AccountSiteMismatchError,
+  createLoginRecorder,
+  deleteTradeAccount,
+  listTradeAccounts,
+  loadTradeAccountCredentials,
+  resolveSiteCredentials,
+  saveTradeAccount,
+  SiteCredentials,
+  TradeAccountInput,
+} from "./src/credentials/dealer-websites.js";
+import {
+  resolveSites,
+  discoverSiteAdapters,
+  UnknownSiteError,
+  SiteAdapter,
+} from "./src/sites/registry.js";
+import { supportedFilters } from "./src/sites/filters.js";
+import { CATALOG } from "./src/catalog/catalog.js";
+import {
+  resolveCatalogQuery,
+  resolveSearchVehicle,
+} from "./src/catalog/resolve.js";
+
+// CORS_ORIGINS (comma separated) limits which sites may call the API from
+// a browser; every origin is allowed when it is unset
+const corsOrigins = process.env.CORS_ORIGINS?.split(",")
+  .map((origin) => origin.trim())
+  .filter(Boolean);
 
 const app = express();
-app.use(cors());
+app.use(cors({ origin: corsOrigins?.length ? corsOrigins : true }));
 app.use(bodyParser.json());
 
+// The API contract; public so clients can be generated without signing in
+app.get("/api/openapi.json", (req: Request, res: Response) => {
+  res.json(buildOpenApiDocument());
+});
+
+// Every API route needs a verified Supabase access token; the caller is
+// attached as req.user. Only AUTH_DISABLED single-user mode skips this
+app.use("/api", (req: Request, res: Response, next) => {
+  try {
+    req.user = authenticateRequest(req) ?? undefined;
+    next();
+  } catch (err: any) {
+    if (err instanceof AuthError) {
+      res.status(err.status).json({ success: false, error: err.message });
+      return;
+    }
+    next(err);
+  }
+});
+
+restoreJobs();
+
+/**
+ * Validate a scrape request body against the shared search schema.
+ * Responds with 400 and field-level `fieldErrors` and returns null when
+ * the body is invalid
+ */
+function parseSearchParams(body: unknown, res: Response): SearchParams | null {
+  const parsed = searchParamsSchema.safeParse(body ?? {});
+  if (!parsed.success) {
+    const fieldErrors = searchParamsErrors(parsed.error);
+    console.log("⚠️ [API] Invalid search parameters:", fieldErrors);
+    res.status(400).json({
+      success: false,
+      error: "Invalid search parameters",
+      fieldErrors,
+    });
+    return null;
+  }
+  return resolveSearchVehicle(parsed.data);
+}
+
+/**
+ * Resolve the `sites` field of a request body to the adapters that will run.
+ * Responds with 400 and returns null for unknown site names.
+ */
+async function resolveRequestedSites(
+  params: SearchParams,
+  res: Response
+): Promise<SiteAdapter[] | null> {
+  try {
+    const adapters = await resolveSites(params.sites);
+    if (adapters.length === 0) {
+      res.status(400).json({
+        success: false,
+        error: "None of the requested sites are enabled",
+      });
+      return null;
+    }
+    return adapters;
+  } catch (err: any) {
+    if (err instanceof UnknownSiteError) {
+      const available = (await discoverSiteAdapters()).map(
+        (adapter) => adapter.id
+      );
+      res.status(400).json({
+        success: false,
+        error: err.message,
+        unknownSites: err.unknownSites,
+        availableSites: available,
+      });
+      return null;
+    }
+    throw err;
+  }
+}
+
+// User whose trade accounts to scrape with. Without Supabase every caller
+// shares the env credentials
+function credentialsUserId(req: Request): string | null {
+  return req.user && isSupabaseConfigured() ? req.user.id : null;
+}
+
+/**
+ * Validate the search, pick the sites to scrape with the caller's trade
+ * accounts and count the scrape against their daily quota. Explicitly
+ * requested sites the caller has no account for are a 400; otherwise sites
+ * without an account are skipped. Responds with 400/429 and returns null
+ * when the scrape cannot start
+ */
+async function resolveScrapeAccess(
+  req: Request,
+  res: Response
+): Promise<{
+  params: SearchParams;
+  adapters: SiteAdapter[];
+  credentials: SiteCredentials;
+} | null> {
+  const userId = credentialsUserId(req);
+  const params = parseSearchParams(req.body, res);
+  if (!params) return null;
+  const enabled = await resolveRequestedSites(params, res);
+  if (!enabled) return null;
+
+  const credentials = await resolveSiteCredentials(enabled, userId);
+  const missing = enabled.filter((adapter) => !credentials[adapter.id]);
+  const adapters = enabled.filter((adapter) => credentials[adapter.id]);
+
+  if (params.sites?.length && missing.length > 0) {
+    res.status(400).json({
+      success: false,
+      error: `No trade account for: ${missing
+        .map((adapter) => adapter.displayName)
+        .join(", ")}`,
+      sitesWithoutCredentials: missing.map((adapter) => adapter.id),
+    });
+    return null;
+  }
+  if (adapters.length === 0) {
+    res.status(400).json({
+      success: false,
+      error: "Add a trade account for at least one site to start searching",
+      sitesWithoutCredentials: missing.map((adapter) => adapter.id),
+    });
+    return null;
+  }
+  if (missing.length > 0) {
+    console.log(
+      `⏭️ [API] Skipping sites without a trade account: ${missing
+        .map((adapter) => adapter.id)
+        .join(", ")}`
+    );
+  }
+
+  // Only scrapes that are about to start count against the quota
+  if (req.user) {
+    try {
+      consumeScrapeQuota(req.user.id);
+    } catch (err: any) {
+      if (err instanceof QuotaExceededError) {
+        const retryAfter = Math.ceil(
+          (Date.parse(err.quota.resetsAt) - Date.now()) / 1000
+        );
+        res.setHeader("Retry-After", String(retryAfter));
+        res.status(429).json({
+          success: false,
+          error: err.message,
+          quota: err.quota,
+        });
+        return null;
+      }
+      throw err;
+    }
+  }
+  return { params, adapters, credentials };
+}
+
+// The caller's scrape allowance for today
+app.get("/api/quota", (req: Request, res: Response) => {
+  if (!req.user) {
+    res.json({ success: true, data: null });
+    return;
+  }
+  res.json({ success: true, data: getQuotaStatus(req.user.id) });
+});
+
+// Browser pool occupancy and lifetime counters, for monitoring
+app.get("/api/browser-pool", (req: Request, res: Response) => {
+  res.json({ success: true, data: getBrowserPoolMetrics() });
+});
+
+// List the sites that can be requested via `sites`
+app.get("/api/sites", async (req: Request, res: Response) => {
+  const adapters = await discoverSiteAdapters();
+  const enabled = await resolveSites();
+  res.json({
+    success: true,
+    data: adapters.map((adapter) => ({
+      id: adapter.id,
+      displayName: adapter.displayName,
+      supportedFilters: supportedFilters(adapter.filters),
+      filters: adapter.filters,
+      filterNotes: adapter.filterNotes || {},
+      enabled: enabled.includes(adapter),
+    })),
+  });
+});
+
+// Canonical makes and their models, for search form dropdowns
+app.get("/api/catalog", (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: Object.entries(CATALOG).map(([make, models]) => ({ make, models })),
+  });
+});
+
+// Readings of free text such as "merc c class" as catalogue makes and models
+app.get("/api/catalog/resolve", (req: Request, res: Response) => {
+  const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+  if (!query) {
+    res.status(400).json({ success: false, error: "`q` is required" });
+    return;
+  }
+  res.json({ success: true, data: resolveCatalogQuery(query) });
+});
+
+/**
+ * The signed-in caller for endpoints that only make sense per user.
+ * Responds with 503 in single-user mode or without Supabase, where there
+ * are no per-user trade accounts, and returns null
+ */
+function requireUser(req: Request, res: Response): AuthUser | null {
+  if (!req.user || !isSupabaseConfigured()) {
+    res.status(503).json({
+      success: false,
+      error: "Trade accounts need Supabase to be configured",
+    });
+    return null;
+  }
+  return req.user;
+}
+
+const TRADE_ACCOUNT_TEXT_FIELDS = [
+  "name",
+  "url",
+  "username",
+  "password",
+  "notes",
+] as const;
+
+/**
+ * Pick the editable fields of a trade account from a request body. New
+ * accounts need a name, username and password. Returns an error message
+ * for invalid input
+ */
+function parseTradeAccountInput(
+  body: any,
+  isNew: boolean
+): TradeAccountInput | string {
+  const input: TradeAccountInput = {};
+  for (const field of TRADE_ACCOUNT_TEXT_FIELDS) {
+    if (body?.[field] === undefined) continue;
+    if (typeof body[field] !== "string") return `\`${field}\` must be a string`;
+    // Spaces may be part of a password, so it is stored as given
+    input[field] = field === "password" ? body[field] : body[field].trim();
+  }
+  if (body?.active !== undefined) {
+    if (typeof body.active !== "boolean") return "`active` must be a boolean";
+    input.active = body.active;
+  }
+
+  if (isNew && (!input.name || !input.username || !input.password)) {
+    return "`name`, `username` and `password` are required";
+  }
+  return input;
+}
+
+// The caller's trade accounts; passwords are never returned
+app.get("/api/trade-accounts", async (req: Request, res: Response) => {
+  try {
+    const user = requireUser(req, res);
+    if (!user) return;
+    res.json({ success: true, data: await listTradeAccounts(user.id) });
+  } catch (err: any) {
+    console.error("❌ [API] Failed to list trade accounts:", err);
+    res.status(500).json({ success: false, error: err.message });
+  }
+});
+
+// Add a trade account; the password is encrypted before it is stored
+app.post("/api/trade-accounts", async (req: Request, res: Response) => {
+  try {
+    const user = requireUser(req, res);
+    if (!user) return;
+
+    const input = parseTradeAccountInput(req.body, true);
+    if (typeof input === "string") {
+      res.status(400).json({ success: false, error: input });
+      return;
+    }
+    const account = await saveTradeAccount(user.id, input);
+    res.status(201).json({ success: true, data: account });
+  } catch (err: any) {
+    console.error("❌ [API] Failed to create trade account:", err);
+    res.status(500).json({ success: false, error: err.message });
+  }
+});
+
+// Edit or deactivate a trade account; omit `password` to keep the saved one
+app.put("/api/trade-accounts/:id", async (req: Request, res: Response) => {
+  try {
+    const user = requireUser(req, res);
+    if (!user) return;
+
+    const input = parseTradeAccountInput(req.body, false);
+    if (typeof input === "string") {
+      res.status(400).json({ success: false, error: input });
+      return;
+    }
+    const account = await saveTradeAccount(user.id, input, req.params.id);
+    if (!account) {
+      res
+        .status(404)
+        .json({ success: false, error: "Trade account not found" });
+      return;
+    }
+    res.json({ success: true, data: account });
+  } catch (err: any) {
+    console.error("❌ [API] Failed to update trade account:", err);
+    res.status(500).json({ success: false, error: err.message });
+  }
+});
+
+// Delete a trade account along with its stored login sessions
+app.delete("/api/trade-accounts/:id", async (req: Request, res: Response) => {
+  try {
+    const user = requireUser(req, res);
+    if (!user) return;
+
+    if (!(await deleteTradeAccount(user.id, req.params.id))) {
+      res
+        .status(404)
+        .json({ success: false, error: "Trade account not found" });
+      return;
+    }
+    res.json({ success: true, data: { id: req.params.id } });
+  } catch (err: any) {
+    console.error("❌ [API] Failed to delete trade account:", err);
+    res.status(500).json({ success: false, error: err.message });
+  }
+});
+
+/**
+ * Run only a site's login step to check a trade account still works.
+ * Tests the account given as `accountId`, otherwise the caller's active
+ * account for the site (the env credentials in single-user mode). Responds
+ * with the outcome, the landing URL and a screenshot of the page
+ */
+app.post("/api/sites/:name/test-login", async (req: Request, res: Response) => {
+  try {
+    const userId = credentialsUserId(req);
+    const adapter = (await discoverSiteAdapters()).find(
+      (candidate) => candidate.id === req.params.name.toLowerCase()
+    );
+    if (!adapter) {
+      res
+        .status(404)
+        .json({ success: false, error: `Unknown site: ${req.params.name}` });
+      return;
+    }
+
+    const accountId = req.body?.accountId;
+    const credentials =
+      userId && typeof accountId === "string"
+        ? await loadTradeAccountCredentials(userId, accountId, adapter)
+        : (await resolveSiteCredentials([adapter], userId))[adapter.id];
+    if (!credentials) {
+      res.status(400).json({
+        success: false,
+        error: `No ${adapter.displayName} account with a saved password`,
+      });
+      return;
+    }
+
+    // Stop the browser if the client gives up waiting
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    const result = await testSiteLogin(adapter, credentials, controller.signal);
+    if (result.success) {
+      createLoginRecorder({ [adapter.id]: credentials })(adapter.id);
+    }
+    res.json({ success: true, data: result });
+  } catch (err: any) {
+    if (err instanceof ScrapeCancelledError) {
+      console.log("🛑 [API] Login test cancelled, client disconnected");
+      return;
+    }
+    if (err instanceof AccountSiteMismatchError) {
+      res.status(400).json({ success: false, error: err.message });
+      return;
+    }
+    console.error("❌ [API] Login test error:", err);
+    res.status(500).json({ success: false, error: err.message });
+  }
+});
+
 // SSE endpoint for real-time car scraping
 app.post("/api/scrape-stream", async (req: Request, res: Response) => {
   console.log("🚀 [API] SSE scraping request received");
 
   try {
-    const params = req.body || {};
-    console.log("📋 [API] Request parameters:", params);
+    console.log("📋 [API] Request parameters:", req.body);
+
+    // Validate the search and site selection before switching to SSE so
+    // errors are plain JSON
+    const access = await resolveScrapeAccess(req, res);
+    if (!access) return;
+    const { params, adapters, credentials } = access;
 
     // Set SSE headers
     res.writeHead(200, {
       "Content-Type": "text/event-stream",
       "Cache-Control": "no-cache",
       Connection: "keep-alive",
-      "Access-Control-Allow-Origin": "*",
       "Access-Control-Allow-Headers": "Cache-Control",
     });
 
-    // Send initial connection message with total sites count
-    // Currently only motorway is enabled in the scraper
-    const totalSites = 5;
+    // Send initial connection message with the number of sites that will run
+    const totalSites = adapters.length;
+    const connectedData: ConnectedEvent = {
+      type: "connected",
+      message: "SSE connection established",
+      totalSites,
+      sites: adapters.map((adapter) => adapter.id),
+      timestamp: new Date().toISOString(),
+    };
 
-    res.write(
-      `data: ${JSON.stringify({
-        type: "connected",
-        message: "SSE connection established",
-        totalSites,
-        timestamp: new Date().toISOString(),
-      })}\n\n`
-    );
+    res.write(`data: ${JSON.stringify(connectedData)}\n\n`);
 
-    // Progress callback to stream results as they come in
+    // Progress callback to stream results as they come in. Only sites read
+    // in full can tell which listings are gone
+    const fullyReadSites: string[] = [];
+    const nearMisses: NearMissCar[] = [];
     const onProgress = (
       siteName: string,
-      cars: any[],
+      cars: StandardizedCarData[],
       totalSites: number,
-      currentSite: number
+      currentSite: number,
+      rejected: RejectedCar[],
+      siteNearMisses: NearMissCar[],
+      readAll: boolean
     ) => {
       console.log(
         `📊 [API] Progress from ${siteName}: ${cars.length} cars (site ${currentSite}/${totalSites})`
       );
 
-      const progressData = {
+      if (readAll) fullyReadSites.push(siteName);
+      nearMisses.push(...siteNearMisses);
+      const progressData: ProgressEvent = {
         type: "progress",
         siteName,
         cars,
         totalSites,
         currentSite,
+        rejected,
+        nearMisses: siteNearMisses,
         timestamp: new Date().toISOString(),
       };
 
@@ -61,18 +542,55 @@ app.post("/api/scrape-stream", async (req: Request, res: Response) => {
       console.log(`📡 [API] Progress data sent via SSE for ${siteName}`);
     };
 
+    // Stop scraping if the client goes away before the stream finishes
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) {
+        console.log("🔌 [API] SSE client disconnected, cancelling scrape");
+        controller.abort();
+      }
+    });
+
+    // Stream each site's lifecycle so the client can show a live timeline,
+    // including which sites failed and why
+    const onSiteEvent = (event: SiteEvent) => {
+      if (event.type === "site_failed") {
+        console.log(
+          `⚠️ [API] ${event.siteName} failed: ${event.summary} (${event.kind})`
+        );
+      }
+      res.write(`data: ${JSON.stringify(event)}\n\n`);
+    };
+
     // Start scraping with progress tracking
     console.log("🔍 [API] Starting scraping with progress tracking...");
-    const results = await scrapeAllSites(params, onProgress);
+    const results = await scrapeAllSites(params, onProgress, {
+      sites: adapters.map((adapter) => adapter.id),
+      signal: controller.signal,
+      onSiteEvent,
+      credentials,
+      onLoggedIn: createLoginRecorder(credentials),
+    });
     console.log(
       `✅ [API] Scraping completed with ${results.length} total cars`
     );
 
+    // Record prices before completing so results carry their history
+    const tracked = recordScrapeHistory(
+      params,
+      results,
+      fullyReadSites,
+      req.user?.id
+    );
+
     // Send completion message
-    const completionData = {
+    const completionData: CompleteEvent = {
       type: "complete",
       totalCars: results.length,
-      results,
+      results: tracked.results,
+      clusters: clusterVehicles(tracked.results),
+      removed: tracked.removed,
+      nearMisses,
       timestamp: new Date().toISOString(),
     };
 
@@ -81,11 +599,16 @@ app.post("/api/scrape-stream", async (req: Request, res: Response) => {
     res.end();
     console.log("🏁 [API] SSE stream completed successfully");
   } catch (err: any) {
+    if (err instanceof ScrapeCancelledError) {
+      console.log("🛑 [API] SSE scrape cancelled");
+      res.end();
+      return;
+    }
     console.error("❌ [API] Scrape error:", err);
 
     // Send error via SSE
     console.log("📡 [API] Sending error data via SSE");
-    const errorData = {
+    const errorData: ErrorEvent = {
       type: "error",
       error: err.message,
       timestamp: new Date().toISOString(),
@@ -97,13 +620,183 @@ app.post("/api/scrape-stream", async (req: Request, res: Response) => {
   }
 });
 
+// Start a scrape job that keeps running if the client disconnects
+app.post("/api/jobs", async (req: Request, res: Response) => {
+  try {
+    const access = await resolveScrapeAccess(req, res);
+    if (!access) return;
+
+    const job = createJob(
+      access.params,
+      access.adapters,
+      access.credentials,
+      req.user?.id
+    );
+    res.status(202).json({ success: true, data: summarizeJob(job) });
+  } catch (err: any) {
+    console.error("❌ [API] Failed to create job:", err);
+    res.status(500).json({ success: false, error: err.message });
+  }
+});
+
+/**
+ * Look up a job the caller owns. Other users' jobs are reported as missing
+ * so job ids cannot be probed. Responds with 404 and returns null otherwise
+ */
+function findOwnJob(req: Request, res: Response): ScrapeJob | null {
+  const job = getJob(req.params.id);
+  if (!job || job.userId !== req.user?.id) {
+    res.status(404).json({ success: false, error: "Job not found" });
+    return null;
+  }
+  return job;
+}
+
+// Job status, per-site progress and (once finished) results
+app.get("/api/jobs/:id", (req: Request, res: Response) => {
+  const job = findOwnJob(req, res);
+  if (!job) return;
+  res.json({ success: true, data: summarizeJob(job) });
+});
+
+// Cancel a running job, closing its pages and browsers
+app.delete("/api/jobs/:id", (req: Request, res: Response) => {
+  const job = findOwnJob(req, res);
+  if (!job) return;
+  if (!cancelJob(job)) {
+    res.status(409).json({
+      success: false,
+      error: `Job has already ${
+        job.status === "cancelled" ? "been cancelled" : "finished"
+      }`,
+    });
+    return;
+  }
+  // Cancellation finishes in the background; the job ends with a
+  // `cancelled` event once its browsers are closed
+  res.status(202).json({ success: true, data: summarizeJob(job) });
+});
+
+// SSE stream of job events; reconnecting clients resume after Last-Event-ID
+app.get("/api/jobs/:id/events", (req: Request, res: Response) => {
+  const job = findOwnJob(req, res);
+  if (!job) return;
+
+  const lastEventId =
+    parseInt(
+      req.header("Last-Event-ID") || (req.query.lastEventId as string) || "0"
+    ) || 0;
+  console.log(
+    `📡 [API] Client attached to job ${job.id} after event ${lastEventId}`
+  );
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "Access-Control-Allow-Headers": "Cache-Control, Last-Event-ID",
+  });
+
+  let unsubscribe: (() => void) | null = null;
+  let finished = false;
+  const finish = () => {
+    finished = true;
+    unsubscribe?.();
+    res.end();
+  };
+
+  unsubscribe = subscribeToJob(job, lastEventId, (event) => {
+    if (finished) return;
+    res.write(`id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`);
+    if (isTerminalEvent(event)) finish();
+  });
+  if (finished) unsubscribe();
+
+  res.on("close", () => {
+    if (!finished) {
+      console.log(`🔌 [API] Client detached from job ${job.id}`);
+      finished = true;
+      unsubscribe?.();
+    }
+  });
+});
+
+// Price and status history of one listing, keyed by the `history.key` on
+// each scraped car. Only the caller's own scrapes count
+app.get("/api/vehicles/:key/history", (req: Request, res: Response) => {
+  const history = getVehicleHistory(req.params.key, req.user?.id);
+  if (!history) {
+    res.status(404).json({ success: false, error: "Vehicle not found" });
+    return;
+  }
+  res.json({ success: true, data: history });
+});
+
 // Keep the original endpoint for backward compatibility
 app.post("/api/scrape", async (req: Request, res: Response) => {
   try {
-    const params = req.body || {};
-    const results = await scrapeAllSites(params);
-    res.json({ success: true, data: results });
+    const access = await resolveScrapeAccess(req, res);
+    if (!access) return;
+    const { params } = access;
+    // Nobody is waiting for the results once the client disconnects
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    // Collect records each site returned that failed normalisation
+    const rejected: RejectedCar[] = [];
+    const nearMisses: NearMissCar[] = [];
+    const fullyReadSites: string[] = [];
+    const siteErrors: SiteFailedEvent[] = [];
+    const siteResults: SiteCompletedEvent[] = [];
+    const results = await scrapeAllSites(
+      params,
+      (
+        siteName,
+        cars,
+        totalSites,
+        currentSite,
+        siteRejected,
+        siteNearMisses,
+        readAll
+      ) => {
+        if (readAll) fullyReadSites.push(siteName);
+        rejected.push(...siteRejected);
+        nearMisses.push(...siteNearMisses);
+      },
+      {
+        sites: access.adapters.map((adapter) => adapter.id),
+        signal: controller.signal,
+        onSiteEvent: (event) => {
+          if (event.type === "site_failed") siteErrors.push(event);
+          if (event.type === "site_completed") siteResults.push(event);
+        },
+        credentials: access.credentials,
+        onLoggedIn: createLoginRecorder(access.credentials),
+      }
+    );
+    const tracked = recordScrapeHistory(
+      params,
+      results,
+      fullyReadSites,
+      req.user?.id
+    );
+    res.json({
+      success: true,
+      data: tracked.results,
+      clusters: clusterVehicles(tracked.results),
+      rejected,
+      removed: tracked.removed,
+      nearMisses,
+      siteResults,
+      siteErrors,
+    });
   } catch (err: any) {
+    if (err instanceof ScrapeCancelledError) {
+      console.log("🛑 [API] Scrape cancelled, client disconnected");
+      return;
+    }
     console.error("Scrape error:", err);
     res.status(500).json({ success: false, error: err.message });
   }
@@ -112,4 +805,20 @@ app.post("/api/scrape", async (req: Request, res: Response) => {
 const PORT = process.env.PORT ? Number(process.env.PORT) : 3001;
 app.listen(PORT, () => {
   console.log(`Scraper API running on port ${PORT}`);
+
+  // Start the warm browsers in the background; scrapes can begin meanwhile
+  warmBrowserPool();
+
+  // Saved-search alerts run inside the API process when enabled
+  if (process.env.ALERTS_ENABLED === "true") {
+    startAlertScheduler();
+  }
 });
+
+// Close pooled browsers so their Browserbase sessions stop on shutdown
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.once(signal, () => {
+    console.log(`🛑 [API] ${signal} received, shutting down`);
+    shutdownBrowserPool().finally(() => process.exit(0));
+  });
+}
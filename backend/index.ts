@@ -1,36 +1,123 @@
-import { Stagehand } from "@browserbasehq/stagehand";
-import StagehandConfig, {
-  StagehandConfigWithProxies,
-  StagehandConfigWithoutProxies,
-} from "./stagehand.config.js";
 import chalk from "chalk";
 import boxen from "boxen";
 import * as dotenv from "dotenv";
-import { disposalnetworkConfig } from "./src/sites/disposalnetwork.js";
-import { bcaConfig } from "./src/sites/bca.js";
-import { motorwayConfig } from "./src/sites/motorway.js";
-import { carwowConfig } from "./src/sites/carwow.js";
-import { cartotradeConfig } from "./src/sites/cartotrade.js";
+import {
+  resolveSites,
+  createSiteConfig,
+  getEnvCredentials,
+} from "./src/sites/registry.js";
+import type { SiteAdapter } from "./src/sites/registry.js";
+import { reportFilters } from "./src/sites/filters.js";
+import { resolvePageLimits } from "./src/sites/paging.js";
+import type { ExtractedCars, PageLimits } from "./src/sites/paging.js";
+import {
+  acquireBrowser,
+  releaseBrowser,
+  shutdownBrowserPool,
+} from "./src/browsers/pool.js";
+import type { BrowserLease } from "./src/browsers/pool.js";
+import { acquireSiteSlot } from "./src/scheduling/site-queue.js";
+import { decryptSecret } from "./src/credentials/encryption.js";
+import {
+  captureSession,
+  isSessionReuseEnabled,
+  restoreSession,
+} from "./src/sessions/browser-session.js";
+import {
+  deleteSession,
+  loadSession,
+  saveSession,
+  sessionAccountFor,
+} from "./src/sessions/store.js";
+import type { SessionAccount } from "./src/sessions/store.js";
+import { normalizeSiteResults, RejectedCar } from "./src/vehicles/normalize.js";
+import { postFilterCars } from "./src/vehicles/post-filter.js";
+import type { NearMissCar } from "./src/vehicles/post-filter.js";
+import {
+  ScrapeCancelledError,
+  throwIfCancelled,
+  waitUnlessCancelled,
+} from "./src/utils/cancellation.js";
+import {
+  SiteError,
+  classifySiteError,
+  resolveRetryPolicy,
+  retryDelay,
+  summarizeSiteError,
+} from "./src/utils/site-errors.js";
+import type {
+  RetryPolicy,
+  ScrapePhase,
+  SiteErrorKind,
+  SiteErrorReport,
+} from "./src/utils/site-errors.js";
+import type {
+  SiteEvent,
+  SiteEventInput,
+  SiteStage,
+} from "./src/events/types.js";
 import type { SearchParams, LoginCredentials } from "./src/types/index.ts";
+import type { StandardizedCarData } from "./src/types/car.ts";
 
-export type { SearchParams, LoginCredentials };
+export type {
+  SearchParams,
+  LoginCredentials,
+  RejectedCar,
+  NearMissCar,
+  SiteErrorKind,
+  SiteErrorReport,
+  SiteEvent,
+};
+export { ScrapeCancelledError };
 
 // Load environment variables
 dotenv.config();
 
 // Update SiteConfig type
-type ExtractCarsFn = (page: any, params?: SearchParams) => Promise<any[]>;
+// Site functions receive the scrape's AbortSignal so long loops can stop early
+// `onPage` reports the results page being read, for site_stage events, and
+// `limits` caps the pages and cars read (see src/sites/paging.ts)
+type ExtractCarsFn = (
+  page: any,
+  params?: SearchParams,
+  signal?: AbortSignal,
+  onPage?: (page: number, totalPages?: number) => void,
+  limits?: PageLimits
+) => Promise<ExtractedCars>;
 export type SiteConfig = {
   name: string;
   baseUrl: string;
   loginUrl: string;
   buildSearchUrl?: (params: SearchParams) => string;
-  login: (page: any, credentials: LoginCredentials) => Promise<void>;
-  applyFilters: (page: any, params: SearchParams) => Promise<void>;
+  login: (
+    page: any,
+    credentials: LoginCredentials,
+    signal?: AbortSignal
+  ) => Promise<void>;
+  applyFilters: (
+    page: any,
+    params: SearchParams,
+    signal?: AbortSignal
+  ) => Promise<void>;
   filtersViaUI?: boolean;
   shouldNavigateToSearchUrl?: boolean;
   extractCars?: ExtractCarsFn;
   useProxies?: boolean; // New property to specify if this site needs proxies
+  retryPolicy?: Partial<RetryPolicy>; // Overrides DEFAULT_RETRY_POLICY
+  loginSuccessUrl?: RegExp; // Post-login URL; enables stored session reuse
+};
+
+// A site's login; `accountId` is the `dealer_websites` row it came from,
+// absent for env credentials
+export type SiteLogin = LoginCredentials & { accountId?: string };
+
+// Per-call options for scrapeAllSites
+export type ScrapeOptions = {
+  sites?: string[]; // Site ids to run; overrides searchParams.sites
+  signal?: AbortSignal; // Cancels the scrape, closing its open pages
+  onSiteEvent?: (event: SiteEvent) => void; // Per-site lifecycle events
+  credentials?: Record<string, SiteLogin>; // Trade accounts by site id; defaults to env
+  onLoggedIn?: (siteName: string) => void; // A site's login step succeeded
 };
 
 /**
@@ -164,7 +251,7 @@ async function setupSiteSpecificResourceBlocking(
  */
 
 async function run() {
-  const results = await scrapeAllSites();
+  const results = await scrapeAllSites().finally(shutdownBrowserPool);
   console.log(
     boxen("All extracted car data:\n" + JSON.stringify(results, null, 2), {
       padding: 1,
@@ -214,71 +301,63 @@ async function runInBatches<T>(
 }
 
 // Exported function to scrape all sites, callable from an API
+// `readAll` tells onProgress whether every listing the site has for the
+// search was read, which deciding what is no longer listed depends on
 export async function scrapeAllSites(
   customParams?: Partial<SearchParams>,
   onProgress?: (
     siteName: string,
-    cars: any[],
+    cars: StandardizedCarData[],
     totalSites: number,
-    currentSite: number
-  ) => void
-): Promise<any[]> {
+    currentSite: number,
+    rejected: RejectedCar[],
+    nearMisses: NearMissCar[],
+    readAll: boolean
+  ) => void,
+  options: ScrapeOptions = {}
+): Promise<StandardizedCarData[]> {
   console.log("🚀 [Backend] Starting scraping session for all sites");
   console.log("📋 [Backend] Search parameters:", customParams);
 
-  // Create separate Stagehand instances for proxy and non-proxy sites
-  const stagehandWithProxies = new Stagehand(StagehandConfigWithProxies);
-  const stagehandWithoutProxies = new Stagehand(StagehandConfigWithoutProxies);
+  const { signal } = options;
+  throwIfCancelled(signal);
 
-  console.log("🔧 [Backend] Initializing Stagehand instances...");
-  await Promise.all([
-    stagehandWithProxies.init(),
-    stagehandWithoutProxies.init(),
-  ]);
+  // Resolve which site adapters to run. Browsers come from the shared pool,
+  // one lease per site attempt
+  const adapters = await resolveSites(options.sites ?? customParams?.sites);
 
-  console.log("✅ [Backend] Both Stagehand instances initialized successfully");
+  // On cancellation close every open page straight away, so in-flight
+  // navigation and LLM steps fail instead of running to completion. The
+  // browsers themselves go back to the pool
+  const openPages = new Set<any>();
+  const onCancel = async () => {
+    console.log(
+      `🛑 [Backend] Scrape cancelled, closing ${openPages.size} open pages`
+    );
+    await Promise.allSettled([...openPages].map((page) => page.close()));
+    console.log("✅ [Backend] Cancelled scrape cleaned up");
+  };
+  if (signal?.aborted) {
+    await onCancel();
+    throw new ScrapeCancelledError();
+  }
+  signal?.addEventListener("abort", onCancel, { once: true });
 
   // Use only custom params from API, do not merge with defaults
   const searchParams: SearchParams = customParams as SearchParams;
 
-  // Define site configurations with login functionality
-  console.log("🏗️ [Backend] Setting up site configurations...");
-  const siteConfigs: Record<string, SiteConfig> = {
-    bca: bcaConfig(stagehandWithProxies),
-    // CarToTrade: cartotradeConfig(stagehandWithoutProxies),
-    motorway: motorwayConfig(stagehandWithoutProxies),
-    carwow: carwowConfig(stagehandWithoutProxies),
-    disposalnetwork: disposalnetworkConfig(stagehandWithoutProxies),
-  } as const;
-
   console.log(
-    "✅ [Backend] Site configurations loaded:",
-    Object.keys(siteConfigs)
+    "✅ [Backend] Sites to scrape:",
+    adapters.map((adapter) => adapter.id)
   );
 
-  // Define login credentials for each site
-  const siteCredentials: Record<string, LoginCredentials> = {
-    bca: {
-      username: process.env.BCA_USERNAME || "",
-      password: process.env.BCA_PASSWORD || "",
-    },
-    motorway: {
-      username: process.env.MOTORWAY_USERNAME || "",
-      password: process.env.MOTORWAY_PASSWORD || "",
-    },
-    carwow: {
-      username: process.env.CARWOW_USERNAME || "",
-      password: process.env.CARWOW_PASSWORD || "",
-    },
-    CarToTrade: {
-      username: process.env.CARTOTRADE_USERNAME || "",
-      password: process.env.CARWOW_PASSWORD || "",
-    },
-    disposalnetwork: {
-      username: process.env.DISPOSALNETWORK_USERNAME || "",
-      password: process.env.DISPOSALNETWORK_PASSWORD || "",
-    },
-  };
+  // Use the caller's trade accounts when given, otherwise read each site's
+  // credentials from the env vars its adapter declares
+  const siteCredentials: Record<string, SiteLogin> =
+    options.credentials ??
+    Object.fromEntries(
+      adapters.map((adapter) => [adapter.id, getEnvCredentials(adapter)])
+    );
 
   // Log credential status for each site
   Object.entries(siteCredentials).forEach(([siteName, creds]) => {
@@ -291,91 +370,148 @@ export async function scrapeAllSites(
     );
   });
 
-  const allCarData: any[] = [];
-  const totalSites = Object.keys(siteConfigs).length;
+  const allCarData: StandardizedCarData[] = [];
+  const totalSites = adapters.length;
   let currentSiteIndex = 0;
 
+  const emitSiteEvent = (event: SiteEventInput) => {
+    options.onSiteEvent?.({
+      ...event,
+      timestamp: new Date().toISOString(),
+    } as SiteEvent);
+  };
+
   // Track which sites need proxies vs which don't
-  const proxySites = Object.values(siteConfigs).filter(
-    (config) => config.useProxies
-  );
-  const nonProxySites = Object.values(siteConfigs).filter(
-    (config) => !config.useProxies
-  );
+  const proxySites = adapters.filter((adapter) => adapter.useProxies);
+  const nonProxySites = adapters.filter((adapter) => !adapter.useProxies);
 
   // Note: Completion tracking removed since we now process proxy and non-proxy sites separately
 
   console.log(`🏢 [Backend] Total sites to scrape: ${totalSites}`);
   console.log(
     `🔧 [Backend] Sites requiring proxies: ${proxySites.length} (${proxySites
-      .map((s) => s.name)
+      .map((s) => s.id)
       .join(", ")})`
   );
   console.log(
     `🔧 [Backend] Sites without proxies: ${
       nonProxySites.length
-    } (${nonProxySites.map((s) => s.name).join(", ")})`
+    } (${nonProxySites.map((s) => s.id).join(", ")})`
   );
   console.log("🔄 [Backend] Starting batch processing...");
 
   // Note: Early cleanup function removed since we now process sites in separate groups
 
-  async function processSite(siteConfig: SiteConfig) {
-    console.log(`\n🌐 [Backend] Starting scrape for site: ${siteConfig.name}`);
-    console.log(`📅 [Backend] Site ${currentSiteIndex + 1} of ${totalSites}`);
-
-    // Choose the appropriate Stagehand instance based on proxy requirements
-    const stagehand = siteConfig.useProxies
-      ? stagehandWithProxies
-      : stagehandWithoutProxies;
-    const context = stagehand.context;
-
-    console.log(
-      `🔧 [Backend] Using ${
-        siteConfig.useProxies ? "proxy-enabled" : "standard"
-      } Stagehand instance for ${siteConfig.name}`
-    );
+  // `returned` counts the cars read from the site, before post-filtering
+  type SiteAttemptResult = {
+    cars: StandardizedCarData[] | null;
+    rejected: RejectedCar[];
+    nearMisses: NearMissCar[];
+    filteredOut: number;
+    returned: number;
+    totalAvailable?: number;
+    nextPage?: number;
+    nextOffset?: number;
+  };
 
-    const newPage = await context.newPage();
-    console.log(`📄 [Backend] New page created for ${siteConfig.name}`);
+  const pageLimits = resolvePageLimits(searchParams);
 
-    // 🚫 SETUP SITE-SPECIFIC RESOURCE BLOCKING TO REDUCE BANDWIDTH
-    // Set up blocking BEFORE any navigation to catch early resources
-    await setupSiteSpecificResourceBlocking(newPage, siteConfig);
+  // One attempt at a site on a fresh page. Failures are rethrown as a
+  // classified SiteError so processSite can decide whether to retry
+  async function attemptSite(
+    siteConfig: SiteConfig,
+    context: any,
+    attempt: number
+  ): Promise<SiteAttemptResult> {
+    let phase: ScrapePhase = "setup";
+    let newPage: any = null;
+    // Account whose stored session this attempt reused, if any
+    let resumedAccount: SessionAccount | null = null;
 
-    // For proxy sites, also set up context-level blocking as backup
-    if (siteConfig.useProxies && siteConfig.name !== "bca") {
-      console.log(
-        `🔧 [Backend] Setting up context-level CSS blocking for ${siteConfig.name}`
-      );
-      await context.route("**/*.css", (route) => {
-        console.log(
-          `🚫 [Backend] Context-level CSS block: ${route
-            .request()
-            .url()
-            .substring(0, 80)}...`
-        );
-        route.abort();
+    const reportStage = (
+      stage: SiteStage,
+      details: { page?: number; totalPages?: number } = {}
+    ) =>
+      emitSiteEvent({
+        type: "site_stage",
+        siteName: siteConfig.name,
+        stage,
+        attempt,
+        ...details,
       });
-    }
 
     try {
+      newPage = await context.newPage();
+      openPages.add(newPage);
+      console.log(`📄 [Backend] New page created for ${siteConfig.name}`);
+
+      // 🚫 SETUP SITE-SPECIFIC RESOURCE BLOCKING TO REDUCE BANDWIDTH
+      // Set up blocking BEFORE any navigation to catch early resources
+      await setupSiteSpecificResourceBlocking(newPage, siteConfig);
+
+      phase = "login";
       console.log(
         `🔐 [Backend] Checking credentials for ${siteConfig.name}...`
       );
-      if (!siteCredentials[siteConfig.name]) {
-        throw new Error(`No credentials found for ${siteConfig.name}`);
-      }
       const credentials = siteCredentials[siteConfig.name];
-      if (!credentials.username || !credentials.password) {
-        throw new Error(`Missing username or password for ${siteConfig.name}`);
+      if (!credentials?.username || !credentials?.password) {
+        throw new SiteError(
+          "auth",
+          `Missing username or password for ${siteConfig.name}`,
+          phase
+        );
       }
       console.log(`✅ [Backend] Credentials validated for ${siteConfig.name}`);
 
-      console.log(`🔑 [Backend] Logging into ${siteConfig.name}...`);
-      await siteConfig.login(newPage, credentials);
-      console.log(`✅ [Backend] Successfully logged into ${siteConfig.name}`);
+      // Skip the login when the account's stored session is still accepted
+      const loggedInUrl = isSessionReuseEnabled()
+        ? siteConfig.loginSuccessUrl
+        : undefined;
+      const account = sessionAccountFor(credentials);
+      const stored = loggedInUrl ? loadSession(siteConfig.name, account) : null;
+      if (stored && loggedInUrl) {
+        console.log(
+          `♻️ [Backend] Reusing stored session for ${siteConfig.name}...`
+        );
+        reportStage("resuming_session");
+        if (await restoreSession(newPage, stored, loggedInUrl)) {
+          resumedAccount = account;
+          console.log(
+            `✅ [Backend] Stored session accepted by ${siteConfig.name}`
+          );
+        } else {
+          console.log(
+            `⌛ [Backend] Stored session rejected by ${siteConfig.name}, logging in again`
+          );
+          await deleteSession(siteConfig.name, account);
+        }
+        throwIfCancelled(signal);
+      }
+
+      if (!resumedAccount) {
+        console.log(`🔑 [Backend] Logging into ${siteConfig.name}...`);
+        reportStage("logging_in");
+        // Stored passwords are decrypted only for the login itself
+        await siteConfig.login(
+          newPage,
+          { ...credentials, password: decryptSecret(credentials.password) },
+          signal
+        );
+        throwIfCancelled(signal);
+        console.log(`✅ [Backend] Successfully logged into ${siteConfig.name}`);
+        options.onLoggedIn?.(siteConfig.name);
 
+        // Only a login that reached the logged-in page is worth keeping
+        if (loggedInUrl?.test(newPage.url())) {
+          await saveSession(
+            await captureSession(newPage, siteConfig.name, account)
+          );
+          console.log(`💾 [Backend] Stored session for ${siteConfig.name}`);
+        }
+      }
+
+      phase = "navigation";
+      reportStage("navigating");
       console.log(`⏳ [Backend] Waiting for page to load...`);
       await newPage.waitForLoadState("domcontentloaded");
       await newPage.waitForTimeout(2_000);
@@ -407,6 +543,7 @@ export async function scrapeAllSites(
         console.log(`🚀 [Backend] Navigating to search URL...`);
         await newPage.goto(searchUrl);
         await newPage.waitForLoadState("domcontentloaded");
+        throwIfCancelled(signal);
         console.log(
           `✅ [Backend] Successfully navigated to search URL for ${siteConfig.name}`
         );
@@ -415,143 +552,384 @@ export async function scrapeAllSites(
           `ℹ️ [Backend] No search URL navigation needed for ${siteConfig.name}`
         );
       }
+
+      phase = "filters";
       if (typeof siteConfig.applyFilters === "function") {
         console.log(`🔧 [Backend] Applying filters for ${siteConfig.name}...`);
-        await siteConfig.applyFilters(newPage, searchParams);
+        reportStage("applying_filters");
+        await siteConfig.applyFilters(newPage, searchParams, signal);
+        throwIfCancelled(signal);
         console.log(
           `✅ [Backend] Filters applied successfully for ${siteConfig.name}`
         );
       } else {
         console.log(`ℹ️ [Backend] No filters to apply for ${siteConfig.name}`);
       }
-      let extractedData = null;
-      if (typeof siteConfig.extractCars === "function") {
+
+      phase = "extraction";
+      if (typeof siteConfig.extractCars !== "function") {
+        // No extraction if no custom extractCars
         console.log(
-          `📊 [Backend] Starting data extraction for ${siteConfig.name}...`
+          `ℹ️ [Backend] No extractCars function available for ${siteConfig.name}`
         );
+        return {
+          cars: null,
+          rejected: [],
+          nearMisses: [],
+          filteredOut: 0,
+          returned: 0,
+        };
+      }
 
-        // Pass params for disposalnetwork, else call as before
-        if (siteConfig.name === "disposalnetwork") {
-          console.log(
-            `🔍 [Backend] Using disposalnetwork-specific extraction with params`
-          );
-          extractedData = await siteConfig.extractCars(newPage, searchParams);
-        } else {
-          console.log(`🔍 [Backend] Using standard extraction method`);
-          extractedData = await siteConfig.extractCars(newPage);
-        }
+      console.log(
+        `📊 [Backend] Starting data extraction for ${siteConfig.name}...`
+      );
+      reportStage("extracting");
+      const onPage = (page: number, totalPages?: number) =>
+        reportStage("extracting", { page, totalPages });
 
+      // Pass params for disposalnetwork, else call as before
+      let extracted: ExtractedCars;
+      if (siteConfig.name === "disposalnetwork") {
         console.log(
-          `✅ [Backend] ${siteConfig.name} extracted ${
-            extractedData?.length || 0
-          } cars`
+          `🔍 [Backend] Using disposalnetwork-specific extraction with params`
         );
+        extracted = await siteConfig.extractCars(
+          newPage,
+          searchParams,
+          signal,
+          onPage,
+          pageLimits
+        );
+      } else {
+        console.log(`🔍 [Backend] Using standard extraction method`);
+        extracted = await siteConfig.extractCars(
+          newPage,
+          undefined,
+          signal,
+          onPage,
+          pageLimits
+        );
+      }
+      const rawCars = extracted.cars;
 
-        if (extractedData && extractedData.length > 0) {
-          console.log(`🚗 [Backend] Sample car data from ${siteConfig.name}:`, {
-            make: extractedData[0]?.make,
-            model: extractedData[0]?.model,
-            price: extractedData[0]?.price,
-            year: extractedData[0]?.year,
-          });
-        }
+      throwIfCancelled(signal);
+      console.log(
+        `✅ [Backend] ${siteConfig.name} extracted ${rawCars.length} cars${
+          extracted.totalAvailable !== undefined
+            ? ` of ${extracted.totalAvailable}`
+            : ""
+        }${
+          extracted.nextPage
+            ? `, more from page ${extracted.nextPage}${
+                extracted.nextOffset ? ` after car ${extracted.nextOffset}` : ""
+              }`
+            : ""
+        }`
+      );
+
+      // An empty results page is often a page that has not finished
+      // rendering, so it is retried like any other transient failure. Past
+      // the first page it just means the site has no more
+      if (
+        rawCars.length === 0 &&
+        pageLimits.startPage === 1 &&
+        pageLimits.startOffset === 0
+      ) {
+        throw new SiteError(
+          "zero_results",
+          `No vehicles found on ${siteConfig.name}`,
+          phase
+        );
+      }
+
+      // Coerce every record into StandardizedCarData, keeping the rejects
+      const { cars, rejected } = normalizeSiteResults(siteConfig.name, rawCars);
+
+      if (cars.length > 0) {
+        console.log(`🚗 [Backend] Sample car data from ${siteConfig.name}:`, {
+          make: cars[0]?.make,
+          model: cars[0]?.model,
+          price: cars[0]?.price,
+          year: cars[0]?.year,
+        });
+      }
+
+      // Sites that only approximate a filter return cars outside the search
+      const filtered = postFilterCars(siteConfig.name, cars, searchParams);
+
+      return {
+        cars: filtered.cars,
+        rejected,
+        nearMisses: filtered.nearMisses,
+        filteredOut: filtered.filteredOut,
+        returned: rawCars.length,
+        totalAvailable: extracted.totalAvailable,
+        nextPage: extracted.nextPage,
+        nextOffset: extracted.nextOffset,
+      };
+    } catch (error) {
+      if (signal?.aborted) throw new ScrapeCancelledError();
+      // The reused session may have expired mid-run; retries log in afresh
+      if (resumedAccount) await deleteSession(siteConfig.name, resumedAccount);
+      if (error instanceof SiteError) throw error;
+      throw new SiteError(
+        classifySiteError(error, phase),
+        error instanceof Error ? error.message : String(error),
+        phase
+      );
+    } finally {
+      if (newPage) {
+        console.log(`🧹 [Backend] Closing page for ${siteConfig.name}`);
+        openPages.delete(newPage);
+        // Already closed if the scrape was cancelled mid-site
+        if (!newPage.isClosed()) await newPage.close();
+        console.log(`✅ [Backend] Page closed for ${siteConfig.name}`);
+      }
+    }
+  }
+
+  // Converts a failure to start a browser into a retryable site error
+  async function leaseBrowserFor(adapter: SiteAdapter): Promise<BrowserLease> {
+    try {
+      return await acquireBrowser(
+        adapter.useProxies ? "proxy" : "standard",
+        signal
+      );
+    } catch (error) {
+      if (error instanceof ScrapeCancelledError) throw error;
+      throw new SiteError(
+        classifySiteError(error, "setup"),
+        error instanceof Error ? error.message : String(error),
+        "setup"
+      );
+    }
+  }
+
+  // Runs one attempt once the site queue has a session slot for the site and
+  // its trade account, on a browser leased from the pool. A browser that hit
+  // a network error is discarded rather than lent to the next site
+  async function attemptOnPooledBrowser(
+    adapter: SiteAdapter,
+    attempt: number
+  ): Promise<SiteAttemptResult> {
+    const releaseSlot = await acquireSiteSlot(
+      {
+        siteName: adapter.id,
+        account: siteCredentials[adapter.id]?.username || "",
+        maxSessions: adapter.maxConcurrentSessions,
+      },
+      {
+        signal,
+        onQueued: (queuePosition) =>
+          emitSiteEvent({
+            type: "site_stage",
+            siteName: adapter.id,
+            stage: "queued",
+            attempt,
+            queuePosition,
+          }),
+      }
+    );
+
+    let lease: BrowserLease | null = null;
+    let broken = false;
+    try {
+      lease = await leaseBrowserFor(adapter);
+      console.log(
+        `🔧 [Backend] Using ${
+          adapter.useProxies ? "proxy-enabled" : "standard"
+        } browser #${lease.browserId} for ${adapter.id}`
+      );
+      return await attemptSite(
+        createSiteConfig(adapter, lease.stagehand),
+        lease.context,
+        attempt
+      );
+    } catch (error) {
+      broken = error instanceof SiteError && error.kind === "network";
+      throw error;
+    } finally {
+      if (lease) await releaseBrowser(lease, { broken });
+      releaseSlot();
+    }
+  }
+
+  async function processSite(adapter: SiteAdapter) {
+    const siteName = adapter.id;
+    if (signal?.aborted) {
+      console.log(`🛑 [Backend] Skipping ${siteName}, scrape cancelled`);
+      return null;
+    }
+    console.log(`\n🌐 [Backend] Starting scrape for site: ${siteName}`);
+    console.log(`📅 [Backend] Site ${currentSiteIndex + 1} of ${totalSites}`);
+
+    const startedAt = Date.now();
+    emitSiteEvent({
+      type: "site_started",
+      siteName: siteName,
+      totalSites,
+    });
+
+    // Transient failures are retried on a fresh page with exponential backoff
+    const policy = resolveRetryPolicy(adapter.retryPolicy);
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const {
+          cars,
+          rejected,
+          nearMisses,
+          filteredOut,
+          returned,
+          totalAvailable,
+          nextPage,
+          nextOffset,
+        } = await attemptOnPooledBrowser(adapter, attempt);
+        currentSiteIndex++;
 
         // Emit progress if callback is provided
-        if (onProgress && extractedData) {
+        if (onProgress && cars) {
           console.log(
-            `📡 [Backend] Emitting progress for ${siteConfig.name}: ${extractedData.length} cars`
+            `📡 [Backend] Emitting progress for ${siteName}: ${cars.length} cars`
           );
           onProgress(
-            siteConfig.name,
-            extractedData,
+            siteName,
+            cars,
             totalSites,
-            currentSiteIndex + 1
+            currentSiteIndex,
+            rejected,
+            nearMisses,
+            pageLimits.startPage === 1 &&
+              pageLimits.startOffset === 0 &&
+              nextPage === undefined
           );
-          console.log(`✅ [Backend] Progress emitted for ${siteConfig.name}`);
+          console.log(`✅ [Backend] Progress emitted for ${siteName}`);
         } else if (onProgress) {
-          console.log(
-            `⚠️ [Backend] No data to emit progress for ${siteConfig.name}`
+          console.log(`⚠️ [Backend] No data to emit progress for ${siteName}`);
+        }
+
+        emitSiteEvent({
+          type: "site_completed",
+          siteName: siteName,
+          carsFound: cars?.length || 0,
+          rejected: rejected.length,
+          nearMisses: nearMisses.length,
+          filteredOut,
+          returned,
+          ...(totalAvailable !== undefined && { totalAvailable }),
+          ...(nextPage !== undefined && { nextPage }),
+          ...(nextOffset !== undefined && { nextOffset }),
+          attempts: attempt,
+          durationMs: Date.now() - startedAt,
+          totalSites,
+          currentSite: currentSiteIndex,
+          ...reportFilters(adapter, searchParams),
+        });
+        console.log(`🏁 [Backend] Completed scraping for ${siteName}`);
+        return cars;
+      } catch (error) {
+        if (error instanceof ScrapeCancelledError || signal?.aborted) {
+          console.log(`🛑 [Backend] Scrape of ${siteName} cancelled`);
+          return null;
+        }
+
+        // attemptSite classifies its own errors; anything else failed while
+        // setting the attempt up, e.g. acquiring a browser or a site slot
+        const siteError =
+          error instanceof SiteError
+            ? error
+            : new SiteError(
+                classifySiteError(error, "setup"),
+                error instanceof Error ? error.message : String(error),
+                "setup"
+              );
+        if (
+          attempt < policy.maxAttempts &&
+          policy.retryOn.includes(siteError.kind)
+        ) {
+          const delay = retryDelay(policy, attempt);
+          console.warn(
+            `🔁 [Backend] ${siteName} failed with ${siteError.kind} (attempt ${attempt}/${policy.maxAttempts}), retrying in ${delay}ms: ${siteError.message}`
           );
+          emitSiteEvent({
+            type: "site_stage",
+            siteName: siteName,
+            stage: "retrying",
+            attempt,
+            retryInMs: delay,
+            reason: summarizeSiteError(siteError.kind),
+          });
+          try {
+            await waitUnlessCancelled(delay, signal);
+          } catch {
+            console.log(`🛑 [Backend] Scrape of ${siteName} cancelled`);
+            return null;
+          }
+          continue;
         }
-      } else {
-        // No extraction if no custom extractCars
-        console.log(
-          `ℹ️ [Backend] No extractCars function available for ${siteConfig.name}`
+
+        currentSiteIndex++;
+        console.error(
+          `❌ [Backend] Error scraping ${siteName} (${siteError.kind} after ${attempt} attempts):`,
+          siteError.message
         );
-        extractedData = null;
+        emitSiteEvent({
+          type: "site_failed",
+          siteName: siteName,
+          kind: siteError.kind,
+          summary: summarizeSiteError(siteError.kind),
+          message: siteError.message,
+          phase: siteError.phase,
+          attempts: attempt,
+          currentSite: currentSiteIndex,
+          totalSites,
+          durationMs: Date.now() - startedAt,
+        });
+        return null;
       }
-
-      currentSiteIndex++;
-      console.log(`🏁 [Backend] Completed scraping for ${siteConfig.name}`);
-      return extractedData;
-    } catch (error) {
-      console.error(`❌ [Backend] Error scraping ${siteConfig.name}:`, error);
-      currentSiteIndex++;
-      return null;
-    } finally {
-      console.log(`🧹 [Backend] Closing page for ${siteConfig.name}`);
-      await newPage.close();
-      console.log(`✅ [Backend] Page closed for ${siteConfig.name}`);
     }
   }
 
   // Separate sites by proxy requirements for proper concurrency management
-  const proxySiteConfigs = Object.values(siteConfigs).filter(
-    (config) => config.useProxies
-  );
-  const nonProxySiteConfigs = Object.values(siteConfigs).filter(
-    (config) => !config.useProxies
-  );
-
   const concurrencyLimit = Number(process.env.CONCURRENCY_LIMIT) || 5;
 
   console.log(
     `🔄 [Backend] Processing sites with separate concurrency management:`
   );
   console.log(
-    `   - Proxy sites: ${proxySiteConfigs.length} (using proxy-enabled instance)`
+    `   - Proxy sites: ${proxySites.length} (using proxy-enabled browsers)`
   );
   console.log(
-    `   - Non-proxy sites: ${nonProxySiteConfigs.length} (using standard instance)`
+    `   - Non-proxy sites: ${nonProxySites.length} (using standard browsers)`
   );
   console.log(`   - Concurrency limit: ${concurrencyLimit}`);
 
-  // Process proxy sites and non-proxy sites in parallel, but with separate concurrency limits
+  // Process proxy sites and non-proxy sites in parallel, but with separate
+  // concurrency limits. The browser pool caps the browsers actually open
   const [proxyResults, nonProxyResults] = await Promise.all([
-    // Process proxy sites with their own concurrency limit
-    proxySiteConfigs.length > 0
+    proxySites.length > 0
       ? runInBatches(
-          proxySiteConfigs.map((siteConfig) => () => processSite(siteConfig)),
-          Math.min(concurrencyLimit, proxySiteConfigs.length)
-        ).then(async (results) => {
-          // Close proxy session immediately when proxy sites are done
-          console.log(
-            "🔧 [Backend] All proxy sites completed, closing proxy-enabled Stagehand instance..."
-          );
-          await stagehandWithProxies.close();
-          console.log("✅ [Backend] Proxy-enabled Stagehand instance closed");
-          return results;
-        })
+          proxySites.map((adapter) => () => processSite(adapter)),
+          Math.min(concurrencyLimit, proxySites.length)
+        )
       : Promise.resolve([]),
-
-    // Process non-proxy sites with their own concurrency limit
-    nonProxySiteConfigs.length > 0
+    nonProxySites.length > 0
       ? runInBatches(
-          nonProxySiteConfigs.map(
-            (siteConfig) => () => processSite(siteConfig)
-          ),
-          Math.min(concurrencyLimit, nonProxySiteConfigs.length)
-        ).then(async (results) => {
-          // Close non-proxy session immediately when non-proxy sites are done
-          console.log(
-            "🔧 [Backend] All non-proxy sites completed, closing standard Stagehand instance..."
-          );
-          await stagehandWithoutProxies.close();
-          console.log("✅ [Backend] Standard Stagehand instance closed");
-          return results;
-        })
+          nonProxySites.map((adapter) => () => processSite(adapter)),
+          Math.min(concurrencyLimit, nonProxySites.length)
+        )
       : Promise.resolve([]),
-  ]);
+  ]).catch((error) => {
+    // Page setup runs outside each site's try block, so it fails with a
+    // browser error once a cancelled scrape has closed its pages
+    if (signal?.aborted) throw new ScrapeCancelledError();
+    throw error;
+  });
+
+  signal?.removeEventListener("abort", onCancel);
+  if (signal?.aborted) {
+    throw new ScrapeCancelledError();
+  }
 
   // Combine results from both groups
   const results = [...proxyResults, ...nonProxyResults];
@@ -575,9 +953,129 @@ export async function scrapeAllSites(
 
   console.log(`🏁 [Backend] Scraping session completed!`);
   console.log(`📊 [Backend] Total cars collected: ${allCarData.length}`);
-  console.log(
-    `✅ [Backend] All Stagehand instances already closed during processing`
-  );
+  console.log(`✅ [Backend] All leased browsers returned to the pool`);
 
   return allCarData;
 }
+
+/**
+ * LOGIN TEST RESULT
+ * Outcome of running only a site's login step
+ * - landingUrl: where the browser ended up after logging in
+ * - screenshot: JPEG data URL of that page, for diagnosing failures
+ */
+export type LoginTestResult = {
+  siteName: string;
+  success: boolean;
+  kind?: SiteErrorKind;
+  reason?: string;
+  landingUrl?: string;
+  screenshot?: string;
+  durationMs: number;
+};
+
+/**
+ * TEST SITE LOGIN
+ * Logs into one site on a pooled browser without scraping, then
+ * checks the browser reached the adapter's post-login URL. Used to tell an
+ * expired password apart from a site that simply had no matching vehicles
+ */
+export async function testSiteLogin(
+  adapter: SiteAdapter,
+  credentials: LoginCredentials,
+  signal?: AbortSignal
+): Promise<LoginTestResult> {
+  console.log(`🧪 [Backend] Testing login for ${adapter.id}`);
+  const startedAt = Date.now();
+  // Waits behind any scrape already using this account
+  const releaseSlot = await acquireSiteSlot(
+    {
+      siteName: adapter.id,
+      account: credentials.username,
+      maxSessions: adapter.maxConcurrentSessions,
+    },
+    { signal }
+  );
+  const lease = await acquireBrowser(
+    adapter.useProxies ? "proxy" : "standard",
+    signal
+  ).catch((error) => {
+    releaseSlot();
+    throw error;
+  });
+
+  // Close the page at most once, whether the test finished or was cancelled
+  let page: any = null;
+  const closePage = async () => {
+    if (page && !page.isClosed()) await page.close().catch(() => {});
+  };
+  signal?.addEventListener("abort", closePage, { once: true });
+
+  const finish = async (
+    outcome: Pick<LoginTestResult, "success" | "kind" | "reason">
+  ): Promise<LoginTestResult> => {
+    const landingUrl = page?.url();
+    const screenshot = await page
+      ?.screenshot({ type: "jpeg", quality: 60 })
+      .then(
+        (image: Buffer) => `data:image/jpeg;base64,${image.toString("base64")}`
+      )
+      .catch(() => undefined);
+    return {
+      siteName: adapter.id,
+      ...outcome,
+      landingUrl,
+      screenshot,
+      durationMs: Date.now() - startedAt,
+    };
+  };
+
+  let broken = false;
+  try {
+    const siteConfig = createSiteConfig(adapter, lease.stagehand);
+    page = await lease.context.newPage();
+    await setupSiteSpecificResourceBlocking(page, siteConfig);
+
+    await siteConfig.login(
+      page,
+      { ...credentials, password: decryptSecret(credentials.password) },
+      signal
+    );
+    throwIfCancelled(signal);
+
+    // Adapters only wait a fixed time after submitting, so give slow
+    // redirects a chance before judging the landing URL
+    if (adapter.loginSuccessUrl) {
+      await page
+        .waitForURL(adapter.loginSuccessUrl, { timeout: 15_000 })
+        .catch(() => {});
+      if (!adapter.loginSuccessUrl.test(page.url())) {
+        console.log(`❌ [Backend] ${adapter.id} login landed on ${page.url()}`);
+        return await finish({
+          success: false,
+          kind: "auth",
+          reason: `${summarizeSiteError("auth")}: still on ${page.url()}`,
+        });
+      }
+    }
+
+    console.log(`✅ [Backend] ${adapter.id} login test succeeded`);
+    return await finish({ success: true });
+  } catch (error) {
+    if (signal?.aborted) throw new ScrapeCancelledError();
+    const kind = classifySiteError(error, "login");
+    const message = error instanceof Error ? error.message : String(error);
+    console.log(`❌ [Backend] ${adapter.id} login test failed:`, message);
+    broken = kind === "network";
+    return await finish({
+      success: false,
+      kind,
+      reason: `${summarizeSiteError(kind)}: ${message}`,
+    });
+  } finally {
+    signal?.removeEventListener("abort", closePage);
+    await closePage();
+    await releaseBrowser(lease, { broken });
+    releaseSlot();
+  }
+}
@@ -0,0 +1,120 @@
+// Alert run check
+// Runs one alert through scripted scrapes in a temporary ALERTS_DIR and checks
+// that every run is recorded, so it is not repeated on the next check, and
+// that a site that failed never gets its vehicles emailed again as new. A
+// site without a trade account completed with no vehicles, so its vehicles
+// are new again once the account is back
+// Usage: npm run alerts:check
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { StandardizedCarData } from "../types/car.js";
+import type { AlertScrapeResult, SavedAlert } from "./types.js";
+
+// Snapshots are stored under ALERTS_DIR, read when the store is loaded
+const alertsDir = mkdtempSync(join(tmpdir(), "alerts-check-"));
+process.env.ALERTS_DIR = alertsDir;
+const { runAlert } = await import("./scheduler.js");
+
+function car(source: string, registration: string): StandardizedCarData {
+  return {
+    url: `https://example.com/${source}/${registration}`,
+    imageUrl: "",
+    title: `Volkswagen Golf ${registration}`,
+    price: 10000,
+    location: "Checktown",
+    registration,
+    source,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+const allSites: AlertScrapeResult = {
+  carsBySite: {
+    bca: [car("BCA", "AB19CDE")],
+    motorway: [car("Motorway", "XY20ABC")],
+  },
+  failedSites: [],
+};
+
+// Each run: what the scrape returns, then the vehicles and markRun expected
+const runs: {
+  name: string;
+  scraped: AlertScrapeResult;
+  reported: number;
+  marked: boolean;
+}[] = [
+  { name: "first run", scraped: allSites, reported: 2, marked: true },
+  {
+    name: "Motorway failed",
+    scraped: {
+      carsBySite: { bca: allSites.carsBySite.bca },
+      failedSites: ["motorway"],
+    },
+    reported: 0,
+    marked: true,
+  },
+  { name: "Motorway back", scraped: allSites, reported: 0, marked: true },
+  {
+    name: "no trade accounts",
+    scraped: { carsBySite: { bca: [], motorway: [] }, failedSites: [] },
+    reported: 0,
+    marked: true,
+  },
+  { name: "accounts back", scraped: allSites, reported: 2, marked: true },
+];
+
+async function checkAlertRuns(): Promise<number> {
+  const alert: SavedAlert = {
+    id: "alert-check",
+    userId: "user-check",
+    searchParams: { make: "Volkswagen", model: "Golf" },
+    frequency: "daily",
+    lastRunAt: null,
+  };
+
+  let failures = 0;
+  for (const run of runs) {
+    let marked = false;
+    let emails = 0;
+    const reported = await runAlert(alert, {
+      store: {
+        listAlerts: async () => [alert],
+        getUserEmail: async () => "dealer@example.com",
+        markRun: async () => {
+          marked = true;
+        },
+      },
+      scrape: async () => run.scraped,
+      sendEmail: async () => {
+        emails++;
+      },
+    });
+
+    const passed =
+      reported === run.reported &&
+      marked === run.marked &&
+      emails === (run.reported > 0 ? 1 : 0);
+    if (!passed) failures++;
+    console.log(
+      `${passed ? "✅" : "❌"} ${run.name}: ${reported} reported (expected ${
+        run.reported
+      }), ${marked ? "marked run" : "left due"} (expected ${
+        run.marked ? "marked run" : "left due"
+      })`
+    );
+  }
+  return failures;
+}
+
+checkAlertRuns()
+  .then((failures) => {
+    console.log(`\n🏁 [Alerts] ${failures} of ${runs.length} runs failed`);
+    rmSync(alertsDir, { recursive: true, force: true });
+    process.exit(failures > 0 ? 1 : 0);
+  })
+  .catch((error) => {
+    console.error("❌ [Alerts] Check failed:", error);
+    rmSync(alertsDir, { recursive: true, force: true });
+    process.exit(1);
+  });
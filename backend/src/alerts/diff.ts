@@ -0,0 +1,98 @@
+// Diffing alert results against the previous run
+import type { StandardizedCarData } from "../types/car.js";
+import { normalizeRegistration } from "../vehicles/dedupe.js";
+import type {
+  AlertChanges,
+  AlertScrapeResult,
+  AlertSnapshot,
+} from "./types.js";
+
+// Snapshots saved before prices were kept per site hold them under this key.
+// Since any site could have listed them, they are kept while any site fails
+export const ANY_SITE = "*";
+
+/**
+ * Identity of a vehicle across runs: its registration when known, otherwise
+ * the listing URL
+ */
+export function vehicleKey(car: StandardizedCarData): string {
+  const registration = normalizeRegistration(car.registration);
+  return registration ? `vrm:${registration}` : `url:${car.url}`;
+}
+
+// Lowest price of each vehicle across the sites of a snapshot
+function snapshotPrices(
+  snapshot: AlertSnapshot | null
+): Record<string, number> {
+  const prices: Record<string, number> = {};
+  for (const sitePrices of Object.values(snapshot?.sites ?? {})) {
+    for (const [key, price] of Object.entries(sitePrices)) {
+      if (prices[key] === undefined || price < prices[key]) prices[key] = price;
+    }
+  }
+  return prices;
+}
+
+/**
+ * DIFF ALERT RESULTS
+ * Finds vehicles that were not in the previous run and vehicles whose price
+ * dropped. On the first run every vehicle counts as new
+ */
+export function diffAlertResults(
+  previous: AlertSnapshot | null,
+  cars: StandardizedCarData[]
+): AlertChanges {
+  // The same vehicle on several sites is reported once, at its lowest price
+  const cheapestByKey = new Map<string, StandardizedCarData>();
+  for (const car of cars) {
+    const key = vehicleKey(car);
+    const cheapest = cheapestByKey.get(key);
+    if (!cheapest || car.price < cheapest.price) {
+      cheapestByKey.set(key, car);
+    }
+  }
+
+  const previousPrices = snapshotPrices(previous);
+  const changes: AlertChanges = { newVehicles: [], priceDrops: [] };
+  cheapestByKey.forEach((car, key) => {
+    const previousPrice = previousPrices[key];
+    if (previousPrice === undefined) {
+      changes.newVehicles.push(car);
+    } else if (car.price < previousPrice) {
+      changes.priceDrops.push({ car, previousPrice });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * CREATE SNAPSHOT
+ * This run's lowest price per vehicle on each site, for the next diff. Sites
+ * that failed keep their prices from the previous snapshot, so their vehicles
+ * are not reported as new again once the site is back
+ */
+export function createSnapshot(
+  alertId: string,
+  ranAt: string,
+  { carsBySite, failedSites }: AlertScrapeResult,
+  previous: AlertSnapshot | null
+): AlertSnapshot {
+  const sites: AlertSnapshot["sites"] = {};
+  const kept = failedSites.length > 0 ? [...failedSites, ANY_SITE] : [];
+  for (const site of kept) {
+    if (previous?.sites[site]) sites[site] = previous.sites[site];
+  }
+
+  for (const [site, cars] of Object.entries(carsBySite)) {
+    const prices: Record<string, number> = {};
+    for (const car of cars) {
+      const key = vehicleKey(car);
+      if (prices[key] === undefined || car.price < prices[key]) {
+        prices[key] = car.price;
+      }
+    }
+    sites[site] = prices;
+  }
+  return { alertId, ranAt, sites };
+}
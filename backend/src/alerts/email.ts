@@ -0,0 +1,128 @@
+// Alert emails
+// Live alerts are sent through the `send-email` Supabase edge function; local
+// runs collect them in a mock sink instead
+import { mkdirSync } from "node:fs";
+import { writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { getSupabaseAdmin } from "../supabase/client.js";
+import type { SearchParams } from "../types/index.js";
+import type { StandardizedCarData } from "../types/car.js";
+import type { AlertChanges, AlertEmail, EmailSender } from "./types.js";
+
+const OUTBOX_DIR = resolve(process.env.ALERTS_DIR || "data/alerts", "outbox");
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function formatPrice(price: number): string {
+  return `£${price.toLocaleString("en-GB")}`;
+}
+
+function describeSearch(params: SearchParams): string {
+  const vehicle = [params.make, params.model].filter(Boolean).join(" ");
+  return vehicle || "your saved search";
+}
+
+function vehicleRow(car: StandardizedCarData, priceHtml: string): string {
+  return `<tr>
+  <td><a href="${escapeHtml(car.url)}">${escapeHtml(car.title)}</a></td>
+  <td>${escapeHtml(car.source)}</td>
+  <td>${
+    car.mileage !== undefined
+      ? `${car.mileage.toLocaleString("en-GB")} miles`
+      : ""
+  }</td>
+  <td>${priceHtml}</td>
+</tr>`;
+}
+
+/**
+ * RENDER ALERT EMAIL
+ * Builds the email listing new vehicles and price drops for a saved search
+ */
+export function renderAlertEmail(
+  to: string,
+  params: SearchParams,
+  changes: AlertChanges
+): AlertEmail {
+  const total = changes.newVehicles.length + changes.priceDrops.length;
+  const sections: string[] = [];
+
+  if (changes.newVehicles.length > 0) {
+    sections.push(`<h2>New vehicles (${changes.newVehicles.length})</h2>
+<table>${changes.newVehicles
+      .map((car) => vehicleRow(car, formatPrice(car.price)))
+      .join("")}</table>`);
+  }
+
+  if (changes.priceDrops.length > 0) {
+    sections.push(`<h2>Price drops (${changes.priceDrops.length})</h2>
+<table>${changes.priceDrops
+      .map(({ car, previousPrice }) =>
+        vehicleRow(
+          car,
+          `<s>${formatPrice(previousPrice)}</s> ${formatPrice(car.price)}`
+        )
+      )
+      .join("")}</table>`);
+  }
+
+  return {
+    to,
+    subject: `${total} update${total === 1 ? "" : "s"} for ${describeSearch(
+      params
+    )}`,
+    html: `<p>Here is what changed since the last run of your saved search for ${escapeHtml(
+      describeSearch(params)
+    )}.</p>
+${sections.join("\n")}`,
+  };
+}
+
+/**
+ * SEND EMAIL FUNCTION SENDER
+ * Sends alert emails through the `send-email` Supabase edge function
+ */
+export function createSendEmailFunctionSender(): EmailSender {
+  const supabase = getSupabaseAdmin();
+
+  return async (email) => {
+    const { data, error } = await supabase.functions.invoke("send-email", {
+      body: email,
+    });
+    if (error || data?.success === false) {
+      throw new Error(
+        `send-email failed: ${error?.message || data?.error || "unknown error"}`
+      );
+    }
+  };
+}
+
+/**
+ * MOCK EMAIL SINK
+ * Keeps sent emails in memory and writes each one to <ALERTS_DIR>/outbox so
+ * local runs can be inspected without sending anything
+ */
+export function createMockEmailSink(): EmailSender & { sent: AlertEmail[] } {
+  const sent: AlertEmail[] = [];
+
+  const sink = async (email: AlertEmail) => {
+    sent.push(email);
+    mkdirSync(OUTBOX_DIR, { recursive: true });
+    const file = join(OUTBOX_DIR, `${Date.now()}-${sent.length}.html`);
+    await writeFile(
+      file,
+      `<!-- To: ${email.to} | Subject: ${email.subject} -->\n${email.html}`
+    );
+    console.log(
+      `📭 [Alerts] Mock email to ${email.to}: "${email.subject}" (${file})`
+    );
+  };
+
+  return Object.assign(sink, { sent });
+}
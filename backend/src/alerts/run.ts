@@ -0,0 +1,15 @@
+// Runs every due alert once and exits
+// Usage: npm run start:alerts (ALERTS_MODE=local by default outside production)
+import { createAlertDependencies, runDueAlerts } from "./scheduler.js";
+import { shutdownBrowserPool } from "../browsers/pool.js";
+
+runDueAlerts(createAlertDependencies())
+  .finally(shutdownBrowserPool)
+  .then(() => {
+    console.log("🏁 [Alerts] Finished running due alerts");
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("❌ [Alerts] Alert run failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,230 @@
+// Saved-search alert scheduler
+// Periodically picks up alerts that are due, scrapes with their stored search
+// params, diffs against the previous run and emails only new vehicles and
+// price drops. ALERTS_MODE=local swaps in a stub scraper, a mock email sink
+// and a local alerts file so the whole loop runs without external services
+import { scrapeAllSites } from "../../index.js";
+import {
+  createLoginRecorder,
+  resolveSiteCredentials,
+} from "../credentials/dealer-websites.js";
+import { resolveSites } from "../sites/registry.js";
+import { isSupabaseConfigured } from "../supabase/client.js";
+import { createSnapshot, diffAlertResults } from "./diff.js";
+import {
+  createMockEmailSink,
+  createSendEmailFunctionSender,
+  renderAlertEmail,
+} from "./email.js";
+import {
+  createLocalAlertStore,
+  createSupabaseAlertStore,
+  loadSnapshot,
+  saveSnapshot,
+} from "./store.js";
+import { createStubScraper } from "./stub-scraper.js";
+import type {
+  AlertScrapeResult,
+  AlertScraper,
+  AlertStore,
+  EmailSender,
+  SavedAlert,
+} from "./types.js";
+
+export type AlertDependencies = {
+  store: AlertStore;
+  scrape: AlertScraper;
+  sendEmail: EmailSender;
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// How often each `alert_frequency` value runs; unknown values run daily
+const FREQUENCY_INTERVALS: Record<string, number> = {
+  hourly: HOUR_MS,
+  daily: 24 * HOUR_MS,
+  weekly: 7 * 24 * HOUR_MS,
+};
+
+export function isAlertDue(alert: SavedAlert, now: Date): boolean {
+  if (!alert.lastRunAt) return true;
+  const interval =
+    FREQUENCY_INTERVALS[alert.frequency?.toLowerCase() || "daily"] ??
+    FREQUENCY_INTERVALS.daily;
+  return now.getTime() - new Date(alert.lastRunAt).getTime() >= interval;
+}
+
+/**
+ * Live alerts run only the sites the alert's owner has a trade account for.
+ * A site without an account, or one that found no vehicles, completed with
+ * none: the user can see nothing there, so it is no reason to run again
+ */
+const scrapeWithUserAccounts: AlertScraper = async (params, userId) => {
+  const adapters = await resolveSites(params.sites);
+  const credentials = await resolveSiteCredentials(adapters, userId);
+  const sites = Object.keys(credentials);
+  const carsBySite: AlertScrapeResult["carsBySite"] = {};
+  for (const adapter of adapters) {
+    if (!credentials[adapter.id]) carsBySite[adapter.id] = [];
+  }
+  if (sites.length === 0) {
+    console.warn(`⚠️ [Alerts] User ${userId} has no trade accounts, skipping`);
+    return { carsBySite, failedSites: [] };
+  }
+
+  await scrapeAllSites(
+    params,
+    (siteName, cars) => {
+      carsBySite[siteName] = cars;
+    },
+    {
+      sites,
+      credentials,
+      onLoggedIn: createLoginRecorder(credentials),
+      onSiteEvent: (event) => {
+        if (event.type === "site_failed" && event.kind === "zero_results") {
+          carsBySite[event.siteName] = [];
+        }
+      },
+    }
+  );
+  return {
+    carsBySite,
+    failedSites: sites.filter((site) => !carsBySite[site]),
+  };
+};
+
+/**
+ * CREATE ALERT DEPENDENCIES
+ * Live mode uses Supabase, scrapeAllSites and the send-email function.
+ * Local mode (the default outside production) uses the stubs
+ */
+export function createAlertDependencies(): AlertDependencies {
+  const mode =
+    process.env.ALERTS_MODE ||
+    (process.env.NODE_ENV === "production" ? "live" : "local");
+
+  if (mode === "live") {
+    console.log("📬 [Alerts] Running in live mode");
+    return {
+      store: createSupabaseAlertStore(),
+      scrape: scrapeWithUserAccounts,
+      sendEmail: createSendEmailFunctionSender(),
+    };
+  }
+
+  console.log(
+    "🧪 [Alerts] Running in local mode (stub scraper, mock email sink)"
+  );
+  return {
+    // Local runs can still read real alerts if Supabase is configured
+    store: isSupabaseConfigured()
+      ? createSupabaseAlertStore()
+      : createLocalAlertStore(),
+    scrape: createStubScraper(),
+    sendEmail: createMockEmailSink(),
+  };
+}
+
+/**
+ * RUN ALERT
+ * Scrapes one alert, emails the changes and records the run. A run where a
+ * site failed keeps that site's previous vehicles in the snapshot, so they
+ * are not reported as new once the site is back; it is tried again when the
+ * alert is next due, never on every check.
+ * Returns the number of vehicles reported
+ */
+export async function runAlert(
+  alert: SavedAlert,
+  deps: AlertDependencies,
+  now: Date = new Date()
+): Promise<number> {
+  console.log(`🔔 [Alerts] Running alert ${alert.id}`);
+  const ranAt = now.toISOString();
+
+  const scraped = await deps.scrape(alert.searchParams, alert.userId);
+  const cars = Object.values(scraped.carsBySite).flat();
+  const previous = loadSnapshot(alert.id);
+  const changes = diffAlertResults(previous, cars);
+  const reported = changes.newVehicles.length + changes.priceDrops.length;
+  console.log(
+    `📊 [Alerts] Alert ${alert.id}: ${changes.newVehicles.length} new, ${changes.priceDrops.length} price drops`
+  );
+
+  if (reported > 0) {
+    const to = await deps.store.getUserEmail(alert.userId);
+    if (to) {
+      await deps.sendEmail(renderAlertEmail(to, alert.searchParams, changes));
+    } else {
+      console.warn(
+        `⚠️ [Alerts] No email address for user ${alert.userId}, skipping email`
+      );
+    }
+  }
+
+  // Only record the run once the email is out, so a failed send is retried
+  await saveSnapshot(createSnapshot(alert.id, ranAt, scraped, previous));
+  if (scraped.failedSites.length > 0) {
+    console.warn(
+      `⚠️ [Alerts] Alert ${alert.id}: ${scraped.failedSites.join(
+        ", "
+      )} failed, keeping their previous vehicles until the next run`
+    );
+  }
+  await deps.store.markRun(alert.id, ranAt);
+  return reported;
+}
+
+/**
+ * RUN DUE ALERTS
+ * Runs every alert whose frequency has elapsed, one at a time so alerts never
+ * compete with each other for browser sessions. A failing alert is logged
+ * and left due so it is retried on the next tick
+ */
+export async function runDueAlerts(
+  deps: AlertDependencies,
+  now: Date = new Date()
+): Promise<void> {
+  const alerts = await deps.store.listAlerts();
+  const due = alerts.filter((alert) => isAlertDue(alert, now));
+  console.log(`⏰ [Alerts] ${due.length} of ${alerts.length} alerts are due`);
+
+  for (const alert of due) {
+    try {
+      await runAlert(alert, deps, now);
+    } catch (error) {
+      console.error(`❌ [Alerts] Alert ${alert.id} failed:`, error);
+    }
+  }
+}
+
+/**
+ * START ALERT SCHEDULER
+ * Checks for due alerts every ALERTS_INTERVAL_MINUTES (default 15).
+ * Ticks never overlap; returns a function that stops the scheduler
+ */
+export function startAlertScheduler(
+  deps: AlertDependencies = createAlertDependencies()
+): () => void {
+  const intervalMinutes = Number(process.env.ALERTS_INTERVAL_MINUTES) || 15;
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runDueAlerts(deps);
+    } catch (error) {
+      console.error("❌ [Alerts] Scheduler tick failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  console.log(
+    `⏰ [Alerts] Scheduler started, checking every ${intervalMinutes} minutes`
+  );
+  void tick();
+  const timer = setInterval(tick, intervalMinutes * 60 * 1000);
+  return () => clearInterval(timer);
+}
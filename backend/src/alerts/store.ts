@@ -0,0 +1,147 @@
+// Storage for saved-search alerts
+// Alerts live in the Supabase `search_history` table; locally they are read
+// from a JSON file instead. Result snapshots used for diffing are always kept
+// on disk next to the scrape jobs
+import { existsSync, mkdirSync, readFileSync } from "node:fs";
+import { writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { z } from "zod";
+import { getSupabaseAdmin } from "../supabase/client.js";
+import type { SearchParams } from "../types/index.js";
+import { ANY_SITE } from "./diff.js";
+import type { AlertSnapshot, AlertStore, SavedAlert } from "./types.js";
+
+const ALERTS_DIR = resolve(process.env.ALERTS_DIR || "data/alerts");
+
+// Numeric filters may have been saved as form strings ("15000")
+const optionalNumber = z.preprocess(
+  (value) => (value === "" || value === null ? undefined : value),
+  z.coerce.number().optional()
+);
+
+const storedSearchParamsSchema = z.object({
+  make: z.string().optional(),
+  model: z.string().optional(),
+  minPrice: optionalNumber,
+  maxPrice: optionalNumber,
+  minMileage: optionalNumber,
+  maxMileage: optionalNumber,
+  color: z.string().optional(),
+  minAge: optionalNumber,
+  maxAge: optionalNumber,
+  vatQualifying: z.boolean().optional(),
+  sites: z.array(z.string()).optional(),
+});
+
+/**
+ * Parse the `search_params` JSON of a saved search into scrape parameters
+ */
+export function parseStoredSearchParams(value: unknown): SearchParams {
+  return storedSearchParamsSchema.parse(value ?? {});
+}
+
+type SearchHistoryRow = {
+  id: string;
+  user_id: string;
+  search_params: unknown;
+  alert_frequency: string | null;
+  last_run_at: string | null;
+  email?: string; // Local alert files only
+};
+
+function toSavedAlert(row: SearchHistoryRow): SavedAlert {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    searchParams: parseStoredSearchParams(row.search_params),
+    frequency: row.alert_frequency,
+    lastRunAt: row.last_run_at,
+  };
+}
+
+/**
+ * SUPABASE ALERT STORE
+ * Reads alerts from `search_history` and recipients from `profiles`
+ */
+export function createSupabaseAlertStore(): AlertStore {
+  const supabase = getSupabaseAdmin();
+
+  return {
+    listAlerts: async () => {
+      const { data, error } = await supabase
+        .from("search_history")
+        .select("id, user_id, search_params, alert_frequency, last_run_at")
+        .eq("is_alert", true);
+      if (error) throw new Error(`Failed to load alerts: ${error.message}`);
+      return (data as SearchHistoryRow[]).map(toSavedAlert);
+    },
+    getUserEmail: async (userId) => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("email")
+        .eq("id", userId)
+        .maybeSingle();
+      if (error) throw new Error(`Failed to load profile: ${error.message}`);
+      return data?.email ?? null;
+    },
+    markRun: async (alertId, ranAt) => {
+      const { error } = await supabase
+        .from("search_history")
+        .update({ last_run_at: ranAt })
+        .eq("id", alertId);
+      if (error) {
+        throw new Error(`Failed to update alert ${alertId}: ${error.message}`);
+      }
+    },
+  };
+}
+
+/**
+ * LOCAL ALERT STORE
+ * Reads `search_history` shaped rows (plus an `email` field) from
+ * <ALERTS_DIR>/alerts.json and writes last_run_at back to the same file
+ */
+export function createLocalAlertStore(): AlertStore {
+  const alertsFile = join(ALERTS_DIR, "alerts.json");
+
+  const readRows = (): SearchHistoryRow[] => {
+    if (!existsSync(alertsFile)) return [];
+    return JSON.parse(readFileSync(alertsFile, "utf8"));
+  };
+
+  return {
+    listAlerts: async () => readRows().map(toSavedAlert),
+    getUserEmail: async (userId) =>
+      readRows().find((row) => row.user_id === userId)?.email ?? null,
+    markRun: async (alertId, ranAt) => {
+      const rows = readRows().map((row) =>
+        row.id === alertId ? { ...row, last_run_at: ranAt } : row
+      );
+      await writeFile(alertsFile, JSON.stringify(rows, null, 2));
+    },
+  };
+}
+
+function snapshotPath(alertId: string): string {
+  return join(ALERTS_DIR, "snapshots", `${alertId}.json`);
+}
+
+/**
+ * Snapshot of the previous run of an alert, or null on its first run
+ */
+export function loadSnapshot(alertId: string): AlertSnapshot | null {
+  const path = snapshotPath(alertId);
+  if (!existsSync(path)) return null;
+  const snapshot = JSON.parse(readFileSync(path, "utf8"));
+  // Snapshots from before prices were kept per site
+  if (!snapshot.sites) {
+    const { prices, ...rest } = snapshot;
+    return { ...rest, sites: { [ANY_SITE]: prices ?? {} } };
+  }
+  return snapshot;
+}
+
+export async function saveSnapshot(snapshot: AlertSnapshot): Promise<void> {
+  mkdirSync(join(ALERTS_DIR, "snapshots"), { recursive: true });
+  await writeFile(snapshotPath(snapshot.alertId), JSON.stringify(snapshot));
+}
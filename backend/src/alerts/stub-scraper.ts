@@ -0,0 +1,54 @@
+// Stubbed scraper for running alerts locally without Browserbase
+// Every call returns the same fixture vehicles for the search, with one price
+// lower and one extra vehicle per run, so the diff always has something to report
+import type { SearchParams } from "../types/index.js";
+import type { StandardizedCarData } from "../types/car.js";
+import type { AlertScrapeResult, AlertScraper } from "./types.js";
+
+const FIXTURE_SOURCES = ["BCA", "Motorway", "CarWow"];
+
+export function createStubScraper(): AlertScraper {
+  const runsBySearch = new Map<string, number>();
+
+  return async (params: SearchParams) => {
+    const make = params.make || "Volkswagen";
+    const model = params.model || "Golf";
+    const searchKey = `${make}|${model}`;
+    const run = (runsBySearch.get(searchKey) || 0) + 1;
+    runsBySearch.set(searchKey, run);
+
+    const basePrice = params.minPrice || 10000;
+    const timestamp = new Date().toISOString();
+    const cars: StandardizedCarData[] = [];
+
+    // Two vehicles on the first run, one more on every run after that
+    for (let index = 0; index < run + 1; index++) {
+      const priceDrop = index === 0 ? (run - 1) * 250 : 0;
+      cars.push({
+        url: `https://example.com/stub/${make}-${model}-${index}`
+          .toLowerCase()
+          .replace(/\s+/g, "-"),
+        imageUrl: "",
+        title: `${make} ${model} stub vehicle ${index + 1}`,
+        price: basePrice + index * 1000 - priceDrop,
+        location: "Stubtown",
+        registration: `ST${String(20 + index).padStart(2, "0")} ABC`,
+        make,
+        model,
+        mileage: 20000 + index * 5000,
+        source: FIXTURE_SOURCES[index % FIXTURE_SOURCES.length],
+        timestamp,
+      });
+    }
+
+    console.log(
+      `🧪 [Alerts] Stub scraper returned ${cars.length} cars for ${make} ${model}`
+    );
+    const carsBySite: AlertScrapeResult["carsBySite"] = {};
+    for (const car of cars) {
+      const site = car.source.toLowerCase();
+      carsBySite[site] = [...(carsBySite[site] ?? []), car];
+    }
+    return { carsBySite, failedSites: [] };
+  };
+}
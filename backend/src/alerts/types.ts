@@ -0,0 +1,66 @@
+import type { SearchParams } from "../types/index.js";
+import type { StandardizedCarData } from "../types/car.js";
+
+// A saved search with alerts switched on (a `search_history` row)
+export type SavedAlert = {
+  id: string;
+  userId: string;
+  searchParams: SearchParams;
+  frequency: string | null;
+  lastRunAt: string | null;
+};
+
+// Where alerts are read from and where their runs are recorded
+export type AlertStore = {
+  listAlerts: () => Promise<SavedAlert[]>;
+  getUserEmail: (userId: string) => Promise<string | null>;
+  markRun: (alertId: string, ranAt: string) => Promise<void>;
+};
+
+/**
+ * ALERT SCRAPE RESULT
+ * What one run of an alert scraped
+ * - carsBySite: the cars of every site that completed, by site id. A site
+ *   that found nothing, or that the user has no trade account for, has none
+ * - failedSites: the sites the run needed that failed
+ */
+export type AlertScrapeResult = {
+  carsBySite: Record<string, StandardizedCarData[]>;
+  failedSites: string[];
+};
+
+// Scrapes with the trade accounts of the user who saved the search
+export type AlertScraper = (
+  params: SearchParams,
+  userId: string
+) => Promise<AlertScrapeResult>;
+
+export type AlertEmail = {
+  to: string;
+  subject: string;
+  html: string;
+};
+
+export type EmailSender = (email: AlertEmail) => Promise<void>;
+
+/**
+ * ALERT SNAPSHOT
+ * Price of every vehicle seen on the previous runs, keyed by site id and then
+ * by vehicle identity. A site that failed keeps the prices of its last
+ * successful run
+ */
+export type AlertSnapshot = {
+  alertId: string;
+  ranAt: string;
+  sites: Record<string, Record<string, number>>;
+};
+
+export type PriceDrop = {
+  car: StandardizedCarData;
+  previousPrice: number;
+};
+
+export type AlertChanges = {
+  newVehicles: StandardizedCarData[];
+  priceDrops: PriceDrop[];
+};
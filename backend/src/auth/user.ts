@@ -0,0 +1,138 @@
+// Caller identity for API requests
+// The frontend sends the Supabase access token it already holds as a bearer
+// token. The token is verified locally against the project's JWT secret, so
+// authenticating a request never waits on a call to Supabase
+import { createHmac, timingSafeEqual } from "node:crypto";
+import type { Request } from "express";
+
+export type AuthUser = {
+  id: string;
+  email?: string;
+};
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser; // Set by the auth middleware in api-server.ts
+    }
+  }
+}
+
+/**
+ * AUTH ERROR
+ * Thrown when a request has no valid access token; surfaced as a 401, or as
+ * a 503 when the server has no JWT secret to check tokens with
+ */
+export class AuthError extends Error {
+  status: number;
+
+  constructor(message: string, status = 401) {
+    super(message);
+    this.name = "AuthError";
+    this.status = status;
+  }
+}
+
+// Claims Supabase puts in its access tokens that the API relies on
+type AccessTokenClaims = {
+  sub?: string;
+  email?: string;
+  aud?: string | string[];
+  role?: string;
+  exp?: number;
+  nbf?: number;
+};
+
+// Tokens a few seconds past expiry still pass, to absorb clock drift
+const CLOCK_TOLERANCE_SECONDS = 30;
+
+/**
+ * IS AUTH DISABLED
+ * AUTH_DISABLED=true runs the API in single-user mode for local development:
+ * no token is needed and scrapes use the env credentials
+ */
+export function isAuthDisabled(): boolean {
+  return process.env.AUTH_DISABLED === "true";
+}
+
+function getBearerToken(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (!header?.startsWith("Bearer ")) return null;
+  return header.slice("Bearer ".length).trim() || null;
+}
+
+function decodeSegment<T>(segment: string): T {
+  return JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+}
+
+/**
+ * VERIFY ACCESS TOKEN
+ * Checks an HS256 Supabase access token against SUPABASE_JWT_SECRET and
+ * returns its claims. Anon and service role keys are valid JWTs too, so only
+ * tokens issued to a signed-in user (audience "authenticated") are accepted
+ */
+function verifyAccessToken(token: string, secret: string): AccessTokenClaims {
+  const expired = new AuthError(
+    "Your session has expired, please sign in again"
+  );
+  const segments = token.split(".");
+  if (segments.length !== 3) throw expired;
+  const [header, payload, signature] = segments;
+
+  let claims: AccessTokenClaims;
+  try {
+    if (decodeSegment<{ alg?: string }>(header).alg !== "HS256") throw expired;
+    claims = decodeSegment<AccessTokenClaims>(payload);
+  } catch {
+    throw expired;
+  }
+
+  const expected = createHmac("sha256", secret)
+    .update(`${header}.${payload}`)
+    .digest();
+  const actual = Buffer.from(signature, "base64url");
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw expired;
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const notExpired =
+    typeof claims.exp === "number" &&
+    claims.exp + CLOCK_TOLERANCE_SECONDS >= now;
+  const alreadyValid =
+    typeof claims.nbf !== "number" ||
+    claims.nbf - CLOCK_TOLERANCE_SECONDS <= now;
+  if (!notExpired || !alreadyValid) throw expired;
+
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!claims.sub || !audiences.includes("authenticated")) {
+    throw new AuthError("Sign in to use the search API");
+  }
+  return claims;
+}
+
+/**
+ * AUTHENTICATE REQUEST
+ * Resolves the caller from the `Authorization: Bearer <access token>` header.
+ * Returns null only in AUTH_DISABLED single-user mode; otherwise a missing or
+ * invalid token throws an AuthError
+ */
+export function authenticateRequest(req: Request): AuthUser | null {
+  if (isAuthDisabled()) return null;
+
+  const secret = process.env.SUPABASE_JWT_SECRET;
+  if (!secret) {
+    throw new AuthError(
+      "Authentication is not configured on this server (set SUPABASE_JWT_SECRET)",
+      503
+    );
+  }
+
+  const token = getBearerToken(req);
+  if (!token) {
+    throw new AuthError("Sign in to use the search API");
+  }
+
+  const claims = verifyAccessToken(token, secret);
+  return { id: claims.sub!, email: claims.email };
+}
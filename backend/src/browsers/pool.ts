@@ -0,0 +1,453 @@
+// Warm pool of Stagehand browsers shared by every scrape in the process
+// Starting a Browserbase session costs several seconds, so browsers are kept
+// open between scrapes and leased out one site attempt at a time. Proxy and
+// standard browsers are pooled separately because the proxy setting is fixed
+// when the session is created
+import { Stagehand } from "@browserbasehq/stagehand";
+import {
+  StagehandConfigWithProxies,
+  StagehandConfigWithoutProxies,
+} from "../../stagehand.config.js";
+import { ScrapeCancelledError } from "../utils/cancellation.js";
+
+export type BrowserKind = "proxy" | "standard";
+
+const BROWSER_KINDS: BrowserKind[] = ["proxy", "standard"];
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0
+    ? value
+    : fallback;
+}
+
+/**
+ * POOL SETTINGS
+ * - maxSize: browsers of each kind open at once; further leases wait
+ * - warm: browsers of each kind kept open even when idle (off by default, as
+ *   every open browser is a billed Browserbase session)
+ * - idleTimeoutMs: how long an unused browser stays open
+ * - maxLeases: leases served before a browser is recycled, bounding any
+ *   memory the sites leak into it
+ */
+const SETTINGS = {
+  maxSize: {
+    proxy: Math.max(1, envNumber("BROWSER_POOL_MAX_PROXY", 2)),
+    standard: Math.max(1, envNumber("BROWSER_POOL_MAX_STANDARD", 4)),
+  } as Record<BrowserKind, number>,
+  warm: {
+    proxy: envNumber("BROWSER_POOL_WARM_PROXY", 0),
+    standard: envNumber("BROWSER_POOL_WARM_STANDARD", 0),
+  } as Record<BrowserKind, number>,
+  idleTimeoutMs: envNumber("BROWSER_POOL_IDLE_MS", 5 * 60_000),
+  maxLeases: envNumber("BROWSER_POOL_MAX_LEASES", 50),
+};
+
+const EVICTION_INTERVAL_MS = 30_000;
+
+type PooledBrowser = {
+  id: number;
+  kind: BrowserKind;
+  stagehand: Stagehand;
+  createdAt: number;
+  idleSince: number;
+  leased: boolean;
+  leaseCount: number;
+};
+
+/**
+ * BROWSER LEASE
+ * A browser borrowed from the pool. Pages opened on `context` must be closed
+ * by the borrower; cookies and storage are wiped when the lease is returned
+ */
+export type BrowserLease = {
+  browserId: number;
+  kind: BrowserKind;
+  stagehand: Stagehand;
+  context: any;
+};
+
+type Waiter = {
+  kind: BrowserKind;
+  resolve: (browser: PooledBrowser) => void;
+  reject: (error: Error) => void;
+};
+
+/**
+ * POOL METRICS
+ * Snapshot for GET /api/browser-pool
+ */
+export type BrowserPoolMetrics = {
+  kinds: Record<
+    BrowserKind,
+    {
+      open: number;
+      leased: number;
+      idle: number;
+      starting: number;
+      waiting: number;
+      maxSize: number;
+    }
+  >;
+  totals: {
+    created: number;
+    closed: number;
+    unhealthy: number;
+    leases: number;
+    averageWaitMs: number;
+  };
+};
+
+const browsers: PooledBrowser[] = [];
+const waiters: Waiter[] = [];
+const starting: Record<BrowserKind, number> = { proxy: 0, standard: 0 };
+const totals = {
+  created: 0,
+  closed: 0,
+  unhealthy: 0,
+  leases: 0,
+  waitedMs: 0,
+};
+let nextBrowserId = 1;
+let evictionTimer: NodeJS.Timeout | null = null;
+let shuttingDown = false;
+
+function isHealthy(browser: PooledBrowser): boolean {
+  try {
+    return browser.stagehand.context.browser()?.isConnected() !== false;
+  } catch {
+    return false;
+  }
+}
+
+function openCount(kind: BrowserKind): number {
+  return browsers.filter((browser) => browser.kind === kind).length;
+}
+
+function toLease(browser: PooledBrowser): BrowserLease {
+  browser.leaseCount++;
+  totals.leases++;
+  return {
+    browserId: browser.id,
+    kind: browser.kind,
+    stagehand: browser.stagehand,
+    context: browser.stagehand.context,
+  };
+}
+
+// Browsers started for a lease are marked leased before they join the pool,
+// so no other acquire can pick them up first
+async function startBrowser(
+  kind: BrowserKind,
+  leased: boolean
+): Promise<PooledBrowser> {
+  starting[kind]++;
+  try {
+    const stagehand = new Stagehand(
+      kind === "proxy"
+        ? StagehandConfigWithProxies
+        : StagehandConfigWithoutProxies
+    );
+    await stagehand.init();
+    const browser: PooledBrowser = {
+      id: nextBrowserId++,
+      kind,
+      stagehand,
+      createdAt: Date.now(),
+      idleSince: Date.now(),
+      leased,
+      leaseCount: 0,
+    };
+    browsers.push(browser);
+    totals.created++;
+    console.log(`🟢 [Pool] Started ${kind} browser #${browser.id}`);
+    return browser;
+  } finally {
+    starting[kind]--;
+  }
+}
+
+async function closeBrowser(
+  browser: PooledBrowser,
+  reason: string
+): Promise<void> {
+  const index = browsers.indexOf(browser);
+  if (index === -1) return;
+  browsers.splice(index, 1);
+  totals.closed++;
+  console.log(
+    `⚪ [Pool] Closing ${browser.kind} browser #${browser.id} (${reason})`
+  );
+  await browser.stagehand.close().catch(() => {});
+}
+
+function returnToPool(browser: PooledBrowser): void {
+  browser.leased = false;
+  browser.idleSince = Date.now();
+  serveWaiters(browser.kind);
+}
+
+// Hand free slots to the longest waiting leases of that kind, starting
+// browsers for them when none is idle
+function serveWaiters(kind: BrowserKind): void {
+  for (;;) {
+    const waiterIndex = waiters.findIndex((waiter) => waiter.kind === kind);
+    if (waiterIndex === -1) return;
+
+    const idle = browsers.find(
+      (browser) => browser.kind === kind && !browser.leased
+    );
+    if (idle) {
+      const [waiter] = waiters.splice(waiterIndex, 1);
+      idle.leased = true;
+      waiter.resolve(idle);
+    } else if (openCount(kind) + starting[kind] < SETTINGS.maxSize[kind]) {
+      const [waiter] = waiters.splice(waiterIndex, 1);
+      startBrowser(kind, true).then(waiter.resolve, waiter.reject);
+    } else {
+      return;
+    }
+  }
+}
+
+// Wipes everything a site attempt left behind so the next lease, possibly
+// for another user, starts logged out
+async function resetBrowser(browser: PooledBrowser): Promise<void> {
+  const context = browser.stagehand.context;
+
+  // The session's first tab stays open; site attempts use their own pages
+  const [firstPage, ...extraPages] = context.pages();
+  if (!firstPage) throw new Error("Browser has no open page left");
+  await Promise.allSettled(extraPages.map((page: any) => page.close()));
+
+  const { origins } = await context.storageState();
+  await context.clearCookies();
+  if (origins.length > 0) {
+    const session = await context.newCDPSession(firstPage);
+    for (const { origin } of origins) {
+      await session.send("Storage.clearDataForOrigin", {
+        origin,
+        storageTypes: "all",
+      });
+    }
+    await session.detach();
+  }
+}
+
+function startEvictionTimer(): void {
+  if (evictionTimer) return;
+  evictionTimer = setInterval(() => {
+    evictIdleBrowsers().catch((error) =>
+      console.error("❌ [Pool] Idle eviction failed:", error)
+    );
+  }, EVICTION_INTERVAL_MS);
+  // The pool never keeps the process alive by itself
+  evictionTimer.unref();
+}
+
+async function evictIdleBrowsers(): Promise<void> {
+  const now = Date.now();
+  const idle = browsers
+    .filter((browser) => !browser.leased)
+    .sort((a, b) => a.idleSince - b.idleSince);
+
+  for (const browser of idle) {
+    // Leased while an earlier browser was closing
+    if (browser.leased) continue;
+    if (!isHealthy(browser)) {
+      totals.unhealthy++;
+      await closeBrowser(browser, "disconnected");
+    } else if (
+      now - browser.idleSince >= SETTINGS.idleTimeoutMs &&
+      openCount(browser.kind) > SETTINGS.warm[browser.kind]
+    ) {
+      await closeBrowser(browser, "idle");
+    }
+  }
+
+  // Replace warm browsers that disconnected
+  if (!shuttingDown) await warmBrowserPool();
+}
+
+/**
+ * ACQUIRE BROWSER
+ * Leases an idle healthy browser of the given kind, starting one when the
+ * pool is below its limit and otherwise waiting for a lease to be returned.
+ * Aborting the signal while waiting rejects with ScrapeCancelledError
+ */
+export async function acquireBrowser(
+  kind: BrowserKind,
+  signal?: AbortSignal
+): Promise<BrowserLease> {
+  if (signal?.aborted) throw new ScrapeCancelledError();
+  if (shuttingDown) throw new Error("Browser pool is shutting down");
+  startEvictionTimer();
+
+  for (const browser of browsers.filter(
+    (candidate) => candidate.kind === kind && !candidate.leased
+  )) {
+    if (isHealthy(browser)) {
+      browser.leased = true;
+      return toLease(browser);
+    }
+    totals.unhealthy++;
+    await closeBrowser(browser, "disconnected");
+  }
+
+  if (openCount(kind) + starting[kind] < SETTINGS.maxSize[kind]) {
+    return toLease(await startBrowser(kind, true));
+  }
+
+  console.log(
+    `⏳ [Pool] All ${SETTINGS.maxSize[kind]} ${kind} browsers busy, waiting`
+  );
+  const enqueuedAt = Date.now();
+  const browser = await new Promise<PooledBrowser>((resolve, reject) => {
+    const waiter: Waiter = {
+      kind,
+      resolve: (leased) => {
+        signal?.removeEventListener("abort", onAbort);
+        // Cancelled while a browser was starting for it: pass it on
+        if (signal?.aborted) {
+          returnToPool(leased);
+          return;
+        }
+        resolve(leased);
+      },
+      reject: (error) => {
+        signal?.removeEventListener("abort", onAbort);
+        reject(error);
+      },
+    };
+    const onAbort = () => {
+      const index = waiters.indexOf(waiter);
+      if (index !== -1) waiters.splice(index, 1);
+      reject(new ScrapeCancelledError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+    waiters.push(waiter);
+  });
+  totals.waitedMs += Date.now() - enqueuedAt;
+  return toLease(browser);
+}
+
+/**
+ * RELEASE BROWSER
+ * Returns a lease to the pool. Browsers that are broken, disconnected, worn
+ * out or cannot be wiped clean are closed instead of reused
+ */
+export async function releaseBrowser(
+  lease: BrowserLease,
+  { broken = false }: { broken?: boolean } = {}
+): Promise<void> {
+  const browser = browsers.find(
+    (candidate) => candidate.id === lease.browserId
+  );
+  if (!browser) return;
+
+  let discardReason: string | null = null;
+  if (shuttingDown) discardReason = "shutting down";
+  else if (broken) discardReason = "broken";
+  else if (!isHealthy(browser)) {
+    totals.unhealthy++;
+    discardReason = "disconnected";
+  } else if (
+    SETTINGS.maxLeases > 0 &&
+    browser.leaseCount >= SETTINGS.maxLeases
+  ) {
+    discardReason = `recycled after ${browser.leaseCount} leases`;
+  } else {
+    try {
+      await resetBrowser(browser);
+    } catch (error) {
+      console.warn(
+        `⚠️ [Pool] Could not reset browser #${browser.id}:`,
+        error instanceof Error ? error.message : error
+      );
+      discardReason = "reset failed";
+    }
+  }
+
+  if (discardReason) {
+    await closeBrowser(browser, discardReason);
+    serveWaiters(browser.kind);
+  } else {
+    returnToPool(browser);
+  }
+}
+
+/**
+ * WARM BROWSER POOL
+ * Starts the configured number of warm browsers so the first scrape does not
+ * pay for session start-up. Failures are logged; leases start browsers on
+ * demand anyway
+ */
+export async function warmBrowserPool(): Promise<void> {
+  startEvictionTimer();
+  await Promise.all(
+    BROWSER_KINDS.map(async (kind) => {
+      const missing =
+        Math.min(SETTINGS.warm[kind], SETTINGS.maxSize[kind]) -
+        (openCount(kind) + starting[kind]);
+      for (let i = 0; i < missing; i++) {
+        await startBrowser(kind, false).catch((error) =>
+          console.error(`❌ [Pool] Could not warm a ${kind} browser:`, error)
+        );
+      }
+    })
+  );
+  BROWSER_KINDS.forEach(serveWaiters);
+}
+
+/**
+ * SHUTDOWN BROWSER POOL
+ * Closes every browser, leased or not, and fails any pending leases. Call
+ * before the process exits so Browserbase sessions are not left running
+ */
+export async function shutdownBrowserPool(): Promise<void> {
+  shuttingDown = true;
+  if (evictionTimer) {
+    clearInterval(evictionTimer);
+    evictionTimer = null;
+  }
+  for (const waiter of waiters.splice(0)) {
+    waiter.reject(new Error("Browser pool is shutting down"));
+  }
+  await Promise.all(
+    [...browsers].map((browser) => closeBrowser(browser, "shutting down"))
+  );
+  console.log("🏁 [Pool] All browsers closed");
+}
+
+export function getBrowserPoolMetrics(): BrowserPoolMetrics {
+  const kinds = Object.fromEntries(
+    BROWSER_KINDS.map((kind) => {
+      const open = browsers.filter((browser) => browser.kind === kind);
+      const leased = open.filter((browser) => browser.leased).length;
+      return [
+        kind,
+        {
+          open: open.length,
+          leased,
+          idle: open.length - leased,
+          starting: starting[kind],
+          waiting: waiters.filter((waiter) => waiter.kind === kind).length,
+          maxSize: SETTINGS.maxSize[kind],
+        },
+      ];
+    })
+  ) as BrowserPoolMetrics["kinds"];
+
+  return {
+    kinds,
+    totals: {
+      created: totals.created,
+      closed: totals.closed,
+      unhealthy: totals.unhealthy,
+      leases: totals.leases,
+      averageWaitMs: totals.leases
+        ? Math.round(totals.waitedMs / totals.leases)
+        : 0,
+    },
+  };
+}
@@ -0,0 +1,27 @@
+// Carwow model ranges for the catalogue
+// Carwow lists one checkbox per range and finds the rest through its model
+// search box, so only models spread over several ranges or named differently
+// on Carwow need mapping
+import type { SiteModels } from "./catalog.js";
+
+export const carwowModels: SiteModels = {
+  Bentley: {
+    Continental: [
+      "CONTINENTAL FLYING SPUR",
+      "CONTINENTAL GT",
+      "CONTINENTAL GTC",
+      "CONTINENTAL R",
+      "CONTINENTAL SC",
+      "CONTINENTAL T",
+    ],
+  },
+  BMW: {
+    "M Series": ["M1", "M2", "M3", "M4", "M5", "M6", "M8"],
+  },
+  Citroen: {
+    "DS3 / DS3c": ["DS3"],
+  },
+  Volkswagen: {
+    "UP!": ["UP"],
+  },
+};
@@ -0,0 +1,281 @@
+// Canonical make and model catalogue
+// The makes and models a search can ask for, under the names the search form
+// shows. Sites name models their own way ("3 SERIES", "3 Series", "A - Class"),
+// so each site that needs it maps these names to its own in a file next to
+// this one and declares the mapping on its adapter (`models`)
+import { canonicalMake } from "../vehicles/normalize.js";
+
+export const CATALOG = {
+  Audi: [
+    "A1",
+    "A3",
+    "A4",
+    "A5",
+    "A6",
+    "A7",
+    "A8",
+    "E-Tron",
+    "Q2",
+    "Q3",
+    "Q4",
+    "Q5",
+    "Q7",
+    "Q8",
+    "R8",
+    "RS",
+    "TT",
+  ],
+  BMW: [
+    "1 Series",
+    "2 Series",
+    "3 Series",
+    "4 Series",
+    "5 Series",
+    "6 Series",
+    "7 Series",
+    "8 Series",
+    "Alpina",
+    "M Series",
+    "X1",
+    "X2",
+    "X3",
+    "X4",
+    "X5",
+    "X6",
+    "X7",
+    "Z4",
+    "i3",
+    "i4",
+    "iX",
+  ],
+  Bentley: ["Bentayga", "Continental", "Flying Spur", "Mulsanne"],
+  Citroen: [
+    "Berlingo",
+    "C1",
+    "C3",
+    "C4 Picasso",
+    "C4",
+    "C4 SpaceTourer",
+    "C5",
+    "DS3 / DS3c",
+    "SpaceTourer",
+  ],
+  Fiat: ["500", "500L", "500X", "Panda", "Punto", "Tipo"],
+  Ford: [
+    "C-Max",
+    "Connect",
+    "Ecosport",
+    "Edge",
+    "Fiesta",
+    "Focus",
+    "KA",
+    "Kuga",
+    "Mondeo",
+    "Puma",
+    "S-Max",
+  ],
+  Honda: ["Civic", "Jazz"],
+  Hyundai: ["Coupe", "Ioniq", "Kona", "i30", "i40"],
+  Jaguar: ["F-Pace", "F-Type", "XE", "XF", "XJ", "XK"],
+  Kia: ["Ceed", "Niro", "Optima", "Picanto"],
+  "Land Rover": ["Defender", "Discovery", "Freelander", "Range Rover"],
+  Lexus: ["IS", "LS", "NX", "RX", "SC", "UX"],
+  Mazda: ["6", "MX-30", "MX-5"],
+  Mercedes: [
+    "A Class",
+    "AMG A",
+    "AMG C",
+    "AMG E",
+    "AMG EQE",
+    "AMG GLC",
+    "AMG GLE",
+    "AMG GLS",
+    "AMG SL",
+    "AMG SLK",
+    "B Class",
+    "C Class",
+    "CLA",
+    "CLE",
+    "CLK",
+    "CLS",
+    "E Class",
+    "EQA",
+    "EQB",
+    "EQC",
+    "EQE",
+    "EQS",
+    "EQV",
+    "G Class",
+    "GL",
+    "GLA",
+    "GLB",
+    "GLC",
+    "GLE",
+    "GLS",
+    "M Class",
+    "Maybach",
+    "S Class",
+    "SL",
+    "SLC",
+    "SLK",
+    "V Class",
+  ],
+  Mini: ["Clubman", "Cooper", "Countryman", "Paceman", "Roadster"],
+  Nissan: ["Leaf", "Micra", "NV200", "Qashqai"],
+  Peugeot: [
+    "108",
+    "2008",
+    "206",
+    "207",
+    "208",
+    "3008",
+    "307",
+    "308",
+    "407",
+    "5008",
+    "508",
+    "Rifter",
+    "Traveller",
+  ],
+  Renault: ["Espace", "Megane", "Modus", "Scenic", "Zoe"],
+  Seat: ["Altea", "Exeo", "Ibiza", "Leon", "Mii"],
+  Skoda: [
+    "Citigo",
+    "Fabia",
+    "Karoq",
+    "Kodiaq",
+    "Octavia",
+    "Rapid",
+    "Roomster",
+    "Superb",
+    "Yeti",
+  ],
+  Smart: ["ForFour", "ForTwo"],
+  Suzuki: ["Jimny", "Swift", "Vitara"],
+  Tesla: [],
+  Toyota: [
+    "Auris",
+    "Avensis",
+    "Aygo",
+    "Camry",
+    "Corolla",
+    "Estima",
+    "Highlander",
+    "LandCruiser",
+    "Prius",
+    "Proace",
+    "RAV4",
+    "Verso",
+    "Yaris",
+  ],
+  Vauxhall: [
+    "Adam",
+    "Astra",
+    "Combo",
+    "Corsa",
+    "Crossland",
+    "Grandland",
+    "Insignia",
+    "Mokka",
+    "Viva",
+    "Vivaro",
+    "Zafira",
+  ],
+  Volkswagen: [
+    "Arteon",
+    "Caddy",
+    "California",
+    "Caravelle",
+    "Golf",
+    "Passat",
+    "Polo",
+    "Sharan",
+    "T-Roc",
+    "Tiguan",
+    "Touareg",
+    "Touran",
+    "UP!",
+  ],
+  Volvo: ["S60", "S90", "V40", "V60", "V70", "V90", "XC40", "XC60", "XC90"],
+} as const satisfies Record<string, readonly string[]>;
+
+export type CatalogMake = keyof typeof CATALOG;
+export type CatalogModel<M extends CatalogMake> = (typeof CATALOG)[M][number];
+
+/**
+ * SITE MODEL
+ * How a site filters on one catalogue model
+ * - the site's own names for it, selected together (e.g. every Lexus IS engine)
+ * - "unsupported": the site has no filter for the model, so its searches
+ *   skip the model filter and post-filtering narrows the results
+ */
+export type SiteModel = readonly string[] | "unsupported";
+
+/**
+ * SITE MODELS
+ * A site's names for catalogue models, by canonical make and model. Models
+ * left out are searched under their catalogue name
+ */
+export type SiteModels = {
+  [M in CatalogMake]?: { [Model in CatalogModel<M>]?: SiteModel };
+};
+
+// Catalogue make for a make in any spelling, e.g. "MERCEDES-BENZ" -> "Mercedes"
+export function findCatalogMake(make: string): CatalogMake | undefined {
+  const name = (canonicalMake(make) ?? make).trim().toUpperCase();
+  return (Object.keys(CATALOG) as CatalogMake[]).find(
+    (catalogMake) => catalogMake.toUpperCase() === name
+  );
+}
+
+/**
+ * FIND SITE MODEL
+ * A site's names for the make and model of a search, matched case-insensitively.
+ * Undefined when the site has no mapping for them
+ */
+export function findSiteModel(
+  models: SiteModels,
+  make: string,
+  model: string
+): SiteModel | undefined {
+  const catalogMake = findCatalogMake(make);
+  if (!catalogMake) return undefined;
+
+  const makeModels: Partial<Record<string, SiteModel>> =
+    models[catalogMake] ?? {};
+  const name = model.trim().toUpperCase();
+  const catalogModel = Object.keys(makeModels).find(
+    (key) => key.toUpperCase() === name
+  );
+  return catalogModel ? makeModels[catalogModel] : undefined;
+}
+
+/**
+ * CATALOG GAPS
+ * Models of one catalogue make that a site has no mapping for (searched
+ * under their catalogue name) or marks unsupported (searched by make alone)
+ */
+export type CatalogGaps = {
+  make: CatalogMake;
+  unmapped: string[];
+  unsupported: string[];
+};
+
+// Gaps in a site's mapping, for the makes that have any
+export function findCatalogGaps(models: SiteModels): CatalogGaps[] {
+  const gaps: CatalogGaps[] = [];
+
+  for (const make of Object.keys(CATALOG) as CatalogMake[]) {
+    const makeModels: Partial<Record<string, SiteModel>> = models[make] ?? {};
+    const makeGaps: CatalogGaps = { make, unmapped: [], unsupported: [] };
+    for (const model of CATALOG[make]) {
+      const siteModel = makeModels[model];
+      if (!siteModel) makeGaps.unmapped.push(model);
+      else if (siteModel === "unsupported") makeGaps.unsupported.push(model);
+    }
+    if (makeGaps.unmapped.length > 0 || makeGaps.unsupported.length > 0) {
+      gaps.push(makeGaps);
+    }
+  }
+  return gaps;
+}
@@ -0,0 +1,61 @@
+// Catalogue consistency check
+// Lists, for every site that maps catalogue models, the models it has no
+// mapping for and the ones it marks unsupported. Sites without a mapping
+// search every model under its catalogue name and are only named, as are the
+// unmapped models of sites that find them by name (`modelsByName`)
+// Usage: npm run catalog:check [-- --strict]
+// With --strict the check fails when any site has a gap
+import { discoverSiteAdapters } from "../sites/registry.js";
+import { CATALOG, findCatalogGaps } from "./catalog.js";
+
+async function checkCatalog(): Promise<number> {
+  const adapters = await discoverSiteAdapters();
+  const modelCount = Object.values(CATALOG).reduce(
+    (sum, models) => sum + models.length,
+    0
+  );
+  console.log(
+    `📚 [Catalog] ${Object.keys(CATALOG).length} makes, ${modelCount} models`
+  );
+
+  let gapCount = 0;
+  for (const adapter of adapters) {
+    if (!adapter.models) {
+      console.log(`\nℹ️ ${adapter.displayName}: no mapping, models go by name`);
+      continue;
+    }
+
+    const gaps = findCatalogGaps(adapter.models);
+    const count = (key: "unmapped" | "unsupported") =>
+      gaps.reduce((sum, makeGaps) => sum + makeGaps[key].length, 0);
+    // Unmapped models of a site that finds them by name are covered
+    const byName = adapter.modelsByName === true;
+    gapCount += (byName ? 0 : count("unmapped")) + count("unsupported");
+    console.log(
+      `\n🧩 ${adapter.displayName}: ${
+        byName
+          ? `${count("unmapped")} found by name`
+          : `${count("unmapped")} unmapped`
+      }, ${count("unsupported")} unsupported`
+    );
+    for (const { make, unmapped, unsupported } of gaps) {
+      const lines = [
+        !byName && unmapped.length > 0 && `unmapped ${unmapped.join(", ")}`,
+        unsupported.length > 0 && `unsupported ${unsupported.join(", ")}`,
+      ].filter(Boolean);
+      if (lines.length > 0) console.log(`  ${make}: ${lines.join("; ")}`);
+    }
+  }
+  return gapCount;
+}
+
+checkCatalog()
+  .then((gapCount) => {
+    const strict = process.argv.includes("--strict");
+    console.log(`\n🏁 [Catalog] ${gapCount} gaps across mapped sites`);
+    process.exit(strict && gapCount > 0 ? 1 : 0);
+  })
+  .catch((error) => {
+    console.error("❌ [Catalog] Check failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,286 @@
+// Motorway model names for the catalogue
+// Motorway takes upper-case model names in its search URL. A catalogue model
+// that covers several of them (every Lexus IS engine, every BMW M car) is
+// searched as one make/model pair per name
+import type { SiteModels } from "./catalog.js";
+
+export const motorwayModels: SiteModels = {
+  Audi: {
+    A1: ["A1"],
+    A3: ["A3"],
+    A4: ["A4"],
+    A5: ["A5"],
+    A6: ["A6"],
+    A7: ["A7"],
+    A8: ["A8"],
+    "E-Tron": ["E-TRON"],
+    Q2: ["Q2"],
+    Q3: ["Q3"],
+    Q4: ["Q4"],
+    Q5: ["Q5"],
+    Q7: ["Q7"],
+    Q8: ["Q8"],
+    R8: ["R8"],
+    RS: ["RS3", "RS4", "RS5", "RS6", "RS7"],
+    TT: ["TT", "TTS", "TTRS"],
+  },
+  BMW: {
+    "1 Series": ["1 SERIES"],
+    "2 Series": ["2 SERIES"],
+    "3 Series": ["3 SERIES"],
+    "4 Series": ["4 SERIES"],
+    "5 Series": ["5 SERIES"],
+    "6 Series": ["6 SERIES"],
+    "7 Series": ["7 SERIES"],
+    "8 Series": ["8 SERIES"],
+    X1: ["X1"],
+    X2: ["X2"],
+    X3: ["X3"],
+    X4: ["X4"],
+    X5: ["X5"],
+    X6: ["X6"],
+    X7: ["X7"],
+    Z4: ["Z4"],
+    i3: ["I3"],
+    i4: ["I4"],
+    iX: ["IX"],
+    "M Series": ["M1", "M2", "M3", "M4", "M5", "M6", "M8"],
+  },
+  Bentley: {
+    Continental: ["Continental"],
+    "Flying Spur": ["Flying Spur"],
+    Mulsanne: ["Mulsanne"],
+    Bentayga: ["Bentayga"],
+  },
+  Citroen: {
+    Berlingo: ["BERLINGO"],
+    C1: ["C1"],
+    C3: ["C3"],
+    "C4 Picasso": ["C4 PICASSO"],
+    C4: ["C4"],
+    "C4 SpaceTourer": ["C4", "SPACETOURER"],
+    C5: ["C5"],
+    "DS3 / DS3c": ["DS3"],
+    SpaceTourer: ["SPACETOURER"],
+  },
+  Fiat: {
+    "500": ["500"],
+    Panda: ["PANDA"],
+    Punto: ["PUNTO"],
+    Tipo: ["TIPO"],
+    "500L": ["500L"],
+    "500X": ["500X"],
+  },
+  Ford: {
+    "C-Max": ["C-MAX"],
+    Connect: ["CONNECT"],
+    Ecosport: ["ECOSPORT"],
+    Edge: ["EDGE"],
+    Fiesta: ["FIESTA"],
+    Focus: ["FOCUS"],
+    KA: ["KA"],
+    Kuga: ["KUGA"],
+    Mondeo: ["MONDEO"],
+    Puma: ["PUMA"],
+    "S-Max": ["S-MAX"],
+  },
+  Honda: {
+    Civic: ["CIVIC"],
+    Jazz: ["JAZZ"],
+  },
+  Hyundai: {
+    Coupe: ["COUPE"],
+    Ioniq: ["IONIQ"],
+    Kona: ["KONA"],
+    i30: ["I30"],
+    i40: ["I40"],
+  },
+  Jaguar: {
+    "F-Pace": ["F-PACE"],
+    "F-Type": ["F-TYPE"],
+    XE: ["XE SERIES"],
+    XF: ["XF SERIES"],
+    XJ: ["XJ SERIES"],
+    XK: ["XK SERIES"],
+  },
+  Kia: {
+    Ceed: ["CEED"],
+    Niro: ["NIRO"],
+    Optima: ["OPTIMA"],
+    Picanto: ["PICANTO"],
+  },
+  "Land Rover": {
+    Defender: ["DEFENDER"],
+    Discovery: ["DISCOVERY"],
+    Freelander: ["FREELANDER"],
+    "Range Rover": ["RANGE ROVER"],
+  },
+  Lexus: {
+    IS: ["IS200", "IS220", "IS250", "IS300", "ISF"],
+    LS: ["LS400", "LS430", "LS460", "LS500", "LS600"],
+    NX: ["NX200", "NX300"],
+    RX: ["RX200", "RX300", "RX350", "RX400", "RX450", "RXL450"],
+    SC: ["SC430"],
+    UX: ["UX250H", "UX300E"],
+  },
+  Mazda: {
+    "6": ["6"],
+    "MX-30": ["MX-30"],
+    "MX-5": ["MX-5"],
+  },
+  Mini: {
+    Cooper: ["COOPER"],
+    Countryman: ["COUNTRYMAN"],
+    Clubman: ["CLUBMAN"],
+    Paceman: ["PACEMAN"],
+    Roadster: ["ROADSTER"],
+  },
+  Mercedes: {
+    "A Class": ["A CLASS"],
+    "B Class": ["B CLASS"],
+    "C Class": ["C CLASS"],
+    CLA: ["CLA CLASS"],
+    CLE: ["CLE CLASS"],
+    CLK: ["CLK CLASS"],
+    CLS: ["CLS CLASS"],
+    "E Class": ["E CLASS"],
+    EQA: ["EQA CLASS"],
+    EQB: ["EQB CLASS"],
+    EQC: ["EQC CLASS"],
+    EQE: ["EQE CLASS"],
+    EQS: ["EQS CLASS"],
+    EQV: ["EQV CLASS"],
+    "G Class": ["G CLASS"],
+    GL: ["GL CLASS"],
+    GLA: ["GLA CLASS"],
+    GLB: ["GLB CLASS"],
+    GLC: ["GLC CLASS"],
+    GLE: ["GLE CLASS"],
+    GLS: ["GLS CLASS"],
+    "M Class": ["M CLASS"],
+    Maybach: ["MAYBACH"],
+    "S Class": ["S CLASS"],
+    SL: ["SL CLASS"],
+    SLC: ["SLC CLASS"],
+    SLK: ["SLK CLASS"],
+    "V Class": ["V CLASS"],
+    "AMG A": ["AMG CLASS"],
+    "AMG C": ["AMG CLASS"],
+    "AMG E": ["AMG CLASS"],
+    "AMG EQE": ["AMG CLASS"],
+    "AMG GLC": ["AMG CLASS"],
+    "AMG GLE": ["AMG CLASS"],
+    "AMG GLS": ["AMG CLASS"],
+    "AMG SL": ["AMG CLASS"],
+    "AMG SLK": ["AMG CLASS"],
+  },
+  Nissan: {
+    Micra: ["MICRA"],
+    Qashqai: ["QASHQAI"],
+    NV200: ["NV200"],
+    Leaf: ["LEAF"],
+  },
+  Peugeot: {
+    "108": ["108"],
+    "206": ["206"],
+    "207": ["207"],
+    "208": ["208"],
+    "307": ["307"],
+    "308": ["308"],
+    "407": ["407"],
+    "508": ["508"],
+    "2008": ["2008"],
+    "3008": ["3008"],
+    "5008": ["5008"],
+    Rifter: ["RIFTER"],
+    Traveller: ["TRAVELLER"],
+  },
+  Renault: {
+    Espace: ["ESPACE"],
+    Megane: ["MEGANE"],
+    Modus: ["MODUS"],
+    Scenic: ["SCENIC"],
+    Zoe: ["ZOE"],
+  },
+  Seat: {
+    Ibiza: ["IBIZA"],
+    Leon: ["LEON"],
+    Mii: ["MII"],
+    Exeo: ["EXEO"],
+    Altea: ["ALTEA"],
+  },
+  Skoda: {
+    Citigo: ["CITIGO"],
+    Fabia: ["FABIA"],
+    Karoq: ["KAROQ"],
+    Kodiaq: ["KODIAQ"],
+    Octavia: ["OCTAVIA"],
+    Rapid: ["RAPID"],
+    Roomster: ["ROOMSTER"],
+    Superb: ["SUPERB"],
+    Yeti: ["YETI"],
+  },
+  Smart: {
+    ForFour: ["FORFOUR"],
+    ForTwo: ["FORTWO"],
+  },
+  Suzuki: {
+    Jimny: ["JIMNY"],
+    Vitara: ["VITARA"],
+    Swift: ["SWIFT"],
+  },
+  Toyota: {
+    Auris: ["AURIS"],
+    Avensis: ["AVENSIS"],
+    Aygo: ["AYGO"],
+    Corolla: ["COROLLA"],
+    LandCruiser: ["LAND CRUISER"],
+    Prius: ["PRIUS"],
+    Proace: ["PROACE"],
+    Yaris: ["YARIS"],
+    Verso: ["VERSO"],
+    RAV4: ["RAV4"],
+    Highlander: ["HIGHLANDER"],
+    Camry: ["CAMRY"],
+    Estima: ["ESTIMA"],
+  },
+  Vauxhall: {
+    Adam: ["ADAM"],
+    Astra: ["ASTRA"],
+    Combo: ["COMBO"],
+    Corsa: ["CORSA"],
+    Crossland: ["CROSSLAND"],
+    Grandland: ["GRANDLAND"],
+    Insignia: ["INSIGNIA"],
+    Mokka: ["MOKKA"],
+    Viva: ["VIVA"],
+    Vivaro: ["VIVARO"],
+    Zafira: ["ZAFIRA"],
+  },
+  Volkswagen: {
+    Arteon: ["ARTEON"],
+    Caddy: ["CADDY"],
+    California: ["CALIFORNIA"],
+    Caravelle: ["CARAVELLE"],
+    Golf: ["GOLF"],
+    Passat: ["PASSAT"],
+    Polo: ["POLO"],
+    "T-Roc": ["T-ROC"],
+    Tiguan: ["TIGUAN"],
+    "UP!": ["UP"],
+    Touran: ["TOURAN"],
+    Sharan: ["SHARAN"],
+    Touareg: ["TOUAREG"],
+  },
+  Volvo: {
+    S60: ["S60"],
+    S90: ["S90"],
+    V40: ["V40"],
+    V60: ["V60"],
+    V70: ["V70"],
+    V90: ["V90"],
+    XC40: ["XC40"],
+    XC60: ["XC60"],
+    XC90: ["XC90"],
+  },
+};
@@ -0,0 +1,319 @@
+// Free-text make and model resolution
+// Buyers type "merc c class", "vw golf gti" or "range rover sport" rather than
+// picking from lists. The resolver reads such text as catalogue makes and
+// models, allowing for nicknames, misspellings, missing spaces and engine
+// codes ("320d" is a 3 Series), and keeps the words after the model as a trim
+// keyword ("GTI", "Sport")
+import { CATALOG, findCatalogMake, type CatalogMake } from "./catalog.js";
+
+/**
+ * CATALOG MATCH
+ * One reading of a free-text query. `model` is missing when only the make
+ * could be read; `trim` holds the words left after the model
+ */
+export type CatalogMatch = {
+  make: CatalogMake;
+  model?: string;
+  trim?: string;
+  label: string; // e.g. "Volkswagen Golf GTI"
+};
+
+// How well part of a query matched a catalogue name
+const EXACT = 3;
+const CLOSE = 2; // Misspelt or given as an engine code
+const PREFIX = 1; // Still being typed
+
+// A make or model read from the start of a list of words
+type Reading<T> = {
+  value: T;
+  used: number; // Words the reading consumed
+  score: number;
+};
+
+// Nicknames that the make aliases used for scraped data do not cover
+const MAKE_NICKNAMES: Record<string, CatalogMake> = {
+  MERC: "Mercedes",
+  MERCS: "Mercedes",
+  BENZ: "Mercedes",
+  BEEMER: "BMW",
+  BIMMER: "BMW",
+  LANDY: "Land Rover",
+  VAUX: "Vauxhall",
+};
+
+const MAKES = Object.keys(CATALOG) as CatalogMake[];
+
+function readWords(text: string): string[] {
+  return text
+    .toUpperCase()
+    .split(/[^A-Z0-9]+/)
+    .filter(Boolean);
+}
+
+// "C-Class", "c class" and "CCLASS" compare equal
+function compact(text: string): string {
+  return text.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+// Edits between two words, counting swapped neighbours ("FISETA") as one
+function editDistance(a: string, b: string): number {
+  const rows = [Array.from({ length: b.length + 1 }, (_, j) => j)];
+  for (let i = 1; i <= a.length; i++) {
+    rows[i] = [i];
+    for (let j = 1; j <= b.length; j++) {
+      rows[i][j] = Math.min(
+        rows[i - 1][j] + 1,
+        rows[i][j - 1] + 1,
+        rows[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+// Misspellings: one wrong letter in names of 4 or more, two from 8. Numbers
+// must be typed right, or a 3008 would read as a 2008
+function isMisspelling(typed: string, name: string): boolean {
+  if (typed.length < 4) return false;
+  if (typed.replace(/\D/g, "") !== name.replace(/\D/g, "")) return false;
+  return editDistance(typed, name) <= (name.length >= 8 ? 2 : 1);
+}
+
+// Best readings first: exact before misspelt, then the longest
+function byScore<T>(a: Reading<T>, b: Reading<T>): number {
+  return b.score - a.score || b.used - a.used;
+}
+
+// Models an engine code or badge points to: "320D" -> 3 Series,
+// "M3" -> M Series, "C220D" -> C Class, "GLC300" -> GLC
+function engineCodeModels(word: string): string[] {
+  const code = word.match(/^([A-Z]{0,3})(\d{1,3})[A-Z]?$/);
+  if (!code) return [];
+  const [, letters, digits] = code;
+  if (!letters) {
+    return digits.length === 3 ? [`${digits[0]}SERIES`] : [];
+  }
+  return [`${letters}CLASS`, `${letters}SERIES`, letters];
+}
+
+// The makes a query can start with; none for a query with no words
+function readMakes(words: string[]): Reading<CatalogMake>[] {
+  if (words.length === 0) return [];
+  for (const used of [2, 1]) {
+    if (words.length < used) continue;
+    const phrase = words.slice(0, used).join(" ");
+    const make =
+      findCatalogMake(phrase) ??
+      MAKE_NICKNAMES[compact(phrase)] ??
+      MAKES.find((name) => compact(name) === compact(phrase));
+    if (make) return [{ value: make, used, score: EXACT }];
+  }
+
+  const typed = words[0];
+  const readings: Reading<CatalogMake>[] = [];
+  for (const make of MAKES) {
+    const name = compact(make);
+    if (isMisspelling(typed, name)) {
+      readings.push({ value: make, used: 1, score: CLOSE });
+    } else if (words.length === 1 && name.startsWith(typed)) {
+      readings.push({ value: make, used: 1, score: PREFIX });
+    }
+  }
+  return readings;
+}
+
+/**
+ * The models of a make that the words from `start` can begin with. Prefix
+ * readings are only wanted for the words being typed
+ */
+function readModels(
+  make: CatalogMake,
+  words: string[],
+  start: number,
+  allowPrefix: boolean
+): Reading<string>[] {
+  const rest = words.slice(start);
+  if (rest.length === 0) return [];
+
+  const readings: Reading<string>[] = [];
+  for (const model of CATALOG[make]) {
+    const name = compact(model);
+    // The longest run of words that spells the model
+    for (let used = rest.length; used >= 1; used--) {
+      const typed = rest.slice(0, used).join("");
+      if (typed === name) {
+        readings.push({ value: model, used: start + used, score: EXACT });
+        break;
+      }
+      if (isMisspelling(typed, name)) {
+        readings.push({ value: model, used: start + used, score: CLOSE });
+        break;
+      }
+    }
+  }
+  // A model spelt out exactly rules out near namesakes ("A Class" for "C Class")
+  if (readings.some((reading) => reading.score === EXACT)) {
+    return readings.filter((reading) => reading.score === EXACT).sort(byScore);
+  }
+  if (readings.length > 0) return readings.sort(byScore);
+
+  // An engine code stays in the trim, since it narrows the model down
+  const codeModels = engineCodeModels(rest[0]);
+  for (const model of CATALOG[make]) {
+    if (codeModels.includes(compact(model))) {
+      readings.push({ value: model, used: start, score: CLOSE });
+    }
+  }
+  if (readings.length > 0 || !allowPrefix) return readings;
+
+  const typed = rest.join("");
+  for (const model of CATALOG[make]) {
+    if (compact(model).startsWith(typed)) {
+      readings.push({ value: model, used: words.length, score: PREFIX });
+    }
+  }
+  return readings;
+}
+
+// "SPORT" -> "Sport", but badges and engine codes ("GTI", "320D") stay as typed
+function formatTrim(words: string[]): string | undefined {
+  if (words.length === 0) return undefined;
+  return words
+    .map((word) =>
+      word.length <= 3 || /\d/.test(word)
+        ? word
+        : word.charAt(0) + word.slice(1).toLowerCase()
+    )
+    .join(" ");
+}
+
+type ScoredMatch = CatalogMatch & { score: number };
+
+function scoredMatch(
+  make: CatalogMake,
+  model: string | undefined,
+  trimWords: string[],
+  score: number
+): ScoredMatch {
+  const trim = formatTrim(trimWords);
+  return {
+    make,
+    ...(model && { model }),
+    ...(trim && { trim }),
+    label: [make, model, trim].filter(Boolean).join(" "),
+    score,
+  };
+}
+
+// Every reading of the words, best first
+function rankMatches(words: string[]): ScoredMatch[] {
+  if (words.length === 0) return [];
+  const matches: ScoredMatch[] = [];
+  const makes = readMakes(words);
+
+  for (const make of makes) {
+    // A make read from a model name ("range rover") also starts the model
+    const models = [
+      ...readModels(make.value, words, make.used, true),
+      ...readModels(make.value, words, 0, false),
+    ];
+    if (make.used === words.length) {
+      // Only the make so far: suggest it, then each of its models
+      matches.push(scoredMatch(make.value, undefined, [], make.score * 2));
+      for (const model of CATALOG[make.value]) {
+        if (!models.some((reading) => reading.value === model)) {
+          matches.push(scoredMatch(make.value, model, [], make.score));
+        }
+      }
+    } else if (models.length === 0) {
+      matches.push(
+        scoredMatch(make.value, undefined, words.slice(make.used), make.score)
+      );
+    }
+    for (const model of models) {
+      matches.push(
+        scoredMatch(
+          make.value,
+          model.value,
+          words.slice(model.used),
+          make.score + model.score
+        )
+      );
+    }
+  }
+
+  // No make given: read the words as a model of any make ("golf gti")
+  if (makes.length === 0) {
+    const allowPrefix = words.join("").length >= 3;
+    for (const make of MAKES) {
+      for (const model of readModels(make, words, 0, allowPrefix)) {
+        matches.push(
+          scoredMatch(make, model.value, words.slice(model.used), model.score)
+        );
+      }
+    }
+  }
+
+  // Best score first, keeping catalogue order within a score
+  const seen = new Set<string>();
+  return matches
+    .map((match, index) => ({ match, index }))
+    .sort((a, b) => b.match.score - a.match.score || a.index - b.index)
+    .map(({ match }) => match)
+    .filter((match) => {
+      if (seen.has(match.label)) return false;
+      seen.add(match.label);
+      return true;
+    });
+}
+
+/**
+ * RESOLVE CATALOG QUERY
+ * Readings of free text as a catalogue make and model, best first, for
+ * type-ahead suggestions
+ */
+export function resolveCatalogQuery(query: string, limit = 8): CatalogMatch[] {
+  return rankMatches(readWords(query))
+    .slice(0, limit)
+    .map(({ score, ...match }) => match);
+}
+
+/**
+ * RESOLVE SEARCH VEHICLE
+ * Rewrites the make and model of a search to catalogue names when each reads
+ * as one, e.g. "merc" and "c class" become "Mercedes" and "C Class". A model
+ * with words left over ("golf gti") is kept as typed, since the site searches
+ * would otherwise lose the trim; so is text that does not resolve
+ */
+export function resolveSearchVehicle<
+  T extends { make?: string; model?: string }
+>(params: T): T {
+  if (!params.make) return params;
+  const makeWords = readWords(params.make);
+  if (makeWords.length === 0) return params;
+  const [make] = readMakes(makeWords);
+  if (!make || make.used !== makeWords.length || make.score < CLOSE) {
+    return params;
+  }
+
+  const resolved = { ...params, make: make.value };
+  if (params.model) {
+    const modelWords = readWords(params.model);
+    const [model] = readModels(make.value, modelWords, 0, false);
+    if (model && model.used === modelWords.length) {
+      resolved.model = model.value;
+    }
+  }
+
+  const describe = (vehicle: T) =>
+    [vehicle.make, vehicle.model].filter(Boolean).join(" ");
+  if (describe(resolved) !== describe(params)) {
+    console.log(
+      `🔤 [Catalog] Resolved "${describe(params)}" to "${describe(resolved)}"`
+    );
+  }
+  return resolved;
+}
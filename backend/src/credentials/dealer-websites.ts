@@ -0,0 +1,310 @@
+// Per-user trade site credentials
+// Each user keeps their trade accounts in the `dealer_websites` table. A
+// scrape runs only the sites the caller has an active account for, with the
+// env credentials from each adapter's `credentialEnv` as an optional fallback.
+// Passwords are stored encrypted and only decrypted by processSite at login
+import { randomUUID } from "node:crypto";
+import type { LoginCredentials, SiteLogin } from "../../index.js";
+import type { SiteAdapter } from "../sites/registry.js";
+import { discoverSiteAdapters, getEnvCredentials } from "../sites/registry.js";
+import { deleteAccountSessions } from "../sessions/store.js";
+import { getSupabaseAdmin } from "../supabase/client.js";
+import { encryptSecret } from "./encryption.js";
+
+// The `dealer_websites` columns the backend reads
+type DealerWebsiteRow = {
+  id: string;
+  name: string | null;
+  url: string | null;
+  username: string | null;
+  password: string | null;
+};
+
+// Trade accounts by site id; passwords may still be encrypted
+export type SiteCredentials = Record<string, SiteLogin>;
+
+/**
+ * TRADE ACCOUNT
+ * A `dealer_websites` row as returned to the browser: the password is
+ * write-only, so only whether one is saved is exposed. `siteId` is the
+ * adapter the account is used for, if any
+ */
+export type TradeAccount = {
+  id: string;
+  siteId?: string;
+  name: string;
+  url: string;
+  username: string;
+  notes?: string;
+  active: boolean;
+  hasPassword: boolean;
+  lastLoginAt?: string;
+  createdAt?: string;
+};
+
+// Fields a user can set on a trade account; an omitted password is kept
+export type TradeAccountInput = {
+  name?: string;
+  url?: string;
+  username?: string;
+  password?: string;
+  notes?: string;
+  active?: boolean;
+};
+
+// "Disposal Network", "disposalnetwork" and "DisposalNetwork" all match
+function slug(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function hostnameOf(url: string): string {
+  try {
+    return new URL(url.includes("://") ? url : `https://${url}`).hostname;
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Whether a `dealer_websites` row is the account for an adapter: its name is
+ * the site id or display name, or its URL is on the site's domain
+ */
+function matchesAdapter(row: DealerWebsiteRow, adapter: SiteAdapter): boolean {
+  const names = [slug(adapter.id), slug(adapter.displayName)];
+  if (row.name && names.includes(slug(row.name))) return true;
+  return !!row.url && slug(hostnameOf(row.url)).includes(slug(adapter.id));
+}
+
+function toTradeAccount(
+  row: Record<string, any>,
+  adapters: SiteAdapter[]
+): TradeAccount {
+  return {
+    id: row.id,
+    siteId: adapters.find((adapter) =>
+      matchesAdapter(row as DealerWebsiteRow, adapter)
+    )?.id,
+    name: row.name || "",
+    url: row.url || "",
+    username: row.username || "",
+    notes: row.notes || undefined,
+    active: row.active !== false,
+    hasPassword: !!row.password,
+    lastLoginAt: row.last_login_at || undefined,
+    createdAt: row.created_at || undefined,
+  };
+}
+
+const ACCOUNT_COLUMNS =
+  "id, name, url, username, password, notes, active, last_login_at, created_at";
+
+/**
+ * LIST TRADE ACCOUNTS
+ * Every `dealer_websites` row of a user, without passwords
+ */
+export async function listTradeAccounts(
+  userId: string
+): Promise<TradeAccount[]> {
+  const { data, error } = await getSupabaseAdmin()
+    .from("dealer_websites")
+    .select(ACCOUNT_COLUMNS)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true });
+  if (error) throw new Error(`Failed to load trade accounts: ${error.message}`);
+  const adapters = await discoverSiteAdapters();
+  return (data || []).map((row) => toTradeAccount(row, adapters));
+}
+
+/**
+ * SAVE TRADE ACCOUNT
+ * Creates a trade account, or updates one the user owns when `id` is given.
+ * The password is encrypted before it leaves the server process, and an
+ * updated account's stored sessions are dropped so its next scrape logs in
+ * with the new details. Returns null when the account to update does not
+ * belong to the user
+ */
+export async function saveTradeAccount(
+  userId: string,
+  input: TradeAccountInput,
+  id?: string
+): Promise<TradeAccount | null> {
+  const { password, ...fields } = input;
+  const row = {
+    ...fields,
+    ...(password ? { password: encryptSecret(password) } : {}),
+  };
+
+  const table = getSupabaseAdmin().from("dealer_websites");
+  const { data, error } = id
+    ? await table
+        .update(row)
+        .eq("id", id)
+        .eq("user_id", userId)
+        .select(ACCOUNT_COLUMNS)
+        .maybeSingle()
+    : await table
+        .insert({ ...row, id: randomUUID(), user_id: userId })
+        .select(ACCOUNT_COLUMNS)
+        .single();
+  if (error) throw new Error(`Failed to save trade account: ${error.message}`);
+  if (!data) return null;
+  if (id) await deleteAccountSessions(id);
+  return toTradeAccount(data, await discoverSiteAdapters());
+}
+
+/**
+ * DELETE TRADE ACCOUNT
+ * Deletes one of the user's trade accounts and its stored sessions. Returns
+ * false when the account does not belong to the user
+ */
+export async function deleteTradeAccount(
+  userId: string,
+  id: string
+): Promise<boolean> {
+  const { data, error } = await getSupabaseAdmin()
+    .from("dealer_websites")
+    .delete()
+    .eq("id", id)
+    .eq("user_id", userId)
+    .select("id")
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to delete trade account: ${error.message}`);
+  }
+  if (!data) return false;
+  await deleteAccountSessions(id);
+  return true;
+}
+
+/**
+ * CREATE LOGIN RECORDER
+ * Returns an `onLoggedIn` callback for scrapeAllSites that stamps
+ * `last_login_at` on the trade account each site logged in with
+ */
+export function createLoginRecorder(
+  credentials: SiteCredentials
+): (siteName: string) => void {
+  return (siteName) => {
+    const accountId = credentials[siteName]?.accountId;
+    if (!accountId) return;
+
+    void getSupabaseAdmin()
+      .from("dealer_websites")
+      .update({ last_login_at: new Date().toISOString() })
+      .eq("id", accountId)
+      .then(({ error }) => {
+        if (error) {
+          console.warn(
+            `⚠️ [Credentials] Could not record login for ${siteName}:`,
+            error.message
+          );
+        }
+      });
+  };
+}
+
+/**
+ * ACCOUNT SITE MISMATCH ERROR
+ * Thrown when a trade account is given for a site it is not the account for
+ */
+export class AccountSiteMismatchError extends Error {
+  constructor(adapter: SiteAdapter) {
+    super(`The trade account is not a ${adapter.displayName} account`);
+    this.name = "AccountSiteMismatchError";
+  }
+}
+
+/**
+ * LOAD TRADE ACCOUNT CREDENTIALS
+ * The stored login of one of the user's trade accounts for a site, active or
+ * not. Returns null when the account does not exist, is not the user's or has
+ * no password saved, and throws AccountSiteMismatchError when it is the
+ * account for another site
+ */
+export async function loadTradeAccountCredentials(
+  userId: string,
+  accountId: string,
+  adapter: SiteAdapter
+): Promise<SiteCredentials[string] | null> {
+  const { data, error } = await getSupabaseAdmin()
+    .from("dealer_websites")
+    .select("id, name, url, username, password")
+    .eq("id", accountId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw new Error(`Failed to load trade account: ${error.message}`);
+  if (!data?.username || !data.password) return null;
+  if (!matchesAdapter(data, adapter))
+    throw new AccountSiteMismatchError(adapter);
+  return { username: data.username, password: data.password, accountId };
+}
+
+function hasCredentials(credentials: LoginCredentials): boolean {
+  return !!credentials.username && !!credentials.password;
+}
+
+/**
+ * LOAD USER CREDENTIALS
+ * Reads the caller's active `dealer_websites` rows and maps them to site ids
+ */
+export async function loadUserCredentials(
+  userId: string,
+  adapters: SiteAdapter[]
+): Promise<SiteCredentials> {
+  const { data, error } = await getSupabaseAdmin()
+    .from("dealer_websites")
+    .select("id, name, url, username, password")
+    .eq("user_id", userId)
+    .eq("active", true);
+  if (error) throw new Error(`Failed to load trade accounts: ${error.message}`);
+
+  const rows = (data || []) as DealerWebsiteRow[];
+  const credentials: SiteCredentials = {};
+  for (const adapter of adapters) {
+    const row = rows.find(
+      (candidate) =>
+        matchesAdapter(candidate, adapter) &&
+        candidate.username &&
+        candidate.password
+    );
+    if (row) {
+      credentials[adapter.id] = {
+        username: row.username!,
+        password: row.password!,
+        accountId: row.id,
+      };
+    }
+  }
+  return credentials;
+}
+
+/**
+ * RESOLVE SITE CREDENTIALS
+ * Credentials for each adapter the scrape can run
+ * - With a user, their active trade accounts; sites they have no account for
+ *   use the env credentials only when ENV_CREDENTIALS_FALLBACK=true
+ * - Without a user (single-user mode, no Supabase), the env credentials
+ * Sites with no usable credentials are left out of the result
+ */
+export async function resolveSiteCredentials(
+  adapters: SiteAdapter[],
+  userId: string | null
+): Promise<SiteCredentials> {
+  const credentials = userId ? await loadUserCredentials(userId, adapters) : {};
+  const useEnv = !userId || process.env.ENV_CREDENTIALS_FALLBACK === "true";
+
+  for (const adapter of adapters) {
+    if (credentials[adapter.id] || !useEnv) continue;
+    const envCredentials = getEnvCredentials(adapter);
+    if (hasCredentials(envCredentials)) {
+      credentials[adapter.id] = envCredentials;
+    }
+  }
+
+  console.log(
+    `🔑 [Credentials] ${userId ? `User ${userId}` : "Env"}: accounts for ${
+      Object.keys(credentials).join(", ") || "no sites"
+    }`
+  );
+  return credentials;
+}
@@ -0,0 +1,154 @@
+// Envelope encryption for stored trade site passwords
+// Each password is encrypted with its own random data key (AES-256-GCM), and
+// the data key is encrypted with a server-held master key. Rotating the
+// master key only re-wraps the data keys; the browser never sees either key
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+
+const PREFIX = "enc:v1";
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+type MasterKey = {
+  id: string;
+  key: Buffer;
+};
+
+/**
+ * Master keys from CREDENTIALS_KEYS, a comma separated list of
+ * `<key id>:<base64 32-byte key>`. The first key encrypts new passwords; the
+ * others are kept so passwords saved under them can still be decrypted
+ */
+function loadMasterKeys(): MasterKey[] {
+  const value = process.env.CREDENTIALS_KEYS;
+  if (!value || !value.trim()) {
+    throw new Error("CREDENTIALS_KEYS must be set to store site passwords");
+  }
+
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf(":");
+      const id = entry.slice(0, separator);
+      const key = Buffer.from(entry.slice(separator + 1), "base64");
+      if (separator <= 0 || key.length !== 32) {
+        throw new Error(
+          "Each CREDENTIALS_KEYS entry must be <key id>:<base64 32-byte key>"
+        );
+      }
+      return { id, key };
+    });
+}
+
+function getMasterKey(id?: string): MasterKey {
+  const keys = loadMasterKeys();
+  if (!id) return keys[0];
+  const match = keys.find((key) => key.id === id);
+  if (!match) {
+    throw new Error(`Master key "${id}" is not in CREDENTIALS_KEYS`);
+  }
+  return match;
+}
+
+// iv + auth tag + ciphertext, base64url encoded
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString(
+    "base64url"
+  );
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const data = Buffer.from(sealed, "base64url");
+  const decipher = createDecipheriv(
+    "aes-256-gcm",
+    key,
+    data.subarray(0, IV_BYTES)
+  );
+  decipher.setAuthTag(data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([
+    decipher.update(data.subarray(IV_BYTES + TAG_BYTES)),
+    decipher.final(),
+  ]);
+}
+
+type Envelope = {
+  keyId: string;
+  wrappedKey: string;
+  payload: string;
+};
+
+// Stored as `enc:v1:<key id>:<wrapped data key>:<encrypted password>`
+function parseEnvelope(stored: string): Envelope {
+  const [keyId, wrappedKey, payload] = stored
+    .slice(PREFIX.length + 1)
+    .split(":");
+  if (!keyId || !wrappedKey || !payload) {
+    throw new Error("Malformed encrypted password");
+  }
+  return { keyId, wrappedKey, payload };
+}
+
+function formatEnvelope({ keyId, wrappedKey, payload }: Envelope): string {
+  return `${PREFIX}:${keyId}:${wrappedKey}:${payload}`;
+}
+
+export function isEncrypted(stored: string): boolean {
+  return stored.startsWith(`${PREFIX}:`);
+}
+
+/**
+ * ENCRYPT SECRET
+ * Encrypts a password under a fresh data key wrapped with the current master key
+ */
+export function encryptSecret(plaintext: string): string {
+  const masterKey = getMasterKey();
+  const dataKey = randomBytes(32);
+  return formatEnvelope({
+    keyId: masterKey.id,
+    wrappedKey: seal(masterKey.key, dataKey),
+    payload: seal(dataKey, Buffer.from(plaintext, "utf8")),
+  });
+}
+
+/**
+ * DECRYPT SECRET
+ * Returns the password for a stored value. Values without the envelope
+ * prefix are legacy plaintext (or env credentials) and are returned as is
+ */
+export function decryptSecret(stored: string): string {
+  if (!isEncrypted(stored)) return stored;
+
+  const envelope = parseEnvelope(stored);
+  const dataKey = open(getMasterKey(envelope.keyId).key, envelope.wrappedKey);
+  return open(dataKey, envelope.payload).toString("utf8");
+}
+
+// Whether a stored value is plaintext or wrapped with an old master key
+export function needsReencryption(stored: string): boolean {
+  if (!isEncrypted(stored)) return true;
+  return parseEnvelope(stored).keyId !== getMasterKey().id;
+}
+
+/**
+ * REENCRYPT SECRET
+ * Re-wraps the data key of a stored value with the current master key, or
+ * encrypts a legacy plaintext value. The password itself is not re-encrypted
+ */
+export function reencryptSecret(stored: string): string {
+  if (!isEncrypted(stored)) return encryptSecret(stored);
+
+  const envelope = parseEnvelope(stored);
+  const current = getMasterKey();
+  if (envelope.keyId === current.id) return stored;
+
+  const dataKey = open(getMasterKey(envelope.keyId).key, envelope.wrappedKey);
+  return formatEnvelope({
+    keyId: current.id,
+    wrappedKey: seal(current.key, dataKey),
+    payload: envelope.payload,
+  });
+}
@@ -0,0 +1,47 @@
+// Re-encrypts every stored trade site password under the current master key
+// Run after putting a new key first in CREDENTIALS_KEYS (keep the old key
+// listed until this finishes). Legacy plaintext passwords are encrypted too
+// Usage: npm run credentials:reencrypt
+import * as dotenv from "dotenv";
+import { getSupabaseAdmin } from "../supabase/client.js";
+import { needsReencryption, reencryptSecret } from "./encryption.js";
+
+dotenv.config();
+
+async function reencryptPasswords(): Promise<number> {
+  const supabase = getSupabaseAdmin();
+  const { data, error } = await supabase
+    .from("dealer_websites")
+    .select("id, password")
+    .not("password", "is", null);
+  if (error) throw new Error(`Failed to load trade accounts: ${error.message}`);
+
+  const rows = (data || []) as { id: string; password: string }[];
+  const stale = rows.filter((row) => needsReencryption(row.password));
+  console.log(
+    `🔐 [Credentials] ${stale.length} of ${rows.length} passwords need re-encrypting`
+  );
+
+  for (const row of stale) {
+    const { error: updateError } = await supabase
+      .from("dealer_websites")
+      .update({ password: reencryptSecret(row.password) })
+      .eq("id", row.id);
+    if (updateError) {
+      throw new Error(
+        `Failed to update trade account ${row.id}: ${updateError.message}`
+      );
+    }
+  }
+  return stale.length;
+}
+
+reencryptPasswords()
+  .then((count) => {
+    console.log(`🏁 [Credentials] Re-encrypted ${count} passwords`);
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error("❌ [Credentials] Re-encryption failed:", error);
+    process.exit(1);
+  });
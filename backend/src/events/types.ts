@@ -0,0 +1,136 @@
+// Events streamed to clients over SSE, by /api/scrape-stream and by scrape
+// jobs. The frontend mirrors these types in src/services/api/scrapeSSEApi.ts
+import type { RemovedVehicle } from "../history/types.js";
+import type { FilterReport } from "../sites/filters.js";
+import type { StandardizedCarData } from "../types/car.js";
+import type { SiteErrorReport } from "../utils/site-errors.js";
+import type { VehicleCluster } from "../vehicles/dedupe.js";
+import type { RejectedCar } from "../vehicles/normalize.js";
+import type { NearMissCar } from "../vehicles/post-filter.js";
+
+export type ConnectedEvent = {
+  type: "connected";
+  message: string;
+  jobId?: string;
+  totalSites: number;
+  sites: string[];
+  timestamp: string;
+};
+
+export type ProgressEvent = {
+  type: "progress";
+  siteName: string;
+  cars: StandardizedCarData[];
+  totalSites: number;
+  currentSite: number;
+  rejected: RejectedCar[];
+  nearMisses: NearMissCar[]; // Just outside the search, see post-filter.ts
+  timestamp: string;
+};
+
+/**
+ * SITE STAGE
+ * Where a site is in its run. `queued` means other searches hold every
+ * session slot for the site or its trade account, and carries the place in
+ * line. `resuming_session` replaces `logging_in` when a stored login is
+ * reused. `extracting` carries the page being read and,
+ * when the site knows it, the number of pages; `retrying` carries the delay
+ * and the failure that caused it
+ */
+export type SiteStage =
+  | "queued"
+  | "resuming_session"
+  | "logging_in"
+  | "navigating"
+  | "applying_filters"
+  | "extracting"
+  | "retrying";
+
+export type SiteStartedEvent = {
+  type: "site_started";
+  siteName: string;
+  totalSites: number;
+  timestamp: string;
+};
+
+export type SiteStageEvent = {
+  type: "site_stage";
+  siteName: string;
+  stage: SiteStage;
+  attempt: number;
+  queuePosition?: number;
+  page?: number;
+  totalPages?: number;
+  retryInMs?: number;
+  reason?: string;
+  timestamp: string;
+};
+
+// A finished site, with how it handled the search's filters
+export type SiteCompletedEvent = FilterReport & {
+  type: "site_completed";
+  siteName: string;
+  carsFound: number;
+  rejected: number;
+  nearMisses: number;
+  filteredOut: number; // Cars outside the search, dropped
+  returned: number; // Cars read from the site, at most maxResultsPerSite
+  totalAvailable?: number; // Matches the site reports, when it says
+  nextPage?: number; // Page a "load more" carries on from, see sites/paging.ts
+  nextOffset?: number; // Cars of nextPage already returned, when the cap cut into it
+  attempts: number;
+  durationMs: number;
+  totalSites: number;
+  currentSite: number;
+  timestamp: string;
+};
+
+// A site that failed after its last retry, with the classified reason
+export type SiteFailedEvent = SiteErrorReport & {
+  type: "site_failed";
+  durationMs: number;
+  timestamp: string;
+};
+
+export type SiteEvent =
+  | SiteStartedEvent
+  | SiteStageEvent
+  | SiteCompletedEvent
+  | SiteFailedEvent;
+
+export type CompleteEvent = {
+  type: "complete";
+  totalCars: number;
+  results: StandardizedCarData[];
+  clusters: VehicleCluster[];
+  removed: RemovedVehicle[];
+  nearMisses: NearMissCar[];
+  timestamp: string;
+};
+
+export type CancelledEvent = {
+  type: "cancelled";
+  message: string;
+  timestamp: string;
+};
+
+export type ErrorEvent = {
+  type: "error";
+  error: string;
+  timestamp: string;
+};
+
+export type ScrapeEvent =
+  | ConnectedEvent
+  | ProgressEvent
+  | SiteEvent
+  | CompleteEvent
+  | CancelledEvent
+  | ErrorEvent;
+
+// An event before it is stamped with its timestamp
+type WithoutTimestamp<Event> = Event extends unknown
+  ? Omit<Event, "timestamp">
+  : never;
+export type ScrapeEventInput = WithoutTimestamp<ScrapeEvent>;
+export type SiteEventInput = WithoutTimestamp<SiteEvent>;
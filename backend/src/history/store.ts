@@ -0,0 +1,71 @@
+// File-backed storage for vehicle price history
+// Every tracked listing lives in <HISTORY_DIR>/vehicles.json, loaded once and
+// kept in memory while the server runs. Users scrape with their own trade
+// accounts, so each user has their own history of a listing
+import { existsSync, mkdirSync, readFileSync } from "node:fs";
+import { rename, writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import type { VehicleHistory } from "./types.js";
+
+const HISTORY_DIR = resolve(process.env.HISTORY_DIR || "data/history");
+const HISTORY_FILE = join(HISTORY_DIR, "vehicles.json");
+
+let histories: Map<string, VehicleHistory> | null = null;
+
+// Where a user's history of a listing is kept in the map
+export function userHistoryKey(key: string, userId?: string): string {
+  return userId ? `${userId}/${key}` : key;
+}
+
+// Writes are chained so a slow save never overwrites a newer one
+let pendingWrite: Promise<void> = Promise.resolve();
+
+/**
+ * GET HISTORIES
+ * Loads the history file on first use. An unreadable file is logged and
+ * replaced on the next save rather than failing every scrape
+ */
+export function getHistories(): Map<string, VehicleHistory> {
+  if (histories) return histories;
+
+  histories = new Map();
+  if (existsSync(HISTORY_FILE)) {
+    try {
+      const stored: VehicleHistory[] = JSON.parse(
+        readFileSync(HISTORY_FILE, "utf8")
+      );
+      for (const history of stored) {
+        histories.set(userHistoryKey(history.key, history.userId), history);
+      }
+      console.log(`📚 [History] Loaded history for ${histories.size} vehicles`);
+    } catch (error) {
+      console.warn(
+        `⚠️ [History] Could not read ${HISTORY_FILE}, starting empty:`,
+        error
+      );
+    }
+  }
+  return histories;
+}
+
+/**
+ * SAVE HISTORIES
+ * Persists every tracked vehicle, writing to a temp file first so a crash
+ * mid-write never leaves a truncated history file behind
+ */
+export function saveHistories(): Promise<void> {
+  const snapshot = JSON.stringify([...getHistories().values()]);
+
+  pendingWrite = pendingWrite
+    .then(async () => {
+      mkdirSync(HISTORY_DIR, { recursive: true });
+      const tempPath = `${HISTORY_FILE}.tmp`;
+      await writeFile(tempPath, snapshot);
+      await rename(tempPath, HISTORY_FILE);
+    })
+    .catch((error) => {
+      console.error("❌ [History] Failed to persist vehicle history:", error);
+    });
+
+  return pendingWrite;
+}
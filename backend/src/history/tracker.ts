@@ -0,0 +1,194 @@
+// Price and status history for scraped vehicles
+// Each scrape run is recorded against the listings it returned so results can
+// show "price dropped £500 since Tuesday", "relisted" or "no longer listed"
+import { createHash } from "node:crypto";
+import type { SearchParams } from "../types/index.js";
+import type { StandardizedCarData } from "../types/car.js";
+import { normalizeRegistration } from "../vehicles/dedupe.js";
+import { getHistories, saveHistories, userHistoryKey } from "./store.js";
+import type {
+  RemovedVehicle,
+  VehicleHistory,
+  VehicleHistorySummary,
+} from "./types.js";
+
+export type TrackedResults = {
+  results: StandardizedCarData[];
+  removed: RemovedVehicle[];
+};
+
+// Sources are site ids ("bca") in progress events but display names ("BCA")
+// on cars; both reduce to the same slug
+function sourceSlug(source: string): string {
+  return source.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Identity of a listing across runs: its source plus the registration when
+ * known, otherwise a hash of the listing URL. Keys are URL-safe so they can
+ * be used as a path segment
+ */
+export function historyKey(car: StandardizedCarData): string {
+  const source = sourceSlug(car.source);
+  const registration = normalizeRegistration(car.registration);
+  if (registration) return `${source}:${registration}`;
+  const urlHash = createHash("sha1").update(car.url).digest("hex");
+  return `${source}:url-${urlHash.slice(0, 16)}`;
+}
+
+// Fields that decide how much of a search is read, not which cars match
+const SCOPE_FIELDS = [
+  "sites",
+  "maxResultsPerSite",
+  "maxPagesPerSite",
+  "startPage",
+  "startOffset",
+];
+
+// Stable identity of a search; sites are left out because removal is only
+// ever decided per source, and result caps because they do not change it
+function searchSignature(params: Partial<SearchParams>): string {
+  const entries = Object.entries(params)
+    .filter(
+      ([key, value]) =>
+        !SCOPE_FIELDS.includes(key) &&
+        value !== undefined &&
+        value !== null &&
+        value !== ""
+    )
+    .map(([key, value]) => [key, String(value).toLowerCase()])
+    .sort(([a], [b]) => a.localeCompare(b));
+  return JSON.stringify(entries);
+}
+
+function summarizeHistory(history: VehicleHistory): VehicleHistorySummary {
+  const summary: VehicleHistorySummary = {
+    key: history.key,
+    status: history.status,
+    firstSeenAt: history.firstSeenAt,
+  };
+
+  const current = history.prices[history.prices.length - 1];
+  const previous = history.prices[history.prices.length - 2];
+  if (current && previous) {
+    summary.previousPrice = previous.price;
+    summary.previousPriceAt = previous.timestamp;
+    summary.priceChange = current.price - previous.price;
+  }
+  return summary;
+}
+
+function toRemovedVehicle(history: VehicleHistory): RemovedVehicle {
+  return {
+    key: history.key,
+    source: history.source,
+    registration: history.registration,
+    url: history.url,
+    title: history.title,
+    lastPrice: history.prices[history.prices.length - 1]?.price,
+    lastSeenAt: history.lastSeenAt,
+    removedAt:
+      history.statusChanges[history.statusChanges.length - 1]?.timestamp ||
+      history.lastSeenAt,
+  };
+}
+
+/**
+ * RECORD SCRAPE HISTORY
+ * Records the price and status of every car from a finished scrape in the
+ * history of the user who ran it (`userId`, unset with AUTH_DISABLED), and
+ * returns the cars with a history summary attached.
+ * Listings returned by an earlier run of the same search but missing now are
+ * marked as removed, but only for sources in `completedSources`: a site that
+ * failed this run, or whose results were cut short by the result caps, says
+ * nothing about what is still listed
+ */
+export function recordScrapeHistory(
+  params: Partial<SearchParams>,
+  cars: StandardizedCarData[],
+  completedSources: Iterable<string>,
+  userId?: string,
+  now: Date = new Date()
+): TrackedResults {
+  const histories = getHistories();
+  const search = searchSignature(params);
+  const recordedAt = now.toISOString();
+  const seen = new Set<string>();
+
+  const results = cars.map((car) => {
+    const key = historyKey(car);
+    const observedAt = car.timestamp || recordedAt;
+    seen.add(key);
+
+    let history = histories.get(userHistoryKey(key, userId));
+    if (!history) {
+      history = {
+        key,
+        ...(userId && { userId }),
+        source: car.source,
+        registration: normalizeRegistration(car.registration),
+        url: car.url,
+        title: car.title,
+        status: "listed",
+        firstSeenAt: observedAt,
+        lastSeenAt: observedAt,
+        prices: [],
+        statusChanges: [{ status: "listed", timestamp: observedAt }],
+        searches: [],
+      };
+      histories.set(userHistoryKey(key, userId), history);
+    } else if (history.status === "removed") {
+      history.status = "relisted";
+      history.statusChanges.push({ status: "relisted", timestamp: observedAt });
+    }
+
+    const lastPrice = history.prices[history.prices.length - 1];
+    if (!lastPrice || lastPrice.price !== car.price) {
+      history.prices.push({ price: car.price, timestamp: observedAt });
+    }
+    history.url = car.url;
+    history.title = car.title;
+    history.lastSeenAt = observedAt;
+    if (!history.searches.includes(search)) history.searches.push(search);
+
+    return { ...car, history: summarizeHistory(history) };
+  });
+
+  const sources = new Set([...completedSources].map(sourceSlug));
+  const removed: RemovedVehicle[] = [];
+  histories.forEach((history) => {
+    if (
+      history.userId !== userId ||
+      seen.has(history.key) ||
+      history.status === "removed" ||
+      !sources.has(sourceSlug(history.source)) ||
+      !history.searches.includes(search)
+    ) {
+      return;
+    }
+    history.status = "removed";
+    history.statusChanges.push({ status: "removed", timestamp: recordedAt });
+    removed.push(toRemovedVehicle(history));
+  });
+
+  console.log(
+    `📚 [History] Recorded ${results.length} vehicles, ${removed.length} no longer listed`
+  );
+  void saveHistories();
+  return { results, removed };
+}
+
+/**
+ * GET VEHICLE HISTORY
+ * Full price and status history of one listing as the user's own scrapes
+ * recorded it, or null if they never saw it
+ */
+export function getVehicleHistory(
+  key: string,
+  userId?: string
+): Omit<VehicleHistory, "searches" | "userId"> | null {
+  const history = getHistories().get(userHistoryKey(key, userId));
+  if (!history) return null;
+  const { searches, userId: owner, ...rest } = history;
+  return rest;
+}
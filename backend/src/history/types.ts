@@ -0,0 +1,60 @@
+export type VehicleStatus = "listed" | "relisted" | "removed";
+
+export type PricePoint = {
+  price: number;
+  timestamp: string;
+};
+
+export type StatusChange = {
+  status: VehicleStatus;
+  timestamp: string;
+};
+
+/**
+ * VEHICLE HISTORY
+ * Everything one user's scrapes recorded about one listing across runs
+ * - userId: the user whose scrapes recorded it; unset with AUTH_DISABLED
+ * - prices: one point per price change, oldest first
+ * - searches: signatures of the searches that returned it, used to decide
+ *   when a listing has disappeared
+ */
+export type VehicleHistory = {
+  key: string;
+  userId?: string;
+  source: string;
+  registration?: string;
+  url: string;
+  title: string;
+  status: VehicleStatus;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  prices: PricePoint[];
+  statusChanges: StatusChange[];
+  searches: string[];
+};
+
+/**
+ * VEHICLE HISTORY SUMMARY
+ * Attached to each scraped car so the results can show the last price change
+ * - priceChange: current price minus previousPrice (negative for a drop)
+ */
+export type VehicleHistorySummary = {
+  key: string;
+  status: VehicleStatus;
+  firstSeenAt: string;
+  previousPrice?: number;
+  previousPriceAt?: string;
+  priceChange?: number;
+};
+
+// A listing from an earlier run of the same search that is no longer listed
+export type RemovedVehicle = {
+  key: string;
+  source: string;
+  registration?: string;
+  url: string;
+  title: string;
+  lastPrice?: number;
+  lastSeenAt: string;
+  removedAt: string;
+};
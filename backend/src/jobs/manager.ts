@@ -0,0 +1,345 @@
+// Scrape job lifecycle
+// A job runs scrapeAllSites in the background, independent of any HTTP
+// connection. Every progress update is recorded as a numbered event so SSE
+// clients can attach, drop and resume with Last-Event-ID. Finished jobs are
+// kept for JOB_RETENTION_HOURS, then removed from memory and disk
+import { randomUUID } from "node:crypto";
+import { EventEmitter } from "node:events";
+import { scrapeAllSites, ScrapeCancelledError } from "../../index.js";
+import type { SearchParams } from "../types/index.js";
+import type { SiteAdapter } from "../sites/registry.js";
+import {
+  createLoginRecorder,
+  SiteCredentials,
+} from "../credentials/dealer-websites.js";
+import { recordScrapeHistory } from "../history/tracker.js";
+import { clusterVehicles } from "../vehicles/dedupe.js";
+import { appendJobEvent, deleteJob, loadJobs, saveJob } from "./store.js";
+import type { JobEvent, ScrapeJob } from "./types.js";
+import type { ScrapeEvent, ScrapeEventInput } from "../events/types.js";
+
+const jobs = new Map<string, ScrapeJob>();
+// Abort controllers for jobs that are still running
+const jobControllers = new Map<string, AbortController>();
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+// Event types after which a job produces no further events
+const TERMINAL_EVENTS = ["complete", "error", "cancelled"];
+
+// How long finished jobs are kept
+const DEFAULT_RETENTION_HOURS = 24;
+const RETENTION_MS =
+  (Number(process.env.JOB_RETENTION_HOURS) || DEFAULT_RETENTION_HOURS) *
+  60 *
+  60 *
+  1000;
+
+export function isTerminalEvent(event: JobEvent): boolean {
+  return TERMINAL_EVENTS.includes(event.type);
+}
+
+/**
+ * RESTORE JOBS
+ * Loads stored jobs at startup. Jobs that were still running when the server
+ * stopped can never finish, so they get back the progress their events
+ * recorded and are marked as failed, finishing now for the retention period
+ */
+export function restoreJobs(): void {
+  for (const job of loadJobs()) {
+    if (job.status === "queued" || job.status === "running") {
+      job.rejected = [];
+      job.nearMisses = [];
+      for (const event of job.events) applyEvent(job, event);
+      job.status = "failed";
+      job.error = "Server restarted before the job finished";
+      job.completedAt = new Date().toISOString();
+      recordEvent(job, { type: "error", error: job.error });
+    } else if (!job.completedAt) {
+      // Jobs failed by an earlier restart were stored without a finish time,
+      // and would never be pruned
+      job.completedAt = new Date().toISOString();
+      void saveJob(job);
+    }
+    jobs.set(job.id, job);
+  }
+  pruneJobs();
+  console.log(`📂 [Jobs] Restored ${jobs.size} stored jobs`);
+}
+
+// Remove the jobs that finished longer ago than the retention period
+function pruneJobs(): void {
+  const cutoff = Date.now() - RETENTION_MS;
+  for (const job of jobs.values()) {
+    if (!job.completedAt || Date.parse(job.completedAt) > cutoff) continue;
+    jobs.delete(job.id);
+    void deleteJob(job.id);
+    console.log(`🧹 [Jobs] Removed job ${job.id}, finished ${job.completedAt}`);
+  }
+}
+
+export function getJob(id: string): ScrapeJob | undefined {
+  return jobs.get(id);
+}
+
+/**
+ * Job details without the event log, for status polling
+ */
+export function summarizeJob(job: ScrapeJob): Omit<ScrapeJob, "events"> {
+  const { events, ...summary } = job;
+  return summary;
+}
+
+/**
+ * Append an event to the job log, apply it to the job summary and notify
+ * attached clients. The summary is only saved when the job starts or ends;
+ * in between, its events are enough to rebuild it
+ */
+function recordEvent(job: ScrapeJob, event: ScrapeEventInput): JobEvent {
+  const timestamp = new Date().toISOString();
+  const recorded = {
+    ...event,
+    id: job.events.length + 1,
+    timestamp,
+  } as JobEvent;
+  job.events.push(recorded);
+  job.updatedAt = timestamp;
+  applyEvent(job, recorded);
+  void appendJobEvent(job.id, recorded);
+  if (recorded.type === "connected" || isTerminalEvent(recorded)) {
+    void saveJob(job);
+  }
+  jobEvents.emit(job.id, recorded);
+  return recorded;
+}
+
+// Keep the per-site progress in the job summary in step with site events
+function applyEvent(job: ScrapeJob, event: ScrapeEvent): void {
+  if (event.type === "progress") {
+    job.progress[event.siteName] = {
+      ...job.progress[event.siteName],
+      status: "completed",
+      carsFound: event.cars.length,
+      rejected: event.rejected.length,
+      nearMisses: event.nearMisses.length,
+    };
+    job.rejected.push(...event.rejected);
+    job.nearMisses.push(...event.nearMisses);
+    return;
+  }
+  if (!("siteName" in event)) return;
+
+  const progress = job.progress[event.siteName] || {
+    status: "pending",
+    carsFound: 0,
+    rejected: 0,
+  };
+
+  switch (event.type) {
+    case "site_started":
+      progress.status = "running";
+      break;
+    case "site_stage":
+      progress.stage = event.stage;
+      progress.queuePosition = event.queuePosition;
+      break;
+    case "site_completed":
+      progress.status = "completed";
+      progress.stage = undefined;
+      progress.queuePosition = undefined;
+      progress.durationMs = event.durationMs;
+      progress.returned = event.returned;
+      progress.totalAvailable = event.totalAvailable;
+      progress.nextPage = event.nextPage;
+      progress.nextOffset = event.nextOffset;
+      progress.filters = {
+        filtersApplied: event.filtersApplied,
+        filtersApproximated: event.filtersApproximated,
+        filtersIgnored: event.filtersIgnored,
+        filterNotes: event.filterNotes,
+      };
+      break;
+    case "site_failed":
+      progress.status = "failed";
+      progress.stage = undefined;
+      progress.queuePosition = undefined;
+      progress.durationMs = event.durationMs;
+      progress.error = {
+        kind: event.kind,
+        summary: event.summary,
+        message: event.message,
+        attempts: event.attempts,
+      };
+      break;
+  }
+  job.progress[event.siteName] = progress;
+}
+
+/**
+ * SUBSCRIBE TO JOB
+ * Replays events after `lastEventId`, then forwards new ones until the
+ * returned unsubscribe function is called
+ */
+export function subscribeToJob(
+  job: ScrapeJob,
+  lastEventId: number,
+  listener: (event: JobEvent) => void
+): () => void {
+  for (const event of job.events) {
+    if (event.id > lastEventId) listener(event);
+  }
+
+  jobEvents.on(job.id, listener);
+  return () => {
+    jobEvents.off(job.id, listener);
+  };
+}
+
+/**
+ * CREATE JOB
+ * Registers a job for the resolved sites and starts it in the background.
+ * Credentials are only held by the running job and never stored with it
+ */
+export function createJob(
+  params: SearchParams,
+  adapters: SiteAdapter[],
+  credentials?: SiteCredentials,
+  userId?: string
+): ScrapeJob {
+  const now = new Date().toISOString();
+  const sites = adapters.map((adapter) => adapter.id);
+
+  const job: ScrapeJob = {
+    id: randomUUID(),
+    userId,
+    status: "queued",
+    params,
+    sites,
+    progress: Object.fromEntries(
+      sites.map((site) => [
+        site,
+        { status: "pending", carsFound: 0, rejected: 0 },
+      ])
+    ),
+    results: [],
+    clusters: [],
+    rejected: [],
+    removed: [],
+    nearMisses: [],
+    events: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  pruneJobs();
+  jobs.set(job.id, job);
+  void saveJob(job);
+
+  console.log(`🆕 [Jobs] Created job ${job.id} for ${sites.join(", ")}`);
+  void runJob(job, credentials);
+  return job;
+}
+
+/**
+ * CANCEL JOB
+ * Aborts a running job; its open pages are closed by scrapeAllSites.
+ * Returns false if the job has already finished
+ */
+export function cancelJob(job: ScrapeJob): boolean {
+  const controller = jobControllers.get(job.id);
+  if (!controller) return false;
+
+  console.log(`🛑 [Jobs] Cancelling job ${job.id}`);
+  controller.abort();
+  return true;
+}
+
+async function runJob(
+  job: ScrapeJob,
+  credentials?: SiteCredentials
+): Promise<void> {
+  const controller = new AbortController();
+  jobControllers.set(job.id, controller);
+  job.status = "running";
+  recordEvent(job, {
+    type: "connected",
+    message: "Scrape job started",
+    jobId: job.id,
+    totalSites: job.sites.length,
+    sites: job.sites,
+  });
+
+  // Only sites read in full can tell which listings are gone
+  const fullyReadSites: string[] = [];
+  try {
+    const results = await scrapeAllSites(
+      job.params,
+      (
+        siteName,
+        cars,
+        totalSites,
+        currentSite,
+        rejected,
+        nearMisses,
+        readAll
+      ) => {
+        if (readAll) fullyReadSites.push(siteName);
+        recordEvent(job, {
+          type: "progress",
+          siteName,
+          cars,
+          totalSites,
+          currentSite,
+          rejected,
+          nearMisses,
+        });
+      },
+      {
+        sites: job.sites,
+        signal: controller.signal,
+        credentials,
+        onLoggedIn: credentials && createLoginRecorder(credentials),
+        onSiteEvent: (event) => {
+          recordEvent(job, event);
+        },
+      }
+    );
+
+    const tracked = recordScrapeHistory(
+      job.params,
+      results,
+      fullyReadSites,
+      job.userId
+    );
+    job.results = tracked.results;
+    job.clusters = clusterVehicles(tracked.results);
+    job.removed = tracked.removed;
+    job.status = "completed";
+    job.completedAt = new Date().toISOString();
+    recordEvent(job, {
+      type: "complete",
+      totalCars: results.length,
+      results: job.results,
+      clusters: job.clusters,
+      removed: job.removed,
+      nearMisses: job.nearMisses,
+    });
+    console.log(
+      `✅ [Jobs] Job ${job.id} completed with ${results.length} cars`
+    );
+  } catch (err: any) {
+    if (err instanceof ScrapeCancelledError) {
+      console.log(`🛑 [Jobs] Job ${job.id} cancelled`);
+      job.status = "cancelled";
+      job.completedAt = new Date().toISOString();
+      recordEvent(job, { type: "cancelled", message: err.message });
+      return;
+    }
+    console.error(`❌ [Jobs] Job ${job.id} failed:`, err);
+    job.status = "failed";
+    job.error = err.message;
+    job.completedAt = new Date().toISOString();
+    recordEvent(job, { type: "error", error: err.message });
+  } finally {
+    jobControllers.delete(job.id);
+  }
+}
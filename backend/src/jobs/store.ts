@@ -0,0 +1,139 @@
+// File-backed storage for scrape jobs
+// Each job is written to <JOBS_DIR>/<id>.json so results survive server
+// restarts and clients can reattach after a page refresh. Its events are
+// appended to <id>.events.jsonl as they happen, so an event only costs its
+// own size and the job summary is rewritten when the job starts or finishes
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  writeFileSync,
+} from "node:fs";
+import { appendFile, rename, rm, writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import type { JobEvent, ScrapeJob } from "./types.js";
+
+const JOBS_DIR = resolve(process.env.JOBS_DIR || "data/jobs");
+
+// Writes are chained per job so concurrent site updates never interleave
+const pendingWrites = new Map<string, Promise<void>>();
+
+function jobPath(id: string): string {
+  return join(JOBS_DIR, `${id}.json`);
+}
+
+function eventLogPath(id: string): string {
+  return join(JOBS_DIR, `${id}.events.jsonl`);
+}
+
+// Run a write after the job's earlier writes, logging rather than throwing
+function queueWrite(
+  id: string,
+  action: string,
+  write: () => Promise<void>
+): Promise<void> {
+  const previous = pendingWrites.get(id) || Promise.resolve();
+  const next = previous.then(write).catch((error) => {
+    console.error(`❌ [Jobs] Failed to ${action} job ${id}:`, error);
+  });
+
+  pendingWrites.set(id, next);
+  return next;
+}
+
+/**
+ * SAVE JOB
+ * Persists a snapshot of the job without its events, writing to a temp file
+ * first so a crash mid-write never leaves a truncated job file behind
+ */
+export function saveJob(job: ScrapeJob): Promise<void> {
+  const { events, ...summary } = job;
+  const snapshot = JSON.stringify(summary);
+
+  return queueWrite(job.id, "persist", async () => {
+    const tempPath = `${jobPath(job.id)}.tmp`;
+    await writeFile(tempPath, snapshot);
+    await rename(tempPath, jobPath(job.id));
+  });
+}
+
+/**
+ * APPEND JOB EVENT
+ * Adds one event to the job's event log
+ */
+export function appendJobEvent(jobId: string, event: JobEvent): Promise<void> {
+  const line = `${JSON.stringify(event)}\n`;
+  return queueWrite(jobId, "log an event of", () =>
+    appendFile(eventLogPath(jobId), line)
+  );
+}
+
+/**
+ * DELETE JOB
+ * Removes the job and its event log from disk
+ */
+export function deleteJob(id: string): Promise<void> {
+  return queueWrite(id, "delete", async () => {
+    await rm(jobPath(id), { force: true });
+    await rm(eventLogPath(id), { force: true });
+  }).finally(() => {
+    pendingWrites.delete(id);
+  });
+}
+
+function formatEvents(events: JobEvent[]): string {
+  return events.map((event) => `${JSON.stringify(event)}\n`).join("");
+}
+
+// A job's logged events. A line cut short by a crash is dropped from the log,
+// so later events start on a line of their own
+function readEventLog(id: string): JobEvent[] {
+  let log: string;
+  try {
+    log = readFileSync(eventLogPath(id), "utf8");
+  } catch {
+    return [];
+  }
+
+  const events: JobEvent[] = [];
+  for (const line of log.split("\n")) {
+    if (!line) continue;
+    try {
+      events.push(JSON.parse(line));
+    } catch {
+      console.warn(`⚠️ [Jobs] Skipping an unreadable event of job ${id}`);
+    }
+  }
+  if (log && !log.endsWith("\n")) {
+    writeFileSync(eventLogPath(id), formatEvents(events));
+  }
+  return events;
+}
+
+/**
+ * LOAD JOBS
+ * Reads every stored job and its events from disk, skipping files that
+ * cannot be parsed. Jobs stored before events had their own log carry them
+ * in the job file, and have them moved to a log
+ */
+export function loadJobs(): ScrapeJob[] {
+  mkdirSync(JOBS_DIR, { recursive: true });
+
+  const jobs: ScrapeJob[] = [];
+  for (const file of readdirSync(JOBS_DIR)) {
+    if (!file.endsWith(".json")) continue;
+    try {
+      const { events, ...job } = JSON.parse(
+        readFileSync(join(JOBS_DIR, file), "utf8")
+      );
+      if (Array.isArray(events) && !existsSync(eventLogPath(job.id))) {
+        writeFileSync(eventLogPath(job.id), formatEvents(events));
+      }
+      jobs.push({ ...job, events: readEventLog(job.id) });
+    } catch (error) {
+      console.warn(`⚠️ [Jobs] Skipping unreadable job file ${file}`);
+    }
+  }
+  return jobs;
+}
@@ -0,0 +1,57 @@
+import type { ScrapeEvent, SiteStage } from "../events/types.js";
+import type { RemovedVehicle } from "../history/types.js";
+import type { FilterReport } from "../sites/filters.js";
+import type { SearchParams } from "../types/index.js";
+import type { SiteErrorReport } from "../utils/site-errors.js";
+import type { StandardizedCarData } from "../types/car.js";
+import type { RejectedCar } from "../vehicles/normalize.js";
+import type { NearMissCar } from "../vehicles/post-filter.js";
+import type { VehicleCluster } from "../vehicles/dedupe.js";
+
+export type JobStatus =
+  | "queued"
+  | "running"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export type SiteStatus = "pending" | "running" | "completed" | "failed";
+
+export type JobSiteProgress = {
+  status: SiteStatus;
+  carsFound: number;
+  rejected: number;
+  nearMisses?: number;
+  stage?: SiteStage;
+  queuePosition?: number;
+  durationMs?: number;
+  // Set once the site completes, see SiteCompletedEvent
+  returned?: number;
+  totalAvailable?: number;
+  nextPage?: number;
+  nextOffset?: number;
+  filters?: FilterReport; // Set once the site completes
+  error?: Pick<SiteErrorReport, "kind" | "summary" | "message" | "attempts">;
+};
+
+// An SSE event recorded against a job; `id` is replayed via Last-Event-ID
+export type JobEvent = ScrapeEvent & { id: number };
+
+export type ScrapeJob = {
+  id: string;
+  userId?: string; // Owner; unset when the API runs with AUTH_DISABLED
+  status: JobStatus;
+  params: SearchParams;
+  sites: string[];
+  progress: Record<string, JobSiteProgress>;
+  results: StandardizedCarData[];
+  clusters: VehicleCluster[];
+  rejected: RejectedCar[];
+  removed: RemovedVehicle[];
+  nearMisses: NearMissCar[];
+  events: JobEvent[];
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+};
@@ -0,0 +1,630 @@
+// OpenAPI description of the scrape API, served at GET /api/openapi.json
+// Request bodies are generated from the zod schemas in src/shared, so the
+// document cannot drift from what the API actually accepts. SSE endpoints
+// are described as text/event-stream responses whose `data:` lines carry
+// one of the ScrapeEvent schemas
+import { zodToJsonSchema } from "zod-to-json-schema";
+import {
+  SEARCH_FILTER_LABELS,
+  searchParamsSchema,
+} from "../shared/search-params.js";
+
+type JsonSchema = Record<string, unknown>;
+
+// zod-to-json-schema ships CommonJS typings, so it sees zod's CommonJS
+// declarations while this module sees the ESM ones. Comparing the two copies
+// sends tsc into an endless instantiation, hence the cast
+type ConvertibleSchema = Parameters<typeof zodToJsonSchema>[0];
+
+const ref = (name: string): JsonSchema => ({
+  $ref: `#/components/schemas/${name}`,
+});
+
+const string: JsonSchema = { type: "string" };
+const integer: JsonSchema = { type: "integer" };
+const number: JsonSchema = { type: "number" };
+const dateTime: JsonSchema = { type: "string", format: "date-time" };
+const looseObject: JsonSchema = { type: "object", additionalProperties: true };
+
+function object(
+  properties: Record<string, JsonSchema>,
+  required: string[] = []
+): JsonSchema {
+  return { type: "object", properties, required };
+}
+
+// An SSE event schema: `type` fixed to the event name, plus a timestamp
+function event(
+  type: string,
+  description: string,
+  properties: Record<string, JsonSchema>,
+  required: string[] = []
+): JsonSchema {
+  return {
+    description,
+    ...object(
+      {
+        type: { type: "string", enum: [type] },
+        ...properties,
+        timestamp: dateTime,
+      },
+      ["type", ...required, "timestamp"]
+    ),
+  };
+}
+
+function json(description: string, schema: JsonSchema) {
+  return { description, content: { "application/json": { schema } } };
+}
+
+// Success envelope used by every JSON endpoint
+function success(description: string, data: JsonSchema) {
+  return json(
+    description,
+    object({ success: { type: "boolean", enum: [true] }, data }, ["success"])
+  );
+}
+
+const error = (description: string) => json(description, ref("ErrorResponse"));
+
+const searchBody = {
+  required: true,
+  content: { "application/json": { schema: ref("SearchParams") } },
+};
+
+const eventStream = (description: string) => ({
+  description,
+  content: { "text/event-stream": { schema: ref("ScrapeEvent") } },
+});
+
+// Responses every scrape endpoint can give before the scrape starts
+const scrapeRejections = {
+  "400": json(
+    "Invalid search, unknown sites, or sites without a trade account",
+    ref("ValidationErrorResponse")
+  ),
+  "401": error("Missing or invalid access token"),
+  "429": {
+    ...json("Daily scrape quota used up", ref("QuotaExceededResponse")),
+    headers: {
+      "Retry-After": {
+        description: "Seconds until the quota resets",
+        schema: integer,
+      },
+    },
+  },
+};
+
+const idParam = {
+  name: "id",
+  in: "path",
+  required: true,
+  schema: string,
+};
+
+const SITE_STAGES = [
+  "queued",
+  "resuming_session",
+  "logging_in",
+  "navigating",
+  "applying_filters",
+  "extracting",
+  "retrying",
+];
+
+const SEARCH_FILTERS = Object.keys(SEARCH_FILTER_LABELS);
+
+const filterList: JsonSchema = {
+  type: "array",
+  items: { type: "string", enum: SEARCH_FILTERS },
+};
+
+const filterNotes: JsonSchema = {
+  type: "object",
+  description: "What an approximated or ignored filter does on the site",
+  additionalProperties: string,
+};
+
+const SITE_ERROR_KINDS = [
+  "auth",
+  "selector",
+  "navigation_timeout",
+  "network",
+  "zero_results",
+  "unknown",
+];
+
+function buildSchemas(): Record<string, JsonSchema> {
+  const schema = searchParamsSchema as unknown as ConvertibleSchema;
+  const { $schema, ...searchParams } = zodToJsonSchema(schema, {
+    target: "openApi3",
+  }) as JsonSchema;
+
+  const events: Record<string, JsonSchema> = {
+    ConnectedEvent: event(
+      "connected",
+      "First event of a stream, listing the sites that will run",
+      {
+        message: string,
+        jobId: string,
+        totalSites: integer,
+        sites: { type: "array", items: string },
+      },
+      ["totalSites", "sites"]
+    ),
+    ProgressEvent: event(
+      "progress",
+      "Vehicles found on one site",
+      {
+        siteName: string,
+        cars: { type: "array", items: ref("Vehicle") },
+        totalSites: integer,
+        currentSite: integer,
+        rejected: { type: "array", items: looseObject },
+        nearMisses: { type: "array", items: ref("NearMissVehicle") },
+      },
+      ["siteName", "cars"]
+    ),
+    SiteStartedEvent: event("site_started", "A site began", {
+      siteName: string,
+      totalSites: integer,
+    }),
+    SiteStageEvent: event(
+      "site_stage",
+      "A site moved to a new stage of its run",
+      {
+        siteName: string,
+        stage: { type: "string", enum: SITE_STAGES },
+        attempt: integer,
+        queuePosition: integer,
+        page: integer,
+        totalPages: integer,
+        retryInMs: integer,
+        reason: string,
+      },
+      ["siteName", "stage", "attempt"]
+    ),
+    SiteCompletedEvent: event(
+      "site_completed",
+      "A site finished, with how it handled the search's filters",
+      {
+        siteName: string,
+        carsFound: integer,
+        rejected: integer,
+        nearMisses: integer,
+        filteredOut: integer,
+        returned: integer,
+        totalAvailable: integer,
+        nextPage: integer,
+        nextOffset: integer,
+        attempts: integer,
+        durationMs: integer,
+        totalSites: integer,
+        currentSite: integer,
+        filtersApplied: filterList,
+        filtersApproximated: filterList,
+        filtersIgnored: filterList,
+        filterNotes,
+      },
+      ["filtersApplied", "filtersApproximated", "filtersIgnored"]
+    ),
+    SiteFailedEvent: event(
+      "site_failed",
+      "A site failed after its last retry",
+      {
+        siteName: string,
+        kind: { type: "string", enum: SITE_ERROR_KINDS },
+        summary: string,
+        message: string,
+        phase: string,
+        attempts: integer,
+        currentSite: integer,
+        totalSites: integer,
+        durationMs: integer,
+      },
+      ["siteName", "kind", "summary"]
+    ),
+    CompleteEvent: event(
+      "complete",
+      "Last event of a successful scrape",
+      {
+        totalCars: integer,
+        results: { type: "array", items: ref("Vehicle") },
+        clusters: { type: "array", items: looseObject },
+        removed: { type: "array", items: looseObject },
+        nearMisses: { type: "array", items: ref("NearMissVehicle") },
+      },
+      ["totalCars", "results"]
+    ),
+    CancelledEvent: event("cancelled", "The scrape was cancelled", {
+      message: string,
+    }),
+    ErrorEvent: event("error", "The scrape failed", { error: string }, [
+      "error",
+    ]),
+  };
+
+  return {
+    SearchParams: searchParams,
+    Vehicle: {
+      description: "A vehicle normalised to the same shape for every site",
+      ...object(
+        {
+          id: string,
+          make: string,
+          model: string,
+          variant: string,
+          year: integer,
+          mileage: integer,
+          price: number,
+          source: string,
+          url: string,
+          history: looseObject,
+        },
+        ["source"]
+      ),
+      additionalProperties: true,
+    },
+    NearMissVehicle: {
+      description:
+        "A vehicle just outside the search's price, mileage or age range",
+      allOf: [
+        ref("Vehicle"),
+        object(
+          {
+            misses: {
+              type: "array",
+              items: object(
+                {
+                  filter: { type: "string", enum: SEARCH_FILTERS },
+                  message: string,
+                },
+                ["filter", "message"]
+              ),
+            },
+          },
+          ["misses"]
+        ),
+      ],
+    },
+    ...events,
+    ScrapeEvent: {
+      description: "One SSE `data:` payload",
+      oneOf: Object.keys(events).map(ref),
+      discriminator: { propertyName: "type" },
+    },
+    ErrorResponse: object(
+      { success: { type: "boolean", enum: [false] }, error: string },
+      ["success", "error"]
+    ),
+    ValidationErrorResponse: object(
+      {
+        success: { type: "boolean", enum: [false] },
+        error: string,
+        fieldErrors: {
+          description:
+            "Messages per invalid field; `_request` holds problems with the body as a whole",
+          type: "object",
+          additionalProperties: { type: "array", items: string },
+        },
+        unknownSites: { type: "array", items: string },
+        sitesWithoutCredentials: { type: "array", items: string },
+      },
+      ["success", "error"]
+    ),
+    QuotaStatus: object(
+      {
+        limit: { ...integer, nullable: true },
+        used: integer,
+        remaining: { ...integer, nullable: true },
+        resetsAt: dateTime,
+      },
+      ["limit", "used", "remaining", "resetsAt"]
+    ),
+    QuotaExceededResponse: object(
+      {
+        success: { type: "boolean", enum: [false] },
+        error: string,
+        quota: ref("QuotaStatus"),
+      },
+      ["success", "error", "quota"]
+    ),
+  };
+}
+
+let document: JsonSchema | null = null;
+
+/**
+ * BUILD OPENAPI DOCUMENT
+ * Assembled once per process; the schemas do not change at runtime
+ */
+export function buildOpenApiDocument(): JsonSchema {
+  if (document) return document;
+
+  document = {
+    openapi: "3.0.3",
+    info: {
+      title: "Car Dealership Scraper API",
+      version: "1.0.0",
+      description:
+        "Searches trade auction sites with each user's own accounts. Every endpoint except this document needs a Supabase access token.",
+    },
+    security: [{ bearerAuth: [] }],
+    paths: {
+      "/api/openapi.json": {
+        get: {
+          summary: "This document",
+          security: [],
+          responses: { "200": json("OpenAPI document", looseObject) },
+        },
+      },
+      "/api/scrape": {
+        post: {
+          summary: "Scrape and return every result at once",
+          requestBody: searchBody,
+          responses: {
+            "200": json(
+              "Vehicles from every site",
+              object({
+                success: { type: "boolean" },
+                data: { type: "array", items: ref("Vehicle") },
+                clusters: { type: "array", items: looseObject },
+                rejected: { type: "array", items: looseObject },
+                removed: { type: "array", items: looseObject },
+                nearMisses: { type: "array", items: ref("NearMissVehicle") },
+                siteResults: {
+                  type: "array",
+                  items: ref("SiteCompletedEvent"),
+                },
+                siteErrors: { type: "array", items: ref("SiteFailedEvent") },
+              })
+            ),
+            ...scrapeRejections,
+          },
+        },
+      },
+      "/api/scrape-stream": {
+        post: {
+          summary: "Scrape and stream progress as server-sent events",
+          requestBody: searchBody,
+          responses: {
+            "200": eventStream(
+              "Events until a `complete`, `cancelled` or `error` event"
+            ),
+            ...scrapeRejections,
+          },
+        },
+      },
+      "/api/jobs": {
+        post: {
+          summary: "Start a scrape job that survives disconnects",
+          requestBody: searchBody,
+          responses: {
+            "202": success("The queued job", looseObject),
+            ...scrapeRejections,
+          },
+        },
+      },
+      "/api/jobs/{id}": {
+        get: {
+          summary: "Job status, per-site progress and results",
+          parameters: [idParam],
+          responses: {
+            "200": success("The job", looseObject),
+            "404": error("No job with this id belongs to the caller"),
+          },
+        },
+        delete: {
+          summary: "Cancel a running job",
+          parameters: [idParam],
+          responses: {
+            "202": success("The job, cancelling", looseObject),
+            "404": error("No job with this id belongs to the caller"),
+            "409": error("The job has already finished"),
+          },
+        },
+      },
+      "/api/jobs/{id}/events": {
+        get: {
+          summary: "Stream a job's events, replaying from Last-Event-ID",
+          parameters: [
+            idParam,
+            {
+              name: "Last-Event-ID",
+              in: "header",
+              required: false,
+              schema: integer,
+            },
+          ],
+          responses: {
+            "200": eventStream("Job events, each with an `id:` line"),
+            "404": error("No job with this id belongs to the caller"),
+          },
+        },
+      },
+      "/api/sites": {
+        get: {
+          summary: "Sites that can be requested via `sites`",
+          responses: {
+            "200": success("Registered sites", {
+              type: "array",
+              items: object({
+                id: string,
+                displayName: string,
+                supportedFilters: filterList,
+                filters: {
+                  type: "object",
+                  description:
+                    "How the site honours each filter: exact, approximate or ignored",
+                  additionalProperties: {
+                    type: "string",
+                    enum: ["exact", "approximate", "ignored"],
+                  },
+                },
+                filterNotes,
+                enabled: { type: "boolean" },
+              }),
+            }),
+          },
+        },
+      },
+      "/api/catalog": {
+        get: {
+          summary:
+            "Canonical makes and their models, as the search form lists them",
+          responses: {
+            "200": success("Makes with their models", {
+              type: "array",
+              items: object(
+                {
+                  make: string,
+                  models: { type: "array", items: string },
+                },
+                ["make", "models"]
+              ),
+            }),
+          },
+        },
+      },
+      "/api/catalog/resolve": {
+        get: {
+          summary:
+            'Read free text such as "merc c class" as catalogue makes, models and trims',
+          parameters: [
+            { name: "q", in: "query", required: true, schema: string },
+          ],
+          responses: {
+            "200": success("Readings of the text, best first", {
+              type: "array",
+              items: object(
+                {
+                  make: string,
+                  model: string,
+                  trim: string,
+                  label: string,
+                },
+                ["make", "label"]
+              ),
+            }),
+            "400": error("Missing query"),
+          },
+        },
+      },
+      "/api/sites/{name}/test-login": {
+        post: {
+          summary: "Run only a site's login step with a trade account",
+          parameters: [
+            { name: "name", in: "path", required: true, schema: string },
+          ],
+          requestBody: {
+            required: false,
+            content: {
+              "application/json": {
+                schema: object({ accountId: string }),
+              },
+            },
+          },
+          responses: {
+            "200": success("Login outcome with a screenshot", looseObject),
+            "400": error(
+              "No account with a saved password for the site, or `accountId` is the account for another site"
+            ),
+            "404": error("Unknown site"),
+          },
+        },
+      },
+      "/api/trade-accounts": {
+        get: {
+          summary: "The caller's trade accounts, without passwords",
+          responses: {
+            "200": success("Trade accounts", {
+              type: "array",
+              items: looseObject,
+            }),
+            "503": error("Supabase is not configured"),
+          },
+        },
+        post: {
+          summary: "Add a trade account",
+          requestBody: {
+            required: true,
+            content: { "application/json": { schema: looseObject } },
+          },
+          responses: {
+            "201": success("The saved account", looseObject),
+            "400": error("Invalid account"),
+            "503": error("Supabase is not configured"),
+          },
+        },
+      },
+      "/api/trade-accounts/{id}": {
+        put: {
+          summary: "Edit or deactivate a trade account",
+          parameters: [idParam],
+          requestBody: {
+            required: true,
+            content: { "application/json": { schema: looseObject } },
+          },
+          responses: {
+            "200": success("The saved account", looseObject),
+            "400": error("Invalid account"),
+            "404": error("No such account belongs to the caller"),
+            "503": error("Supabase is not configured"),
+          },
+        },
+        delete: {
+          summary: "Delete a trade account and its stored login sessions",
+          parameters: [idParam],
+          responses: {
+            "200": success("The id of the deleted account", looseObject),
+            "404": error("No such account belongs to the caller"),
+            "503": error("Supabase is not configured"),
+          },
+        },
+      },
+      "/api/vehicles/{key}/history": {
+        get: {
+          summary: "Price and status history of one listing",
+          description:
+            "History is kept per user: only listings found by the caller's own scrapes are returned",
+          parameters: [
+            { name: "key", in: "path", required: true, schema: string },
+          ],
+          responses: {
+            "200": success("Listing history", looseObject),
+            "404": error("Vehicle not found"),
+          },
+        },
+      },
+      "/api/quota": {
+        get: {
+          summary: "The caller's scrape allowance for today",
+          responses: {
+            "200": success("Quota, null with AUTH_DISABLED", {
+              nullable: true,
+              allOf: [ref("QuotaStatus")],
+            }),
+          },
+        },
+      },
+      "/api/browser-pool": {
+        get: {
+          summary: "Browser pool occupancy and counters",
+          responses: { "200": success("Pool metrics", looseObject) },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: "http",
+          scheme: "bearer",
+          bearerFormat: "JWT",
+          description: "Supabase access token of the signed-in user",
+        },
+      },
+      schemas: buildSchemas(),
+    },
+  };
+  return document;
+}
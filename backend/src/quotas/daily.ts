@@ -0,0 +1,144 @@
+// Daily scrape quotas per user
+// Every scrape started through the API counts against the caller's quota for
+// the current UTC day. Counts live in <QUOTAS_DIR>/usage.json so restarting
+// the server does not hand everyone a fresh allowance
+import { mkdirSync, readFileSync } from "node:fs";
+import { rename, writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+
+const QUOTAS_DIR = resolve(process.env.QUOTAS_DIR || "data/quotas");
+const USAGE_PATH = join(QUOTAS_DIR, "usage.json");
+
+const DEFAULT_DAILY_QUOTA = 20;
+
+/**
+ * QUOTA STATUS
+ * - limit: scrapes allowed per UTC day, null when unlimited
+ * - resetsAt: start of the next UTC day
+ */
+export type QuotaStatus = {
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  resetsAt: string;
+};
+
+type UsageFile = {
+  day: string; // YYYY-MM-DD (UTC)
+  used: Record<string, number>; // Scrapes started today by user id
+};
+
+/**
+ * QUOTA EXCEEDED ERROR
+ * Thrown when a user has used up today's scrapes; surfaced as a 429
+ */
+export class QuotaExceededError extends Error {
+  quota: QuotaStatus;
+
+  constructor(quota: QuotaStatus) {
+    super(
+      `Daily search limit of ${quota.limit} reached, it resets at ${quota.resetsAt}`
+    );
+    this.name = "QuotaExceededError";
+    this.quota = quota;
+  }
+}
+
+let usage: UsageFile | null = null;
+let pendingWrite: Promise<void> = Promise.resolve();
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function nextResetAt(): string {
+  const reset = new Date(`${today()}T00:00:00.000Z`);
+  reset.setUTCDate(reset.getUTCDate() + 1);
+  return reset.toISOString();
+}
+
+// Parse a configured limit; 0 means unlimited
+function parseLimit(value: string | undefined): number | null | undefined {
+  if (value === undefined || value.trim() === "") return undefined;
+  const limit = Number(value.trim());
+  if (!Number.isInteger(limit) || limit < 0) return undefined;
+  return limit === 0 ? null : limit;
+}
+
+/**
+ * GET DAILY LIMIT
+ * A user's entry in DAILY_SCRAPE_QUOTA_OVERRIDES wins over
+ * DAILY_SCRAPE_QUOTA (default 20). A limit of 0 means unlimited
+ */
+export function getDailyLimit(userId: string): number | null {
+  for (const entry of (process.env.DAILY_SCRAPE_QUOTA_OVERRIDES || "").split(
+    ","
+  )) {
+    const [id, value] = entry.split(":");
+    if (id?.trim() !== userId) continue;
+    const override = parseLimit(value);
+    if (override !== undefined) return override;
+  }
+  const configured = parseLimit(process.env.DAILY_SCRAPE_QUOTA);
+  return configured === undefined ? DEFAULT_DAILY_QUOTA : configured;
+}
+
+// Today's counts, starting afresh when the stored day has passed
+function currentUsage(): UsageFile {
+  if (!usage) {
+    mkdirSync(QUOTAS_DIR, { recursive: true });
+    try {
+      usage = JSON.parse(readFileSync(USAGE_PATH, "utf8")) as UsageFile;
+    } catch {
+      usage = { day: today(), used: {} };
+    }
+  }
+  if (usage.day !== today()) {
+    usage = { day: today(), used: {} };
+  }
+  return usage;
+}
+
+// Writes go through a temp file and are chained so they never interleave
+function saveUsage(): Promise<void> {
+  const snapshot = JSON.stringify(currentUsage());
+  pendingWrite = pendingWrite
+    .then(async () => {
+      const tempPath = `${USAGE_PATH}.tmp`;
+      await writeFile(tempPath, snapshot);
+      await rename(tempPath, USAGE_PATH);
+    })
+    .catch((error) => {
+      console.error("❌ [Quotas] Failed to persist quota usage:", error);
+    });
+  return pendingWrite;
+}
+
+export function getQuotaStatus(userId: string): QuotaStatus {
+  const limit = getDailyLimit(userId);
+  const used = currentUsage().used[userId] || 0;
+  return {
+    limit,
+    used,
+    remaining: limit === null ? null : Math.max(0, limit - used),
+    resetsAt: nextResetAt(),
+  };
+}
+
+/**
+ * CONSUME SCRAPE QUOTA
+ * Counts one scrape against the user's quota for today and returns the
+ * updated status. Throws QuotaExceededError, without counting, when the
+ * quota is already used up
+ */
+export function consumeScrapeQuota(userId: string): QuotaStatus {
+  const status = getQuotaStatus(userId);
+  if (status.remaining === 0) {
+    console.log(`🚫 [Quotas] User ${userId} reached ${status.limit} scrapes`);
+    throw new QuotaExceededError(status);
+  }
+
+  currentUsage().used[userId] = status.used + 1;
+  saveUsage();
+  return getQuotaStatus(userId);
+}
@@ -0,0 +1,143 @@
+// Process-wide queue for site sessions
+// Every scrape in the process (streamed searches, jobs, alerts and login
+// tests) takes a slot here before it logs into a site, so simultaneous
+// searches never open more sessions on a site, or on one trade account, than
+// the limits allow. Waiting tasks start in arrival order as soon as both
+// their site and their account have a free slot
+import { ScrapeCancelledError } from "../utils/cancellation.js";
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isInteger(value) && value > 0
+    ? value
+    : fallback;
+}
+
+const DEFAULT_MAX_SESSIONS_PER_SITE = envNumber("SITE_MAX_SESSIONS", 2);
+const MAX_SESSIONS_PER_ACCOUNT = envNumber("ACCOUNT_MAX_SESSIONS", 1);
+
+/**
+ * SITE SLOT REQUEST
+ * - account: username the site will be logged into with
+ * - maxSessions: the site's own limit, from its adapter; defaults to
+ *   SITE_MAX_SESSIONS
+ */
+export type SiteSlotRequest = {
+  siteName: string;
+  account: string;
+  maxSessions?: number;
+};
+
+export type SiteSlotOptions = {
+  signal?: AbortSignal;
+  // Called with the 1-based place among tasks waiting for the same site,
+  // whenever it changes
+  onQueued?: (position: number) => void;
+};
+
+type QueuedTask = {
+  siteName: string;
+  accountKey: string;
+  maxSessions: number;
+  position?: number;
+  onQueued?: (position: number) => void;
+  start: () => void;
+};
+
+const runningBySite = new Map<string, number>();
+const runningByAccount = new Map<string, number>();
+const queue: QueuedTask[] = [];
+
+// Usernames are only unique within a site
+function toAccountKey(siteName: string, account: string): string {
+  return `${siteName}:${account}`;
+}
+
+function increment(counts: Map<string, number>, key: string, by: number) {
+  const next = (counts.get(key) || 0) + by;
+  if (next > 0) counts.set(key, next);
+  else counts.delete(key);
+}
+
+function canStart(task: QueuedTask): boolean {
+  return (
+    (runningBySite.get(task.siteName) || 0) < task.maxSessions &&
+    (runningByAccount.get(task.accountKey) || 0) < MAX_SESSIONS_PER_ACCOUNT
+  );
+}
+
+// Starts every queued task that now fits, oldest first, then tells the
+// rest where they stand
+function drainQueue(): void {
+  for (let i = 0; i < queue.length; ) {
+    const task = queue[i];
+    if (canStart(task)) {
+      queue.splice(i, 1);
+      increment(runningBySite, task.siteName, 1);
+      increment(runningByAccount, task.accountKey, 1);
+      task.start();
+    } else {
+      i++;
+    }
+  }
+
+  const waitingBySite = new Map<string, number>();
+  for (const task of queue) {
+    const position = (waitingBySite.get(task.siteName) || 0) + 1;
+    waitingBySite.set(task.siteName, position);
+    if (task.position !== position) {
+      task.position = position;
+      task.onQueued?.(position);
+    }
+  }
+}
+
+/**
+ * ACQUIRE SITE SLOT
+ * Resolves with a release function once the site and account are below
+ * their session limits. Call the release function when the session ends,
+ * successful or not. Aborting the signal while queued rejects with
+ * ScrapeCancelledError
+ */
+export function acquireSiteSlot(
+  request: SiteSlotRequest,
+  { signal, onQueued }: SiteSlotOptions = {}
+): Promise<() => void> {
+  if (signal?.aborted) return Promise.reject(new ScrapeCancelledError());
+
+  return new Promise((resolve, reject) => {
+    const task: QueuedTask = {
+      siteName: request.siteName,
+      accountKey: toAccountKey(request.siteName, request.account),
+      maxSessions: request.maxSessions ?? DEFAULT_MAX_SESSIONS_PER_SITE,
+      onQueued: (position) => {
+        console.log(
+          `⏳ [Queue] ${request.siteName} waiting for a session slot (position ${position})`
+        );
+        onQueued?.(position);
+      },
+      start: () => {
+        signal?.removeEventListener("abort", onAbort);
+        let released = false;
+        resolve(() => {
+          if (released) return;
+          released = true;
+          increment(runningBySite, task.siteName, -1);
+          increment(runningByAccount, task.accountKey, -1);
+          drainQueue();
+        });
+      },
+    };
+    const onAbort = () => {
+      const index = queue.indexOf(task);
+      if (index === -1) return;
+      queue.splice(index, 1);
+      reject(new ScrapeCancelledError());
+      drainQueue();
+    };
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+    queue.push(task);
+    drainQueue();
+  });
+}
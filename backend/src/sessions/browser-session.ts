@@ -0,0 +1,94 @@
+// Capturing and restoring logged-in sessions on a Stagehand page
+// A session is the site's cookies and localStorage after a successful login.
+// Restoring one reopens the page the login landed on; if the site sends the
+// browser anywhere else (usually back to its login page) the session is dead
+import type {
+  SessionAccount,
+  SessionStorageState,
+  StoredSession,
+} from "./store.js";
+
+const SESSION_TTL_MINUTES = Number(process.env.SESSION_TTL_MINUTES) || 60;
+
+export function isSessionReuseEnabled(): boolean {
+  return process.env.REUSE_SESSIONS !== "false";
+}
+
+// "dealers.carwow.co.uk" -> "carwow.co.uk", so cookies set by the site's
+// login subdomain are kept with the session
+function siteDomain(hostname: string): string {
+  const labels = hostname.split(".");
+  const secondLevel = ["co", "com", "org", "ac", "gov"];
+  const size =
+    labels.length > 2 && secondLevel.includes(labels[labels.length - 2])
+      ? 3
+      : 2;
+  return labels.slice(-size).join(".");
+}
+
+function isOnDomain(hostname: string, domain: string): boolean {
+  const host = hostname.replace(/^\./, "");
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+/**
+ * CAPTURE SESSION
+ * Snapshots the cookies and localStorage of the site the page is on, as the
+ * session of the account that logged in. Other sites sharing the browser
+ * context are left out
+ */
+export async function captureSession(
+  page: any,
+  siteName: string,
+  account: SessionAccount
+): Promise<StoredSession> {
+  const landingUrl: string = page.url();
+  const domain = siteDomain(new URL(landingUrl).hostname);
+  const state: SessionStorageState = await page.context().storageState();
+  const now = Date.now();
+
+  return {
+    ...account,
+    siteName,
+    savedAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + SESSION_TTL_MINUTES * 60_000).toISOString(),
+    landingUrl,
+    storageState: {
+      cookies: state.cookies.filter((cookie) =>
+        isOnDomain(cookie.domain, domain)
+      ),
+      origins: state.origins.filter((origin) =>
+        isOnDomain(new URL(origin.origin).hostname, domain)
+      ),
+    },
+  };
+}
+
+/**
+ * RESTORE SESSION
+ * Loads a stored session into the page and reopens its landing page.
+ * Returns false when the site no longer accepts it, judged by whether the
+ * browser stays on a URL matching `loggedInUrl`
+ */
+export async function restoreSession(
+  page: any,
+  session: StoredSession,
+  loggedInUrl: RegExp
+): Promise<boolean> {
+  await page.context().addCookies(session.storageState.cookies);
+  if (session.storageState.origins.length > 0) {
+    // localStorage can only be written from a page on the same origin
+    await page.addInitScript((origins: SessionStorageState["origins"]) => {
+      const match = origins.find(
+        (origin) => origin.origin === window.location.origin
+      );
+      match?.localStorage.forEach(({ name, value }) =>
+        window.localStorage.setItem(name, value)
+      );
+    }, session.storageState.origins);
+  }
+
+  await page.goto(session.landingUrl);
+  await page.waitForLoadState("domcontentloaded");
+  return loggedInUrl.test(page.url());
+}
@@ -0,0 +1,157 @@
+// File-backed storage for logged-in browser sessions
+// Each site and trade account gets
+// <SESSIONS_DIR>/<site>-<owner hash>-<credential fingerprint>.json holding the
+// cookies and localStorage captured after a successful login. A session is
+// keyed by the trade account that logged in rather than its username, since
+// two users may enter the same username, and by its password, so an edited
+// account never resumes the old login. Files hold live session cookies, so
+// they are only readable by the owner
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readdirSync, readFileSync } from "node:fs";
+import { rename, rm, writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import type { SiteLogin } from "../../index.js";
+
+const SESSIONS_DIR = resolve(process.env.SESSIONS_DIR || "data/sessions");
+
+// Playwright's storage state, limited to the site's own domain
+export type SessionStorageState = {
+  cookies: Record<string, any>[];
+  origins: {
+    origin: string;
+    localStorage: { name: string; value: string }[];
+  }[];
+};
+
+/**
+ * SESSION ACCOUNT
+ * Whose login a session is
+ * - owner: the `dealer_websites` row that logged in, or the username of env
+ *   credentials, which every user of the server shares
+ * - credential: fingerprint of the password as stored (encrypted for trade
+ *   accounts), which changes whenever the password is saved again
+ */
+export type SessionAccount = {
+  owner: string;
+  credential: string;
+};
+
+/**
+ * STORED SESSION
+ * - owner, credential: the account that logged in; no other account resumes it
+ * - landingUrl: where the login left the browser; reopened instead of logging in
+ * - expiresAt: after this the session is discarded without being tried
+ */
+export type StoredSession = SessionAccount & {
+  siteName: string;
+  savedAt: string;
+  expiresAt: string;
+  landingUrl: string;
+  storageState: SessionStorageState;
+};
+
+function hash(value: string): string {
+  return createHash("sha256").update(value).digest("hex").slice(0, 16);
+}
+
+/**
+ * SESSION ACCOUNT FOR
+ * The account a site's credentials log in as
+ */
+export function sessionAccountFor(credentials: SiteLogin): SessionAccount {
+  return {
+    owner: credentials.accountId ?? `env:${credentials.username.toLowerCase()}`,
+    credential: hash(credentials.password),
+  };
+}
+
+// Owners are hashed so usernames never appear in file names
+function ownerHash(owner: string): string {
+  return hash(`owner:${owner}`);
+}
+
+function sessionPath(siteName: string, account: SessionAccount): string {
+  return join(
+    SESSIONS_DIR,
+    `${siteName}-${ownerHash(account.owner)}-${account.credential}.json`
+  );
+}
+
+/**
+ * LOAD SESSION
+ * The stored session for a site and account, or null if there is none, it
+ * has expired or it was stored for another account
+ */
+export function loadSession(
+  siteName: string,
+  account: SessionAccount
+): StoredSession | null {
+  const path = sessionPath(siteName, account);
+  if (!existsSync(path)) return null;
+
+  try {
+    const session: StoredSession = JSON.parse(readFileSync(path, "utf8"));
+    if (
+      session.owner !== account.owner ||
+      session.credential !== account.credential
+    ) {
+      console.warn(
+        `⚠️ [Sessions] Stored ${siteName} session belongs to another account, ignoring it`
+      );
+      return null;
+    }
+    if (new Date(session.expiresAt).getTime() > Date.now()) return session;
+    console.log(`⌛ [Sessions] Stored ${siteName} session has expired`);
+  } catch (error) {
+    console.warn(`⚠️ [Sessions] Could not read ${path}, discarding it`);
+  }
+  void deleteSession(siteName, account);
+  return null;
+}
+
+/**
+ * SAVE SESSION
+ * Persists a session, writing to a temp file first so a crash mid-write
+ * never leaves a truncated session behind
+ */
+export async function saveSession(session: StoredSession): Promise<void> {
+  try {
+    mkdirSync(SESSIONS_DIR, { recursive: true, mode: 0o700 });
+    const path = sessionPath(session.siteName, session);
+    await writeFile(`${path}.tmp`, JSON.stringify(session), { mode: 0o600 });
+    await rename(`${path}.tmp`, path);
+  } catch (error) {
+    console.error(
+      `❌ [Sessions] Failed to persist ${session.siteName} session:`,
+      error
+    );
+  }
+}
+
+export async function deleteSession(
+  siteName: string,
+  account: SessionAccount
+): Promise<void> {
+  await rm(sessionPath(siteName, account), { force: true });
+}
+
+/**
+ * DELETE ACCOUNT SESSIONS
+ * Removes every stored session of a trade account, on any site and with any
+ * password. Called when the account is edited or deleted
+ */
+export async function deleteAccountSessions(accountId: string): Promise<void> {
+  if (!existsSync(SESSIONS_DIR)) return;
+  const marker = `-${ownerHash(accountId)}-`;
+  const files = readdirSync(SESSIONS_DIR).filter((file) =>
+    file.includes(marker)
+  );
+  await Promise.all(
+    files.map((file) => rm(join(SESSIONS_DIR, file), { force: true }))
+  );
+  if (files.length > 0) {
+    console.log(
+      `🧹 [Sessions] Removed ${files.length} stored sessions of account ${accountId}`
+    );
+  }
+}
@@ -0,0 +1,136 @@
+// Search request contract shared by the API and the frontend
+// The frontend imports this module through its `@shared` alias, so modules in
+// src/shared may only depend on zod
+import { z } from "zod";
+
+const MAX_PRICE = 10_000_000;
+const MAX_MILEAGE = 2_000_000;
+const MAX_AGE_YEARS = 100;
+const MAX_RESULTS_PER_SITE = 1_000;
+const MAX_PAGES_PER_SITE = 50;
+
+function wholeNumber(label: string, max: number) {
+  return z
+    .number({
+      invalid_type_error: `${label} must be a number`,
+    })
+    .int(`${label} must be a whole number`)
+    .min(0, `${label} cannot be negative`)
+    .max(max, `${label} cannot be more than ${max.toLocaleString("en-GB")}`);
+}
+
+function text(label: string, max: number) {
+  return z
+    .string({ invalid_type_error: `${label} must be text` })
+    .trim()
+    .max(max, `${label} cannot be longer than ${max} characters`);
+}
+
+/**
+ * SEARCH PARAMS SCHEMA
+ * Validates a scrape request body. Unknown fields are rejected so typos do
+ * not silently widen a search; ranges must run from low to high
+ */
+export const searchParamsSchema = z
+  .object({
+    make: text("Make", 50).optional(),
+    model: text("Model", 80).optional(),
+    minPrice: wholeNumber("Minimum price", MAX_PRICE).optional(),
+    maxPrice: wholeNumber("Maximum price", MAX_PRICE).optional(),
+    minMileage: wholeNumber("Minimum mileage", MAX_MILEAGE).optional(),
+    maxMileage: wholeNumber("Maximum mileage", MAX_MILEAGE).optional(),
+    // The frontend sends null for "any colour"
+    color: text("Colour", 30)
+      .nullish()
+      .transform((color) => color || undefined),
+    minAge: wholeNumber("Minimum age", MAX_AGE_YEARS).optional(), // in years
+    maxAge: wholeNumber("Maximum age", MAX_AGE_YEARS).optional(), // in years
+    vatQualifying: z
+      .boolean({ invalid_type_error: "VAT qualifying must be true or false" })
+      .optional(),
+    // How much of each site's results to read; the server's configured
+    // defaults apply when left out
+    maxResultsPerSite: wholeNumber("Results per site", MAX_RESULTS_PER_SITE)
+      .min(1, "Results per site must be at least 1")
+      .optional(),
+    maxPagesPerSite: wholeNumber("Pages per site", MAX_PAGES_PER_SITE)
+      .min(1, "Pages per site must be at least 1")
+      .optional(),
+    // First results page to read, for loading more from one site
+    startPage: wholeNumber("Start page", MAX_PAGES_PER_SITE * 20)
+      .min(1, "Start page must be at least 1")
+      .optional(),
+    // Cars of the start page already returned, when the result cap cut
+    // into it (see `nextOffset` on site_completed)
+    startOffset: wholeNumber("Start offset", MAX_RESULTS_PER_SITE).optional(),
+    // Site ids to scrape, defaults to every enabled site
+    sites: z
+      .array(text("Site", 40).min(1, "Site names cannot be empty"), {
+        invalid_type_error: "`sites` must be an array of site names",
+      })
+      .optional(),
+  })
+  .strict()
+  .superRefine((params, ctx) => {
+    const ranges = [
+      ["minPrice", "maxPrice", "price"],
+      ["minMileage", "maxMileage", "mileage"],
+      ["minAge", "maxAge", "age"],
+    ] as const;
+    for (const [minKey, maxKey, label] of ranges) {
+      const min = params[minKey];
+      const max = params[maxKey];
+      if (min !== undefined && max !== undefined && min > max) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [minKey],
+          message: `Minimum ${label} cannot be more than the maximum`,
+        });
+      }
+    }
+  });
+
+// What clients send (colour may be null) and what the scraper receives
+export type SearchRequest = z.input<typeof searchParamsSchema>;
+export type SearchParams = z.output<typeof searchParamsSchema>;
+
+/**
+ * SEARCH PARAMS ERRORS
+ * Field-level messages for an invalid request, keyed by field name.
+ * Problems not tied to one field (e.g. unknown fields) are under `_request`
+ */
+export function searchParamsErrors(
+  error: z.ZodError
+): Record<string, string[]> {
+  const { formErrors, fieldErrors } = error.flatten();
+  const errors: Record<string, string[]> = {};
+  for (const [field, messages] of Object.entries(fieldErrors)) {
+    if (messages?.length) errors[field] = messages;
+  }
+  if (formErrors.length) errors._request = formErrors;
+  return errors;
+}
+
+// Fields that only pick where and how far to search
+export type SearchScope =
+  | "sites"
+  | "maxResultsPerSite"
+  | "maxPagesPerSite"
+  | "startPage"
+  | "startOffset";
+
+// Fields that narrow a search
+export type SearchFilter = Exclude<keyof SearchParams, SearchScope>;
+
+export const SEARCH_FILTER_LABELS: Record<SearchFilter, string> = {
+  make: "Make",
+  model: "Model",
+  minPrice: "Minimum price",
+  maxPrice: "Maximum price",
+  minMileage: "Minimum mileage",
+  maxMileage: "Maximum mileage",
+  color: "Colour",
+  minAge: "Minimum age",
+  maxAge: "Maximum age",
+  vatQualifying: "VAT qualifying",
+};
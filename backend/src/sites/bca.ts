@@ -4,7 +4,17 @@ import type {
   SearchParams,
   LoginCredentials,
 } from "../../index.ts";
-import { modelGroupMap } from "./bca/model-groups.js";
+import { defineSite } from "./registry.js";
+import { throwIfCancelled } from "../utils/cancellation.js";
+import {
+  carsWanted,
+  finishPages,
+  lastAllowedPage,
+  resolvePageLimits,
+} from "./paging.js";
+import type { PageLimits } from "./paging.js";
+import { findSiteModel } from "../catalog/catalog.js";
+import { bcaModels } from "../catalog/bca.js";
 
 /**
  * BCA Site Configuration
@@ -18,7 +28,6 @@ export function bcaConfig(stagehand: any): SiteConfig {
     baseUrl: "https://www.bca.co.uk",
     loginUrl:
       "https://login.bca.co.uk/login?signin=7d12c2d8683d1121f324c3ef7e44b042",
-    useProxies: true, // BCA requires proxies
 
     /**
      * BUILD SEARCH URL FUNCTION
@@ -43,10 +52,18 @@ export function bcaConfig(stagehand: any): SiteConfig {
 
         // Only add model filter if both make and model are provided
         if (params.model && params.model.trim()) {
-          const modelGroup =
-            modelGroupMap[mappedMake.toUpperCase()]?.[params.model] ||
-            params.model;
-          bqParts.push(`ModelGroup:${modelGroup}`);
+          const modelGroups = findSiteModel(
+            bcaModels,
+            params.make,
+            params.model
+          ) ?? [params.model];
+          if (modelGroups === "unsupported") {
+            console.log(
+              `⚠️ [BCA] No model group for ${params.make} ${params.model}, searching the whole make`
+            );
+          } else {
+            bqParts.push(`ModelGroup:${modelGroups.join(",")}`);
+          }
         }
       }
 
@@ -233,10 +250,16 @@ export function bcaConfig(stagehand: any): SiteConfig {
     /**
      * EXTRACT CARS FUNCTION
      * Extracts car data from BCA's search results using their API
-     * Handles pagination to collect all available vehicles
+     * Reads pages from limits.startPage until the page or result cap is hit
      * BCA provides data via API calls rather than DOM scraping
      */
-    extractCars: async (page: any) => {
+    extractCars: async (
+      page: any,
+      params?: SearchParams,
+      signal?: AbortSignal,
+      onPage?: (page: number, totalPages?: number) => void,
+      limits: PageLimits = resolvePageLimits({})
+    ) => {
       stagehand.log({
         category: "debug",
         message: "Starting manual extraction process with pagination",
@@ -257,11 +280,18 @@ export function bcaConfig(stagehand: any): SiteConfig {
 
       // Initialize variables for pagination handling
       let allVehicles: any[] = [];
-      let currentPage = 1;
+      let currentPage = limits.startPage;
+      const lastPage = lastAllowedPage(limits);
+      let totalPages: number | undefined;
+      let totalAvailable: number | undefined;
       let hasMorePages = true;
+      let morePages = false; // Pages left after the caps, for load more
+      let lastPageStart = 0; // Index of the first vehicle of currentPage
 
-      // Loop through all pages to collect complete vehicle data
+      // Loop through the pages the caps allow
       while (hasMorePages) {
+        throwIfCancelled(signal);
+        onPage?.(currentPage, totalPages && Math.min(totalPages, lastPage));
         stagehand.log({
           category: "debug",
           message: `Fetching page ${currentPage}`,
@@ -291,6 +321,10 @@ export function bcaConfig(stagehand: any): SiteConfig {
           }`
         );
 
+        if (typeof data.totalResults === "number") {
+          totalAvailable = data.totalResults;
+        }
+
         // Process vehicles from this page if available
         if (data?.items && data.items.length > 0) {
           const pageVehicles = data.items.map((vehicle: any) => {
@@ -323,13 +357,22 @@ export function bcaConfig(stagehand: any): SiteConfig {
           });
 
           // Add vehicles from this page to the total collection
+          lastPageStart = allVehicles.length;
           allVehicles = allVehicles.concat(pageVehicles);
 
           // Check if we have more pages to process
-          const totalPages = data.numberOfPages || 0;
+          const numberOfPages = data.numberOfPages || 0;
+          totalPages = numberOfPages;
 
-          if (currentPage >= totalPages) {
+          if (currentPage >= numberOfPages) {
+            hasMorePages = false;
+          } else if (
+            currentPage >= lastPage ||
+            allVehicles.length >= carsWanted(limits)
+          ) {
+            // Caps reached; the remaining pages are left for load more
             hasMorePages = false;
+            morePages = true;
           } else {
             currentPage++;
             await page.waitForTimeout(1000); // Small delay between pages
@@ -339,13 +382,55 @@ export function bcaConfig(stagehand: any): SiteConfig {
         }
       }
 
-      // Log completion and return all collected vehicles
+      // Log completion and return the collected vehicles
       stagehand.log({
         category: "debug",
         message: `Extraction complete. Total vehicles found: ${allVehicles.length}`,
       });
 
-      return allVehicles;
+      return finishPages(allVehicles, limits, {
+        lastPage: currentPage,
+        lastPageStart,
+        morePages,
+        totalAvailable,
+      });
     },
   };
 }
+
+/**
+ * BCA adapter metadata, discovered automatically by the site registry
+ */
+export const bcaSite = defineSite({
+  id: "bca",
+  displayName: "BCA",
+  credentialEnv: {
+    username: "BCA_USERNAME",
+    password: "BCA_PASSWORD",
+  },
+  useProxies: true, // BCA requires proxies
+  filters: {
+    make: "exact",
+    model: "exact",
+    minPrice: "approximate",
+    maxPrice: "approximate",
+    minMileage: "exact",
+    maxMileage: "exact",
+    color: "exact",
+    minAge: "approximate",
+    maxAge: "approximate",
+    vatQualifying: "exact",
+  },
+  filterNotes: {
+    minPrice: "BCA filters on the CAP clean valuation, not the sale price",
+    maxPrice: "BCA filters on the CAP clean valuation, not the sale price",
+    minAge: "BCA uses yearly age bands, so the minimum is rounded down",
+    maxAge:
+      "BCA uses yearly age bands up to 10 years, so the maximum is rounded up",
+  },
+  models: bcaModels,
+  enabledByDefault: true,
+  // BCA redirects away from the login.bca.co.uk identity server once signed in
+  loginSuccessUrl: /^https:\/\/(?!login\.)[^/]*bca\.co\.uk\//,
+  create: bcaConfig,
+});
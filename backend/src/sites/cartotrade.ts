@@ -4,6 +4,15 @@ import type {
   SearchParams,
   LoginCredentials,
 } from "../../index.js";
+import { defineSite } from "./registry.js";
+import { throwIfCancelled } from "../utils/cancellation.js";
+import {
+  carsWanted,
+  finishPages,
+  lastAllowedPage,
+  resolvePageLimits,
+} from "./paging.js";
+import type { PageLimits } from "./paging.js";
 
 /**
  * CarToTrade Site Configuration
@@ -13,7 +22,7 @@ import type {
  */
 export function cartotradeConfig(stagehand: any): SiteConfig {
   return {
-    name: "CarToTrade",
+    name: "cartotrade",
     baseUrl: "https://www.cartotrade.co.uk",
     loginUrl:
       "https://www.cartotrade.com/Account/Login?ReturnUrl=%2FHome%2FVehiclesOffered",
@@ -260,9 +269,16 @@ export function cartotradeConfig(stagehand: any): SiteConfig {
      * Extracts car data from the filtered search results page
      * Parses individual car cards to extract details like price, title, location, etc.
      * Handles cases where model filters may not have been applied successfully
-     * Now includes pagination handling to collect results from all pages
+     * Pages through to limits.startPage, then reads pages until the page or
+     * result cap is hit
      */
-    extractCars: async (page: any) => {
+    extractCars: async (
+      page: any,
+      params?: SearchParams,
+      signal?: AbortSignal,
+      onPage?: (page: number, totalPages?: number) => void,
+      limits: PageLimits = resolvePageLimits({})
+    ) => {
       stagehand.log({
         category: "debug",
         message: "Starting manual extraction process with pagination handling",
@@ -274,23 +290,34 @@ export function cartotradeConfig(stagehand: any): SiteConfig {
         console.log(
           "⚠️ [CartoTrade] Search was not executed due to unavailable model. Returning 0 results gracefully."
         );
-        return [];
+        return { cars: [] };
       }
 
       const allCarData = [];
       let currentPage = 0;
       let hasMorePages = true;
+      let morePages = false; // Pages left after the caps, for load more
+      let lastPageStart = 0; // Index of the first car of the current page
 
-      // Loop through all pages to collect results
+      // Loop through the pages the caps allow
       while (hasMorePages) {
-        console.log(`📄 [CartoTrade] Processing page ${currentPage + 1}`);
+        throwIfCancelled(signal);
+        // Pages before limits.startPage are only paged through
+        const reading = currentPage + 1 >= limits.startPage;
+        if (reading) onPage?.(currentPage + 1);
+        console.log(
+          `📄 [CartoTrade] ${reading ? "Processing" : "Skipping"} page ${
+            currentPage + 1
+          }`
+        );
 
         // Wait for page to load
         await page.waitForLoadState("domcontentloaded");
         await page.waitForTimeout(2000);
 
         // Find all car listing cards on the current page
-        const cards = await page.$$(".panel");
+        const cards = reading ? await page.$$(".panel") : [];
+        lastPageStart = allCarData.length;
         console.log(
           `🔍 [CartoTrade] Found ${cards.length} cars on page ${
             currentPage + 1
@@ -539,8 +566,22 @@ export function cartotradeConfig(stagehand: any): SiteConfig {
             }
           }
 
-          // If we found a next page, navigate to it
-          if (hasNextPage && nextButton) {
+          const capReached =
+            reading &&
+            (currentPage + 1 >= lastAllowedPage(limits) ||
+              allCarData.length >= carsWanted(limits));
+
+          if (hasNextPage && nextButton && capReached) {
+            // The remaining pages are left for load more
+            console.log(
+              `⏸️ [CartoTrade] Page or result cap reached, leaving page ${
+                currentPage + 2
+              } for later`
+            );
+            morePages = true;
+            hasMorePages = false;
+          } else if (hasNextPage && nextButton) {
+            // If we found a next page, navigate to it
             try {
               // Check if the button is visible and clickable
               if (await nextButton.isVisible()) {
@@ -636,8 +677,48 @@ export function cartotradeConfig(stagehand: any): SiteConfig {
         } pages, total cars: ${allCarData.length}`
       );
 
-      // Return the extracted car data array from all pages
-      return allCarData;
+      // Return the extracted car data from the pages read
+      return finishPages(allCarData, limits, {
+        lastPage: currentPage + 1,
+        lastPageStart,
+        morePages,
+      });
     },
   };
 }
+
+/**
+ * CarToTrade adapter metadata, discovered automatically by the site registry
+ * Disabled by default because its login selects a specific user account
+ */
+export const cartotradeSite = defineSite({
+  id: "cartotrade",
+  displayName: "CarToTrade",
+  credentialEnv: {
+    username: "CARTOTRADE_USERNAME",
+    password: "CARTOTRADE_PASSWORD",
+  },
+  useProxies: false,
+  filters: {
+    make: "exact",
+    model: "approximate",
+    minPrice: "exact",
+    maxPrice: "exact",
+    minMileage: "exact",
+    maxMileage: "exact",
+    color: "ignored",
+    minAge: "exact",
+    maxAge: "exact",
+    vatQualifying: "ignored",
+  },
+  filterNotes: {
+    model:
+      "CarToTrade picks the first vehicle range whose name contains the model",
+    color: "CarToTrade has no colour filter",
+    vatQualifying: "CarToTrade has no VAT filter",
+  },
+  enabledByDefault: false,
+  // Signed-in users leave the /Account/Login page
+  loginSuccessUrl: /^https:\/\/www\.cartotrade\.com\/(?!Account\/Login)/i,
+  create: cartotradeConfig,
+});
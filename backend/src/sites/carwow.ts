@@ -4,7 +4,160 @@ import type {
   SearchParams,
   LoginCredentials,
 } from "../../index.js";
-import { modelGroupMap } from "./carwow/model-groups.js";
+import { defineSite } from "./registry.js";
+import { throwIfCancelled } from "../utils/cancellation.js";
+import { finishPages, readScrolledPages, resolvePageLimits } from "./paging.js";
+import type { PageLimits } from "./paging.js";
+import { captureListings } from "./intercept.js";
+import type { ListingCapture } from "./intercept.js";
+import { z } from "zod";
+import { canonicalMake } from "../vehicles/normalize.js";
+import { findSiteModel } from "../catalog/catalog.js";
+import { carwowModels } from "../catalog/carwow.js";
+
+// The dealer app fetches the filtered results, and each scroll of them, from
+// this endpoint
+const CARWOW_LISTINGS_URL = "https://dealers.carwow.co.uk/api/listings";
+
+/**
+ * CARWOW LISTING
+ * A car in a response of the listings endpoint. Carwow lists cars at their
+ * reserve price, which is the price its cards show. The fuel, gearbox, body
+ * and colour are left off the cards
+ */
+const carwowListingSchema = z.object({
+  id: z.number(),
+  registration: z.string(),
+  make: z.string(),
+  model: z.string(),
+  derivative: z.string().optional(),
+  year: z.number().optional(),
+  mileage: z.number().optional(),
+  reserve_price: z.number(),
+  image_url: z.string().optional(),
+  location: z.string().optional(),
+  fuel_type: z.string().optional(),
+  transmission: z.string().optional(),
+  body_type: z.string().optional(),
+  colour: z.string().optional(),
+});
+type CarwowListing = z.infer<typeof carwowListingSchema>;
+
+// One response of the listings endpoint: a page of cars and the number
+// matching the search. Checked against src/sites/samples/carwow-listings.json
+export const carwowListingsSchema = z.object({
+  listings: z.array(carwowListingSchema),
+  meta: z.object({ total_count: z.number() }),
+});
+type CarwowListings = z.infer<typeof carwowListingsSchema>;
+
+const isListingsUrl = (url: URL) =>
+  `${url.origin}${url.pathname}` === CARWOW_LISTINGS_URL;
+
+// The results page a listings response holds, from its `page` query
+// parameter; the first page is fetched without one
+const pageOf = (url: URL) => Number(url.searchParams.get("page") ?? 1);
+
+// The search a listings response is for: its query without the page
+function searchOf(url: URL) {
+  const query = new URLSearchParams(url.searchParams);
+  query.delete("page");
+  query.sort();
+  return query.toString();
+}
+
+// A car of the listings endpoint in the raw car shape adapters return
+function readCarwowListing(listing: CarwowListing) {
+  return {
+    url: `https://dealers.carwow.co.uk/listings/${listing.id}`,
+    imageUrl: listing.image_url || "",
+    title: [listing.make, listing.model, listing.derivative]
+      .filter(Boolean)
+      .join(" "),
+    price: listing.reserve_price,
+    location: listing.location || "",
+    registration: listing.registration,
+    mileage: listing.mileage,
+    // Under the name the other sites use, so cross-site duplicates match
+    make: canonicalMake(listing.make) ?? listing.make,
+    model: listing.model,
+    year: listing.year,
+    fuelType: listing.fuel_type,
+    transmission: listing.transmission,
+    bodyType: listing.body_type,
+    colour: listing.colour,
+    source: "CarWow",
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Reads a car card's details from the page, used when no listings response
+ * was captured
+ */
+async function readCarwowCard(card: any) {
+  // Extract car image URL (with fallback to empty string if not found)
+  let imageUrl = "";
+  try {
+    imageUrl = await card.$eval(".swiper-slide img", (img: any) => img.src);
+  } catch {
+    // imageUrl remains "" if image extraction fails
+  }
+
+  // Extract car title/name
+  const title = await card.$eval(
+    ".listing-card-component__make_and_model",
+    (el: any) => el.textContent?.trim() || ""
+  );
+
+  // Extract car price
+  const price = await card.$eval(
+    ".listing-card-price-component__price",
+    (el: any) => el.textContent?.trim() || ""
+  );
+
+  // Extract registration number (clean up multi-line text)
+  const regRaw = await card.$eval(
+    ".listing-card-license-plate-component__value",
+    (el: any) => el.textContent?.trim() || ""
+  );
+  const reg = regRaw.split("\n")[0].trim();
+
+  // Extract dealer location/delivery distance
+  const location = await card.$eval(
+    ".listing-card-distance-component__value",
+    (el: any) => el.textContent?.trim() || ""
+  );
+
+  // Extract mileage from the badges section (looks for numeric values that are likely mileage)
+  const mileage = await card.$$eval(
+    ".listing-card-component__badge",
+    (badges: any[]) => {
+      const mileageBadge = badges.find((badge) => {
+        const text = badge.textContent?.trim() || "";
+        // Look for numeric values that are likely mileage (4 digits or less, no text)
+        // Look for numeric values that are likely mileage
+        const numValue = parseInt(text.replace(/,/g, ""));
+        return (
+          numValue >= 1000 &&
+          numValue <= 200000 &&
+          // Ensure it has a comma for values over 1,000 (Carwow format)
+          (numValue < 1000 || text.includes(","))
+        );
+      });
+      return mileageBadge ? mileageBadge.textContent.trim() : "";
+    }
+  );
+
+  return {
+    imageUrl,
+    title,
+    price: price,
+    location,
+    registration: reg,
+    mileage,
+  };
+}
 
 /**
  * Carwow Site Configuration
@@ -12,6 +165,10 @@ import { modelGroupMap } from "./carwow/model-groups.js";
  * It handles authentication, filtering, and data extraction for car searches
  */
 export function carwowConfig(stagehand: any): SiteConfig {
+  // The listings responses each page records from the moment its filters
+  // start being applied, since applying them loads the first page of results
+  const captures = new WeakMap<object, ListingCapture<CarwowListings>>();
+
   return {
     name: "carwow",
     baseUrl: "https://dealers.carwow.co.uk",
@@ -73,6 +230,14 @@ export function carwowConfig(stagehand: any): SiteConfig {
      * Make and model are now optional - can search with just other filters
      */
     applyFilters: async (page: any, params: SearchParams) => {
+      // Record the listings responses the search loads, for extractCars
+      const capture = captureListings(
+        page,
+        isListingsUrl,
+        carwowListingsSchema
+      );
+      captures.set(page, capture);
+
       try {
         stagehand.log({
           category: "debug",
@@ -260,9 +425,18 @@ export function carwowConfig(stagehand: any): SiteConfig {
           await page.waitForTimeout(1000);
 
           // Check if this is a series model that needs special handling
-          // Series models contain multiple comma-separated values (e.g., "1 Series, 2 Series, 3 Series")
-          const modelGroup =
-            modelGroupMap[params.make]?.[params.model] || params.model;
+          // Series models are joined into comma-separated values (e.g., "M1,M2,M3")
+          // Unmapped models, and any Carwow has no range for, go through the search box
+          const carwowModel = findSiteModel(
+            carwowModels,
+            params.make,
+            params.model
+          );
+          const modelGroup = (
+            carwowModel && carwowModel !== "unsupported"
+              ? carwowModel
+              : [params.model]
+          ).join(",");
 
           if (modelGroup.includes(",")) {
             // SERIES MODEL HANDLING: Skip search box and go straight to checkbox selection
@@ -675,6 +849,8 @@ export function carwowConfig(stagehand: any): SiteConfig {
             error instanceof Error ? error.message : String(error)
           }`,
         });
+        capture.stop();
+        captures.delete(page);
         throw error;
       }
     },
@@ -682,121 +858,170 @@ export function carwowConfig(stagehand: any): SiteConfig {
     /**
      * EXTRACT CARS FUNCTION
      * Extracts car data from the filtered search results page
-     * Parses individual car cards to extract details like price, title, location, etc.
-     * Returns an array of car objects with standardized data structure
+     * Builds the cars from the listings endpoint responses the page fetched
+     * since its filters were applied, and reads the car cards only when no
+     * response was captured
+     * The list loads more cards as it scrolls, each scroll counting as a page
+     * towards the caps
      */
-    extractCars: async (page: any) => {
+    extractCars: async (
+      page: any,
+      params?: SearchParams,
+      signal?: AbortSignal,
+      onPage?: (page: number, totalPages?: number) => void,
+      limits: PageLimits = resolvePageLimits({})
+    ) => {
       stagehand.log({
         category: "debug",
         message: "Starting extraction for Carwow",
       });
 
-      // Check if model filter was applied successfully
-      // If not, return empty array gracefully instead of failing
-      if ((page as any)._carwowModelApplied === false) {
-        stagehand.log({
-          category: "warn",
-          message:
-            "Search was not executed due to unavailable model. Returning 0 results gracefully.",
-        });
-        return [];
-      }
+      // Listings responses recorded since the filters were applied
+      const capture =
+        captures.get(page) ??
+        captureListings(page, isListingsUrl, carwowListingsSchema);
 
-      // Find all car listing cards on the page
-      const cards = await page.$$(
-        'div.listings__list-item[data-listings-target="listing"]'
-      );
-      const carData = [];
+      try {
+        // Check if model filter was applied successfully
+        // If not, return empty array gracefully instead of failing
+        if ((page as any)._carwowModelApplied === false) {
+          stagehand.log({
+            category: "warn",
+            message:
+              "Search was not executed due to unavailable model. Returning 0 results gracefully.",
+          });
+          return { cars: [] };
+        }
 
-      // Iterate through each car card and extract relevant information
-      for (const card of cards) {
-        try {
-          // Extract car URL from the card link
-          const url = await card.$eval("a.listing-card-component", (a: any) =>
-            a.getAttribute("href")
-          );
+        // Find the car listing cards of the pages the caps allow
+        const { cards, ...pagesRead } = await readScrolledPages(
+          page,
+          'div.listings__list-item[data-listings-target="listing"]',
+          limits,
+          signal,
+          onPage
+        );
 
-          // Extract car image URL (with fallback to empty string if not found)
-          let imageUrl = "";
-          try {
-            imageUrl = await card.$eval(
-              ".swiper-slide img",
-              (img: any) => img.src
-            );
-          } catch {
-            // imageUrl remains "" if image extraction fails
+        // The listings responses give the cars when the page fetched one for
+        // every page read. Each filter clicked refetches the first page, so
+        // only the responses for the search of the last one count, each as
+        // the page its query asks for; a page fetched again replaces the
+        // earlier copy
+        const responses = await capture.responses();
+        const settled = responses[responses.length - 1];
+        const pages = new Map<number, CarwowListings>();
+        for (const { url, payload } of responses) {
+          if (searchOf(url) === searchOf(settled.url)) {
+            pages.set(pageOf(url), payload);
           }
-
-          // Extract car title/name
-          const title = await card.$eval(
-            ".listing-card-component__make_and_model",
-            (el: any) => el.textContent?.trim() || ""
-          );
-
-          // Extract car price
-          const price = await card.$eval(
-            ".listing-card-price-component__price",
-            (el: any) => el.textContent?.trim() || ""
-          );
-
-          // Extract registration number (clean up multi-line text)
-          const regRaw = await card.$eval(
-            ".listing-card-license-plate-component__value",
-            (el: any) => el.textContent?.trim() || ""
-          );
-          const reg = regRaw.split("\n")[0].trim();
-
-          // Extract dealer location/delivery distance
-          const location = await card.$eval(
-            ".listing-card-distance-component__value",
-            (el: any) => el.textContent?.trim() || ""
-          );
-
-          // Extract mileage from the badges section (looks for numeric values that are likely mileage)
-          const mileage = await card.$$eval(
-            ".listing-card-component__badge",
-            (badges: any[]) => {
-              const mileageBadge = badges.find((badge) => {
-                const text = badge.textContent?.trim() || "";
-                // Look for numeric values that are likely mileage (4 digits or less, no text)
-                // Look for numeric values that are likely mileage
-                const numValue = parseInt(text.replace(/,/g, ""));
-                return (
-                  numValue >= 1000 &&
-                  numValue <= 200000 &&
-                  // Ensure it has a comma for values over 1,000 (Carwow format)
-                  (numValue < 1000 || text.includes(","))
-                );
-              });
-              return mileageBadge ? mileageBadge.textContent.trim() : "";
+        }
+        const pageNumbers = Array.from(
+          { length: pagesRead.lastPage - limits.startPage + 1 },
+          (_, index) => limits.startPage + index
+        );
+        if (
+          pages.size > 0 &&
+          pageNumbers.every((number) => pages.has(number))
+        ) {
+          // A car fetched twice (e.g. on a refetch) is listed once
+          const listings = new Map<number, CarwowListing>();
+          let lastPageStart = 0;
+          for (const number of pageNumbers) {
+            lastPageStart = listings.size;
+            for (const listing of pages.get(number)!.listings) {
+              if (!listings.has(listing.id)) listings.set(listing.id, listing);
             }
+          }
+          const carData = [...listings.values()].map(readCarwowListing);
+          console.log(
+            `📡 [Carwow] ${carData.length} cars read from the listings responses of pages ${limits.startPage}-${pagesRead.lastPage}`
           );
-
-          // Create standardized car object and add to results array
-          carData.push({
-            url: url?.startsWith("/")
-              ? `https://dealers.carwow.co.uk${url}`
-              : url,
-            imageUrl,
-            title,
-            price: price,
-            location,
-            registration: reg,
-            mileage,
-            source: "CarWow",
-            timestamp: new Date().toISOString(),
-          });
-        } catch (err) {
-          // Log warning and continue with next card if extraction fails for one
-          stagehand.log({
-            category: "warn",
-            message: "Skipping a card due to error: " + err,
+          return finishPages(carData, limits, {
+            ...pagesRead,
+            lastPageStart,
+            totalAvailable: settled.payload.meta.total_count,
           });
         }
-      }
 
-      // Return the extracted car data array
-      return carData;
+        // Without a response for each page read, read the cards themselves
+        console.log(
+          `⚠️ [Carwow] ${pages.size} usable listings responses for pages ${limits.startPage}-${pagesRead.lastPage}, reading ${cards.length} cards from the page`
+        );
+        const carData = [];
+        for (const card of cards) {
+          throwIfCancelled(signal);
+          try {
+            // Extract car URL from the card link
+            const url = await card.$eval("a.listing-card-component", (a: any) =>
+              a.getAttribute("href")
+            );
+
+            // Create standardized car object and add to results array
+            carData.push({
+              url: url?.startsWith("/")
+                ? `https://dealers.carwow.co.uk${url}`
+                : url,
+              ...(await readCarwowCard(card)),
+              source: "CarWow",
+              timestamp: new Date().toISOString(),
+            });
+          } catch (err) {
+            // Log warning and continue with next card if extraction fails for one
+            stagehand.log({
+              category: "warn",
+              message: "Skipping a card due to error: " + err,
+            });
+          }
+        }
+
+        // Return the extracted car data
+        return finishPages(carData, limits, pagesRead);
+      } finally {
+        capture.stop();
+        captures.delete(page);
+      }
     },
   };
 }
+
+/**
+ * Carwow adapter metadata, discovered automatically by the site registry
+ */
+export const carwowSite = defineSite({
+  id: "carwow",
+  displayName: "Carwow",
+  credentialEnv: {
+    username: "CARWOW_USERNAME",
+    password: "CARWOW_PASSWORD",
+  },
+  useProxies: false,
+  filters: {
+    make: "exact",
+    model: "exact",
+    minPrice: "approximate",
+    maxPrice: "approximate",
+    minMileage: "approximate",
+    maxMileage: "approximate",
+    color: "ignored",
+    minAge: "exact",
+    maxAge: "exact",
+    vatQualifying: "ignored",
+  },
+  filterNotes: {
+    minPrice:
+      "Carwow filters the reserve price in bands, rounded up to the next band",
+    maxPrice:
+      "Carwow filters the reserve price in bands, rounded up to the next band",
+    minMileage: "Carwow filters mileage in 10,000 mile steps, rounded down",
+    maxMileage: "Carwow filters mileage in 10,000 mile steps, rounded down",
+    color: "Carwow has no colour filter",
+    vatQualifying: "Carwow has no VAT filter",
+  },
+  models: carwowModels,
+  // Ranges not in the mapping are picked through the model search box
+  modelsByName: true,
+  enabledByDefault: true,
+  // Signed-in users are sent from auth.carwow.co.uk back to the dealer app
+  loginSuccessUrl: /^https:\/\/(?!auth\.)[^/]*carwow\.co\.uk\//,
+  create: carwowConfig,
+});
@@ -1,15 +0,0 @@
-export const modelGroupMap: Record<string, Record<string, string>> = {
-  BMW: {
-    "M Series": "M1,M2,M3,M4,M5,M6,M8", // Multiple values for series
-  },
-  CITROEN: {
-    "DS3 / DS3c": "DS3",
-  },
-  VOLKSWAGEN: {
-    "UP!": "UP",
-  },
-  Bentley: {
-    Continental:
-      "CONTINENTAL FLYING SPUR, CONTINENTAL GT, CONTINENTAL GTC, CONTINENTAL R, CONTINENTAL SC, CONTINENTAL T",
-  },
-};
@@ -6,6 +6,15 @@ import type {
   SearchParams,
   LoginCredentials,
 } from "../../index.js";
+import { defineSite } from "./registry.js";
+import { throwIfCancelled } from "../utils/cancellation.js";
+import {
+  carsWanted,
+  finishPages,
+  lastAllowedPage,
+  resolvePageLimits,
+} from "./paging.js";
+import type { PageLimits } from "./paging.js";
 import { Response } from "playwright";
 
 /**
@@ -690,17 +699,24 @@ export function disposalnetworkConfig(stagehand: any): SiteConfig {
     /**
      * EXTRACT CARS FUNCTION
      * Extracts car data from the API response captured during filtering
-     * Handles pagination for the first 3 pages to get up to 75 results
+     * Clicks through to limits.startPage, then reads pages until the page or
+     * result cap is hit
      * No additional filtering needed - all filtering is handled in the UI
      * Returns standardized car objects with all relevant information
      */
-    extractCars: async (page: any, params?: SearchParams) => {
+    extractCars: async (
+      page: any,
+      params?: SearchParams,
+      signal?: AbortSignal,
+      onPage?: (page: number, totalPages?: number) => void,
+      limits: PageLimits = resolvePageLimits({})
+    ) => {
       // STEP 1: Check if no results should be expected (due to unavailable filter options)
       if ((page as any)._disposalnetworkNoResults === true) {
         console.log(
           "⚠️ [DisposalNetwork] No results expected due to unavailable filter options. Returning 0 results."
         );
-        return [];
+        return { cars: [] };
       }
 
       // STEP 2: Verify that required filters were applied successfully
@@ -709,7 +725,7 @@ export function disposalnetworkConfig(stagehand: any): SiteConfig {
         console.log(
           "⚠️ [DisposalNetwork] Make filter was not applied due to unavailable make. Returning 0 results gracefully."
         );
-        return [];
+        return { cars: [] };
       }
 
       // Check if model filter was applied (might have failed)
@@ -717,7 +733,7 @@ export function disposalnetworkConfig(stagehand: any): SiteConfig {
         console.log(
           "⚠️ [DisposalNetwork] Model filter was not applied due to unavailable model. Returning 0 results gracefully."
         );
-        return [];
+        return { cars: [] };
       }
 
       // STEP 3: Set up response listener for pagination
@@ -743,11 +759,19 @@ export function disposalnetworkConfig(stagehand: any): SiteConfig {
 
       page.on("response", paginationListener);
 
-      // STEP 4: Extract data from all pages (up to 3 pages)
+      // STEP 4: Extract data from the pages the caps allow. Pages before
+      // limits.startPage are clicked through without keeping their vehicles
       const allCarData: any[] = [];
-      const maxPages = 3;
-
-      for (let pageNum = 1; pageNum <= maxPages; pageNum++) {
+      const lastPage = lastAllowedPage(limits);
+      let pageSize: number | undefined; // Taken from the first page
+      let lastPageRead = limits.startPage - 1;
+      let lastPageStart = 0; // Index of the first vehicle of lastPageRead
+      let morePages = false; // Pages left after the caps, for load more
+
+      for (let pageNum = 1; pageNum <= lastPage; pageNum++) {
+        throwIfCancelled(signal);
+        const reading = pageNum >= limits.startPage;
+        if (reading) onPage?.(pageNum);
         try {
           console.log(`[DisposalNetwork] Processing page ${pageNum}...`);
 
@@ -818,18 +842,37 @@ export function disposalnetworkConfig(stagehand: any): SiteConfig {
           }
 
           // Add vehicles from this page to the total
-          allCarData.push(...data.vehicles);
-          console.log(
-            `[DisposalNetwork] Page ${pageNum}: ${data.vehicles.length} vehicles added. Total so far: ${allCarData.length}`
-          );
+          if (reading) {
+            lastPageStart = allCarData.length;
+            allCarData.push(...data.vehicles);
+            lastPageRead = pageNum;
+            console.log(
+              `[DisposalNetwork] Page ${pageNum}: ${data.vehicles.length} vehicles added. Total so far: ${allCarData.length}`
+            );
+          } else {
+            console.log(
+              `[DisposalNetwork] Page ${pageNum}: skipped, reading from page ${limits.startPage}`
+            );
+          }
 
-          // If this page has fewer than 25 vehicles, we've reached the end
-          if (data.vehicles.length < 25) {
+          // A page shorter than the first one is the last page
+          const pageLength: number = data.vehicles.length;
+          pageSize ??= pageLength;
+          if (pageLength === 0 || pageLength < pageSize) {
             console.log(
-              `[DisposalNetwork] Page ${pageNum} has fewer than 25 vehicles. Reached end of results.`
+              `[DisposalNetwork] Page ${pageNum} has ${pageLength} of ${pageSize} vehicles. Reached end of results.`
             );
             break;
           }
+
+          // Caps reached; the remaining pages are left for load more
+          if (
+            reading &&
+            (pageNum >= lastPage || allCarData.length >= carsWanted(limits))
+          ) {
+            morePages = true;
+            break;
+          }
         } catch (error) {
           console.log(
             `[DisposalNetwork] Error processing page ${pageNum}: ${error}`
@@ -880,7 +923,53 @@ export function disposalnetworkConfig(stagehand: any): SiteConfig {
       );
 
       // Return the processed and filtered car data
-      return finalCarData;
+      return finishPages(finalCarData, limits, {
+        lastPage: lastPageRead,
+        lastPageStart,
+        morePages,
+      });
     },
   };
 }
+
+/**
+ * Disposal Network adapter metadata, discovered automatically by the site registry
+ */
+export const disposalnetworkSite = defineSite({
+  id: "disposalnetwork",
+  displayName: "Disposal Network",
+  credentialEnv: {
+    username: "DISPOSALNETWORK_USERNAME",
+    password: "DISPOSALNETWORK_PASSWORD",
+  },
+  useProxies: false,
+  filters: {
+    make: "exact",
+    model: "approximate",
+    minPrice: "ignored",
+    maxPrice: "approximate",
+    minMileage: "ignored",
+    maxMileage: "approximate",
+    color: "exact",
+    minAge: "ignored",
+    maxAge: "approximate",
+    vatQualifying: "ignored",
+  },
+  filterNotes: {
+    model: "DisposalNetwork selects every range whose name contains the model",
+    minPrice: "DisposalNetwork only filters on a maximum price",
+    maxPrice:
+      'DisposalNetwork uses "Up to" price bands, so the maximum is rounded up',
+    minMileage: "DisposalNetwork only filters on a maximum mileage",
+    maxMileage:
+      'DisposalNetwork uses "Up to" mileage bands, so the maximum is rounded up',
+    minAge: "DisposalNetwork only filters on a maximum age",
+    maxAge:
+      'DisposalNetwork uses "Up to" age bands, so the maximum is rounded up',
+    vatQualifying: "DisposalNetwork has no VAT filter",
+  },
+  enabledByDefault: true,
+  // Signed-in users leave the /app/login page
+  loginSuccessUrl: /^https:\/\/disposalnetwork\.1link\.co\.uk\/(?!.*\/login)/,
+  create: disposalnetworkConfig,
+});
@@ -0,0 +1,80 @@
+// Filter capability matrix
+// Sites filter with whatever their search pages offer: URL parameters, price
+// bands, sliders or nothing at all. Each adapter declares how it honours every
+// search filter so results can say which filters a site actually applied
+import type { SearchFilter, SearchParams } from "../shared/search-params.js";
+
+/**
+ * FILTER SUPPORT
+ * - exact: the site applies the filter as requested
+ * - approximate: the site applies a nearby value, e.g. the closest price band
+ * - ignored: the site has no way to filter on the field
+ */
+export type FilterSupport = "exact" | "approximate" | "ignored";
+
+export type SiteFilters = Record<SearchFilter, FilterSupport>;
+
+/**
+ * FILTER REPORT
+ * How a site handled the filters of one search. Only filters the search set
+ * are listed; `filterNotes` explains the approximated and ignored ones where
+ * the adapter says how
+ */
+export type FilterReport = {
+  filtersApplied: SearchFilter[];
+  filtersApproximated: SearchFilter[];
+  filtersIgnored: SearchFilter[];
+  filterNotes?: Partial<Record<SearchFilter, string>>;
+};
+
+// Whether a search field narrows the results. Zero minimums and an unticked
+// VAT box leave a search as wide as leaving them out
+function isFilterSet(params: SearchParams, filter: SearchFilter): boolean {
+  const value = params[filter];
+  if (value === undefined) return false;
+  if (typeof value === "string") return value.trim() !== "";
+  if (typeof value === "boolean") return value;
+  return !(value === 0 && filter.startsWith("min"));
+}
+
+/**
+ * REPORT FILTERS
+ * Sorts the filters a search set by how the site honours them
+ */
+export function reportFilters(
+  site: {
+    filters: SiteFilters;
+    filterNotes?: Partial<Record<SearchFilter, string>>;
+  },
+  params: SearchParams
+): FilterReport {
+  const report: FilterReport = {
+    filtersApplied: [],
+    filtersApproximated: [],
+    filtersIgnored: [],
+  };
+  const notes: Partial<Record<SearchFilter, string>> = {};
+
+  for (const filter of Object.keys(site.filters) as SearchFilter[]) {
+    if (!isFilterSet(params, filter)) continue;
+    const support = site.filters[filter];
+    if (support === "exact") {
+      report.filtersApplied.push(filter);
+      continue;
+    }
+    if (support === "approximate") report.filtersApproximated.push(filter);
+    else report.filtersIgnored.push(filter);
+    const note = site.filterNotes?.[filter];
+    if (note) notes[filter] = note;
+  }
+
+  if (Object.keys(notes).length > 0) report.filterNotes = notes;
+  return report;
+}
+
+// Filters a site can narrow a search with, exactly or not
+export function supportedFilters(filters: SiteFilters): SearchFilter[] {
+  return (Object.keys(filters) as SearchFilter[]).filter(
+    (filter) => filters[filter] !== "ignored"
+  );
+}
@@ -0,0 +1,86 @@
+// Listings read from a site's own JSON
+// Results pages style their cards with CSS-module classes that are renamed on
+// every front-end deploy ("VRM_vrm__N4w4Q"), while the listings endpoint the
+// page loads its results from keeps its schema across redesigns. This helper
+// records the responses of that one endpoint while the page loads and scrolls
+// its results, so adapters can build their cars from the payloads and read
+// the cards only when no payload arrived. The endpoints are not documented, so
+// each payload is checked against the schema its adapter expects, kept in step
+// with the sample responses in src/sites/samples
+import type { z } from "zod";
+
+/**
+ * LISTING RESPONSE
+ * A response of a listings endpoint: the URL it was fetched from, whose query
+ * holds the search and page, and its parsed body
+ */
+export type ListingResponse<T> = {
+  url: URL;
+  payload: T;
+};
+
+/**
+ * LISTING CAPTURE
+ * Responses of a site's listings endpoint recorded from a page
+ * - responses: the responses received so far, in the order they arrived;
+ *   waits for responses still being read. A scrolled list fetches one
+ *   response per page it loads
+ * - stop: stops recording
+ */
+export type ListingCapture<T> = {
+  responses: () => Promise<ListingResponse<T>[]>;
+  stop: () => void;
+};
+
+/**
+ * CAPTURE LISTINGS
+ * Starts recording the successful JSON responses of the page whose URL
+ * `isListingsUrl` accepts. Start it before the page loads its results.
+ * A response that does not match `schema` is logged and left out, since it
+ * means the site changed its endpoint and the adapter reads its cards instead
+ */
+export function captureListings<T>(
+  page: any,
+  isListingsUrl: (url: URL) => boolean,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): ListingCapture<T> {
+  const pending: Promise<ListingResponse<T> | null>[] = [];
+
+  const listener = (response: any) => {
+    const contentType: string = response.headers()["content-type"] ?? "";
+    const url = new URL(response.url());
+    if (
+      response.status() !== 200 ||
+      !contentType.includes("json") ||
+      !isListingsUrl(url)
+    ) {
+      return;
+    }
+    pending.push(
+      response.json().then(
+        (body: unknown) => {
+          const parsed = schema.safeParse(body);
+          if (parsed.success) return { url, payload: parsed.data };
+          console.error(
+            `❌ [Listings] Response of ${url} does not match its schema, ignoring it: ${parsed.error.issues
+              .slice(0, 5)
+              .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+              .join("; ")}`
+          );
+          return null;
+        },
+        // The body of a response the page navigated away from is gone
+        () => null
+      )
+    );
+  };
+
+  page.on("response", listener);
+  return {
+    responses: async () =>
+      (await Promise.all(pending)).filter(
+        (response) => response !== null
+      ) as ListingResponse<T>[],
+    stop: () => page.off("response", listener),
+  };
+}
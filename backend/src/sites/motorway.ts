@@ -4,7 +4,151 @@ import type {
   SearchParams,
   LoginCredentials,
 } from "../../index.ts";
-import { getMotorwayModelName } from "./motorway/model-groups.js";
+import { defineSite } from "./registry.js";
+import { throwIfCancelled } from "../utils/cancellation.js";
+import { finishPages, readScrolledPages, resolvePageLimits } from "./paging.js";
+import type { PageLimits } from "./paging.js";
+import { captureListings } from "./intercept.js";
+import type { ListingCapture } from "./intercept.js";
+import { z } from "zod";
+import { canonicalMake } from "../vehicles/normalize.js";
+import { findSiteModel } from "../catalog/catalog.js";
+import { motorwayModels } from "../catalog/motorway.js";
+
+// The results page fetches each scroll of vehicles from this endpoint, with
+// the page's search (including its listType) as the query
+const MOTORWAY_LISTINGS_URL = "https://pro.motorway.co.uk/api/vehicles";
+
+/**
+ * MOTORWAY VEHICLE
+ * A vehicle in a response of the listings endpoint. `displayPrice` is the
+ * price its card shows; the seller's reserve is not part of a listing. The
+ * fuel, gearbox, body and colour are left off the cards
+ */
+const motorwayVehicleSchema = z.object({
+  id: z.number(),
+  vrm: z.string(),
+  make: z.string(),
+  model: z.string(),
+  derivative: z.string().optional(),
+  year: z.number().optional(),
+  mileage: z.number().optional(),
+  displayPrice: z.number(),
+  imageUrl: z.string().optional(),
+  location: z.string().optional(),
+  fuel: z.string().optional(),
+  transmission: z.string().optional(),
+  bodyType: z.string().optional(),
+  colour: z.string().optional(),
+});
+type MotorwayVehicle = z.infer<typeof motorwayVehicleSchema>;
+
+// One response of the listings endpoint: a page of vehicles and the number
+// matching the search. Checked against src/sites/samples/motorway-vehicles.json
+export const motorwayListingsSchema = z.object({
+  vehicles: z.array(motorwayVehicleSchema),
+  total: z.number(),
+});
+type MotorwayListings = z.infer<typeof motorwayListingsSchema>;
+
+const isListingsUrl = (url: URL) =>
+  `${url.origin}${url.pathname}` === MOTORWAY_LISTINGS_URL;
+
+// A vehicle of the listings endpoint in the raw car shape adapters return
+function readMotorwayVehicle(vehicle: MotorwayVehicle, listType: string) {
+  return {
+    url: `https://pro.motorway.co.uk/vehicles/${vehicle.id}`,
+    imageUrl: vehicle.imageUrl || "",
+    title: [vehicle.make, vehicle.model, vehicle.derivative]
+      .filter(Boolean)
+      .join(" "),
+    price: vehicle.displayPrice,
+    location: vehicle.location || "",
+    registration: vehicle.vrm,
+    mileage: vehicle.mileage,
+    // Under the name the other sites use, so cross-site duplicates match
+    make: canonicalMake(vehicle.make) ?? vehicle.make,
+    model: vehicle.model,
+    year: vehicle.year,
+    fuelType: vehicle.fuel,
+    transmission: vehicle.transmission,
+    bodyType: vehicle.bodyType,
+    colour: vehicle.colour,
+    source: "Motorway",
+    listType: listType, // Add the list type to distinguish auction vs buy it now
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * Reads a vehicle card's details from the page, used when no listings
+ * response was captured. Relies on Motorway's CSS-module class names, which
+ * change when Motorway deploys
+ */
+async function readMotorwayCard(card: any) {
+  // Extract car image URL using Motorway's specific CSS class
+  const imageUrl = await card.$eval(
+    "img.VehicleCardView_vehicleListCardImage__C7eI5",
+    (img: any) => img.src
+  );
+
+  // Extract car title/name from the vehicle info bar
+  const title = await card.$eval(
+    "section.VehicleCardView_vehicleInfoBar__sfz8Q h4",
+    (el: any) => el.textContent?.trim() || ""
+  );
+
+  // Extract car price using Motorway's price CSS class
+  const price = await card.$eval(
+    ".VehiclePrice_price__7z4xe",
+    (el: any) => el.textContent?.trim() || ""
+  );
+
+  // Extract registration number using Motorway's VRM CSS class
+  const reg = await card.$eval(
+    ".VRM_vrm__N4w4Q",
+    (el: any) => el.textContent?.trim() || ""
+  );
+
+  // Extract location from the distance badge (looks for "mi away" text)
+  const location = await card.$$eval(
+    ".IconText_iconText__I_Q7L",
+    (els: any[]) => {
+      const el = els.find(
+        (e) => e.textContent && e.textContent.includes("mi away")
+      );
+      return el ? el.textContent.trim() : "";
+    }
+  );
+
+  // Extract mileage from the details list (looks for text ending with "mi" but not "away")
+  const mileage = await card.$$eval(
+    ".VehicleCardView_detailsList__2q2lF li",
+    (els: any[]) => {
+      const mileageEl = els.find(
+        (e) =>
+          e.textContent &&
+          e.textContent.includes("mi") &&
+          !e.textContent.includes("away")
+      );
+      return mileageEl ? mileageEl.textContent.trim() : "";
+    }
+  );
+
+  // Convert mileage string to number (remove "mi" and commas)
+  const mileageNumber = mileage
+    ? parseFloat(mileage.replace(/[mi,]/g, "")) || 0
+    : 0;
+
+  return {
+    imageUrl,
+    title,
+    price: parseFloat(price.replace(/[£,]/g, "")) || 0, // Convert price string to number
+    location,
+    registration: reg,
+    mileage: mileageNumber, // Use converted mileage number
+  };
+}
 
 /**
  * Motorway Site Configuration
@@ -41,38 +185,41 @@ export function motorwayConfig(stagehand: any): SiteConfig {
 
         // STEP 2: Handle model parameter (optional, but requires make)
         if (params.model) {
-          // Use the Motorway model mapping to get the correct model name(s)
-          // This handles cases where models need to be translated to Motorway's expected format
-          const motorwayModelName = getMotorwayModelName(
+          // Use the catalogue mapping to get Motorway's model name(s); unmapped
+          // models go in upper case, Motorway's default format
+          const motorwayModel = findSiteModel(
+            motorwayModels,
             params.make,
             params.model
-          );
+          ) ?? [params.model.toUpperCase()];
           console.log(
-            `Motorway model mapping: "${params.model}" -> "${motorwayModelName}"`
+            `Motorway model mapping: "${params.model}" -> "${motorwayModel}"`
           );
 
-          // STEP 3: Handle both string and array model names
-          if (Array.isArray(motorwayModelName)) {
-            // For array models (like Lexus IS), we need to create multiple make/model pairs
+          // STEP 3: Handle unsupported, single and multiple model names
+          if (motorwayModel === "unsupported") {
+            console.log(
+              `⚠️ [Motorway] No model filter for ${params.make} ${params.model}, searching the whole make`
+            );
+          } else if (motorwayModel.length > 1) {
+            // For several models (like Lexus IS), we need to create multiple make/model pairs
             // Motorway expects: make=lexus&model=RX200&make=lexus&model=RX300&make=lexus&model=RX350...
-            const makeLowerCase = params.make.toLowerCase();
-
             // Clear the existing searchParams and rebuild with multiple make/model pairs
             searchParams.delete("make");
             searchParams.delete("model");
 
-            motorwayModelName.forEach((model) => {
-              searchParams.append("make", makeLowerCase);
+            motorwayModel.forEach((model) => {
+              searchParams.append("make", makeForUrl);
               searchParams.append("model", model);
             });
 
             console.log(
-              `Multiple models for search: ${motorwayModelName.join(", ")}`
+              `Multiple models for search: ${motorwayModel.join(", ")}`
             );
             console.log(`Search params structure: ${searchParams.toString()}`);
           } else {
             // For single model names, simply set the model parameter
-            searchParams.set("model", motorwayModelName);
+            searchParams.set("model", motorwayModel[0]);
           }
         }
       } else {
@@ -112,23 +259,6 @@ export function motorwayConfig(stagehand: any): SiteConfig {
         Object.fromEntries(searchParams.entries())
       );
 
-      // STEP 6: Debug output for multiple model scenarios
-      // For debugging: show the actual parameter structure
-      if (params.make && params.model) {
-        const motorwayModelName = getMotorwayModelName(
-          params.make,
-          params.model
-        );
-        if (Array.isArray(motorwayModelName)) {
-          console.log("Multiple model search structure:");
-          motorwayModelName.forEach((model, index) => {
-            console.log(
-              `  make[${index}]: ${params.make!.toLowerCase()}, model[${index}]: ${model}`
-            );
-          });
-        }
-      }
-
       return finalUrl;
     },
 
@@ -208,10 +338,19 @@ export function motorwayConfig(stagehand: any): SiteConfig {
      * Extracts car data from both Motorway auction and buy it now listings
      * Navigates to both list types and combines results
      * Uses the current page URL (which should have search parameters) and modifies listType
-     * Parses individual vehicle cards to extract details like price, title, location, etc.
-     * Uses Motorway's specific CSS class selectors for data extraction
+     * Builds the cars from the listings endpoint responses the page fetched,
+     * and reads the vehicle cards with Motorway's CSS class selectors only
+     * when no response was captured
+     * The list loads more cards as it scrolls, each scroll counting as a page
+     * towards the caps
      */
-    extractCars: async (page: any) => {
+    extractCars: async (
+      page: any,
+      params?: SearchParams,
+      signal?: AbortSignal,
+      onPage?: (page: number, totalPages?: number) => void,
+      limits: PageLimits = resolvePageLimits({})
+    ) => {
       stagehand.log({
         category: "debug",
         message:
@@ -233,9 +372,18 @@ export function motorwayConfig(stagehand: any): SiteConfig {
       });
 
       const allCarData = [];
-
-      // Helper function to extract cars from a specific page
-      const extractCarsFromPage = async (page: any, listType: string) => {
+      let lastPage = limits.startPage;
+      let morePages = false; // Pages left after the caps, for load more
+      let lastPageStart = 0; // Index of the first car of lastPage
+      let totalAvailable: number | undefined;
+
+      // Helper function to extract cars from a specific page, given the
+      // listings responses recorded while it loaded
+      const extractCarsFromPage = async (
+        page: any,
+        listType: string,
+        capture: ListingCapture<MotorwayListings>
+      ) => {
         // Wait for page to stabilize before extraction
         await page.waitForTimeout(2000);
 
@@ -252,86 +400,70 @@ export function motorwayConfig(stagehand: any): SiteConfig {
           return [];
         }
 
-        // Find all vehicle cards using Motorway's specific selector pattern
-        // Cards have IDs that start with "vehicle_card_"
-        const cards = await page.$$('a[id^="vehicle_card_"]');
+        // Find the vehicle cards of the pages the caps allow, using Motorway's
+        // specific selector pattern. Cards have IDs that start with "vehicle_card_"
+        const scrolled = await readScrolledPages(
+          page,
+          'a[id^="vehicle_card_"]',
+          limits,
+          signal,
+          onPage
+        );
+        const cards = scrolled.cards;
+        lastPage = scrolled.lastPage;
+        lastPageStart = scrolled.lastPageStart;
+        morePages = scrolled.morePages;
         stagehand.log({
           category: "debug",
           message: `Found ${cards.length} vehicle cards on ${listType} page`,
         });
-        const carData = [];
 
-        // Iterate through each vehicle card and extract relevant information
+        // The listings responses give the cars when the page fetched any:
+        // one response per scrolled page, so the pages read are the
+        // responses from startPage on. The search is in the URL the page was
+        // opened with, so every response is for it
+        const responses = (await capture.responses()).map(
+          ({ payload }) => payload
+        );
+        if (responses.length > 0) {
+          totalAvailable = responses[0].total;
+          // A vehicle fetched twice (e.g. on a refetch) is listed once
+          const vehicles = new Map<number, MotorwayVehicle>();
+          for (const response of responses.slice(
+            limits.startPage - 1,
+            lastPage
+          )) {
+            lastPageStart = vehicles.size;
+            for (const vehicle of response.vehicles) {
+              if (!vehicles.has(vehicle.id)) vehicles.set(vehicle.id, vehicle);
+            }
+          }
+          const carData = [...vehicles.values()].map((vehicle) =>
+            readMotorwayVehicle(vehicle, listType)
+          );
+          console.log(
+            `📡 [Motorway] ${carData.length} ${listType} cars read from ${responses.length} listings responses`
+          );
+          return carData;
+        }
+
+        // Without a response, read the cards themselves
+        console.log(
+          `⚠️ [Motorway] No usable listings responses captured, reading ${cards.length} ${listType} cards from the page`
+        );
+        const carData = [];
         for (const card of cards) {
+          throwIfCancelled(signal);
           try {
             // Extract car URL from the card link
             const url = await card.getAttribute("href");
 
-            // Extract car image URL using Motorway's specific CSS class
-            const imageUrl = await card.$eval(
-              "img.VehicleCardView_vehicleListCardImage__C7eI5",
-              (img: any) => img.src
-            );
-
-            // Extract car title/name from the vehicle info bar
-            const title = await card.$eval(
-              "section.VehicleCardView_vehicleInfoBar__sfz8Q h4",
-              (el: any) => el.textContent?.trim() || ""
-            );
-
-            // Extract car price using Motorway's price CSS class
-            const price = await card.$eval(
-              ".VehiclePrice_price__7z4xe",
-              (el: any) => el.textContent?.trim() || ""
-            );
-
-            // Extract registration number using Motorway's VRM CSS class
-            const reg = await card.$eval(
-              ".VRM_vrm__N4w4Q",
-              (el: any) => el.textContent?.trim() || ""
-            );
-
-            // Extract location from the distance badge (looks for "mi away" text)
-            const location = await card.$$eval(
-              ".IconText_iconText__I_Q7L",
-              (els: any[]) => {
-                const el = els.find(
-                  (e) => e.textContent && e.textContent.includes("mi away")
-                );
-                return el ? el.textContent.trim() : "";
-              }
-            );
-
-            // Extract mileage from the details list (looks for text ending with "mi" but not "away")
-            const mileage = await card.$$eval(
-              ".VehicleCardView_detailsList__2q2lF li",
-              (els: any[]) => {
-                const mileageEl = els.find(
-                  (e) =>
-                    e.textContent &&
-                    e.textContent.includes("mi") &&
-                    !e.textContent.includes("away")
-                );
-                return mileageEl ? mileageEl.textContent.trim() : "";
-              }
-            );
-
-            // Convert mileage string to number (remove "mi" and commas)
-            const mileageNumber = mileage
-              ? parseFloat(mileage.replace(/[mi,]/g, "")) || 0
-              : 0;
-
             // Create standardized car object and add to results array
             carData.push({
               url: url?.startsWith("/")
                 ? `https://pro.motorway.co.uk${url}`
                 : url,
-              imageUrl,
-              title,
-              price: parseFloat(price.replace(/[£,]/g, "")) || 0, // Convert price string to number
-              location,
-              registration: reg,
-              mileage: mileageNumber, // Use converted mileage number
+              ...(await readMotorwayCard(card)),
               source: "Motorway",
               listType: listType, // Add the list type to distinguish auction vs buy it now
               timestamp: new Date().toISOString(),
@@ -344,7 +476,6 @@ export function motorwayConfig(stagehand: any): SiteConfig {
             });
           }
         }
-
         return carData;
       };
 
@@ -393,24 +524,38 @@ export function motorwayConfig(stagehand: any): SiteConfig {
           message: `Navigating to auction URL: ${auctionUrl}`,
         });
 
-        await page.goto(auctionUrl);
-        await page.waitForLoadState("domcontentloaded");
-        await page.waitForTimeout(2000);
+        // Record the listings responses from before the page loads
+        const capture = captureListings(
+          page,
+          isListingsUrl,
+          motorwayListingsSchema
+        );
+        try {
+          await page.goto(auctionUrl);
+          await page.waitForLoadState("domcontentloaded");
+          await page.waitForTimeout(2000);
 
-        // Verify we're on the correct page
-        const currentUrl = page.url();
-        stagehand.log({
-          category: "debug",
-          message: `Current URL after navigation: ${currentUrl}`,
-        });
+          // Verify we're on the correct page
+          const currentUrl = page.url();
+          stagehand.log({
+            category: "debug",
+            message: `Current URL after navigation: ${currentUrl}`,
+          });
 
-        const auctionCars = await extractCarsFromPage(page, "auction");
-        allCarData.push(...auctionCars);
+          const auctionCars = await extractCarsFromPage(
+            page,
+            "auction",
+            capture
+          );
+          allCarData.push(...auctionCars);
 
-        stagehand.log({
-          category: "debug",
-          message: `Extracted ${auctionCars.length} cars from auction listings`,
-        });
+          stagehand.log({
+            category: "debug",
+            message: `Extracted ${auctionCars.length} cars from auction listings`,
+          });
+        } finally {
+          capture.stop();
+        }
       } catch (error) {
         stagehand.log({
           category: "warn",
@@ -469,8 +614,47 @@ export function motorwayConfig(stagehand: any): SiteConfig {
         message: `Total cars extracted: ${allCarData.length}`,
       });
 
-      // Return the combined car data array
-      return allCarData;
+      // Return the combined car data
+      return finishPages(allCarData, limits, {
+        lastPage,
+        lastPageStart,
+        morePages,
+        totalAvailable,
+      });
     },
   };
 }
+
+/**
+ * Motorway adapter metadata, discovered automatically by the site registry
+ */
+export const motorwaySite = defineSite({
+  id: "motorway",
+  displayName: "Motorway",
+  credentialEnv: {
+    username: "MOTORWAY_USERNAME",
+    password: "MOTORWAY_PASSWORD",
+  },
+  useProxies: false,
+  filters: {
+    make: "exact",
+    model: "exact",
+    minPrice: "exact",
+    maxPrice: "exact",
+    minMileage: "exact",
+    maxMileage: "exact",
+    color: "ignored",
+    minAge: "exact",
+    maxAge: "exact",
+    vatQualifying: "ignored",
+  },
+  filterNotes: {
+    color: "Motorway has no colour filter",
+    vatQualifying: "Motorway has no VAT filter",
+  },
+  models: motorwayModels,
+  enabledByDefault: true,
+  // The same landing page the login step waits for
+  loginSuccessUrl: /^https:\/\/pro\.motorway\.co\.uk\/vehicles/,
+  create: motorwayConfig,
+});
@@ -0,0 +1,201 @@
+// Result caps and pagination
+// Sites page their results differently: BCA and CarToTrade have numbered
+// pages, DisposalNetwork loads each page through its search API, and Motorway
+// and Carwow add cards as the list scrolls. Every adapter reads from
+// `startPage` until it has read `maxPages` pages or `maxResults` cars, then
+// says where a "load more" for the site carries on from: the next page, or
+// the page the result cap cut into and how many of its cars were returned
+import type { SearchParams } from "../shared/search-params.js";
+import { throwIfCancelled } from "../utils/cancellation.js";
+
+const DEFAULT_MAX_RESULTS = 200;
+const DEFAULT_MAX_PAGES = 5;
+
+// Time for a scrolled list to load its next cards
+const SCROLL_WAIT_MS = 2_000;
+
+/**
+ * PAGE LIMITS
+ * How much of a site's results one scrape reads
+ * - maxResults: cars to read at most
+ * - maxPages: results pages to read at most
+ * - startPage: first page to read; 1 for a new search, later pages when
+ *   loading more
+ * - startOffset: cars of `startPage` already returned, skipped when loading
+ *   more from a page the result cap cut into
+ */
+export type PageLimits = {
+  maxResults: number;
+  maxPages: number;
+  startPage: number;
+  startOffset: number;
+};
+
+/**
+ * EXTRACTED CARS
+ * What a site's extractCars returns
+ * - cars: the raw records read, at most `maxResults`
+ * - totalAvailable: matches the site reports for the search, when it says
+ * - nextPage: where loading more carries on; unset when every car of the
+ *   site's results up to its last page was returned
+ * - nextOffset: cars of `nextPage` already returned, when the result cap cut
+ *   into it
+ */
+export type ExtractedCars = {
+  cars: any[];
+  totalAvailable?: number;
+  nextPage?: number;
+  nextOffset?: number;
+};
+
+// A positive whole number from an env var, or the fallback
+function envLimit(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * RESOLVE PAGE LIMITS
+ * The limits of a search: its own caps, else MAX_RESULTS_PER_SITE and
+ * MAX_PAGES_PER_SITE, else the defaults
+ */
+export function resolvePageLimits(params: Partial<SearchParams>): PageLimits {
+  return {
+    maxResults:
+      params.maxResultsPerSite ??
+      envLimit("MAX_RESULTS_PER_SITE", DEFAULT_MAX_RESULTS),
+    maxPages:
+      params.maxPagesPerSite ??
+      envLimit("MAX_PAGES_PER_SITE", DEFAULT_MAX_PAGES),
+    startPage: params.startPage ?? 1,
+    startOffset: params.startOffset ?? 0,
+  };
+}
+
+// Last page a scrape may read under its limits
+export function lastAllowedPage(limits: PageLimits): number {
+  return limits.startPage + limits.maxPages - 1;
+}
+
+// Cars to read from the start of `startPage` before the result cap is
+// reached, counting the ones of it already returned
+export function carsWanted(limits: PageLimits): number {
+  return limits.startOffset + limits.maxResults;
+}
+
+/**
+ * PAGES READ
+ * Where a site's reading stopped, for finishPages
+ * - lastPage: the last page read
+ * - lastPageStart: index in the cars read of the first car of `lastPage`
+ * - morePages: whether the site has pages after `lastPage`
+ * - totalAvailable: matches the site reports for the search, when it says
+ */
+export type PagesRead = {
+  lastPage: number;
+  lastPageStart: number;
+  morePages: boolean;
+  totalAvailable?: number;
+};
+
+/**
+ * FINISH PAGES
+ * The cars read from the start of `startPage`, less the ones of it already
+ * returned, capped at `maxResults`. When the cap cuts into the last page
+ * read, loading more carries on from that page after the cars returned, so
+ * no car is skipped and the site never counts as fully read
+ */
+export function finishPages(
+  cars: any[],
+  limits: PageLimits,
+  { lastPage, lastPageStart, morePages, totalAvailable }: PagesRead
+): ExtractedCars {
+  const end = carsWanted(limits);
+  const extracted: ExtractedCars = {
+    cars: cars.slice(limits.startOffset, end),
+    ...(totalAvailable !== undefined && { totalAvailable }),
+  };
+
+  if (cars.length > end) {
+    console.log(
+      `✂️ [Paging] Keeping ${limits.maxResults} of ${
+        cars.length - limits.startOffset
+      } cars read`
+    );
+    // Adapters stop at the page that reaches the cap, so the cut is on the
+    // last page read
+    extracted.nextPage = lastPage;
+    extracted.nextOffset = end - lastPageStart;
+  } else if (morePages) {
+    extracted.nextPage = lastPage + 1;
+  }
+  return extracted;
+}
+
+/**
+ * READ SCROLLED PAGES
+ * For results lists that load more cards as they scroll. Each scroll that
+ * loads more cards counts as a page, and cards of pages before `startPage`
+ * are skipped. Returns every card of the pages read, for finishPages to cap,
+ * where the last page's cards start and whether scrolling may load more. A
+ * list stopped at a cap is assumed to have more
+ */
+export async function readScrolledPages(
+  page: any,
+  cardSelector: string,
+  limits: PageLimits,
+  signal?: AbortSignal,
+  onPage?: (page: number) => void
+): Promise<{ cards: any[] } & PagesRead> {
+  const countCards = async (): Promise<number> =>
+    (await page.$$(cardSelector)).length;
+
+  let pageNumber = 1;
+  let pageStart = 0; // Index of the first card of the current page
+  let firstCard = 0; // Index of the first card of `startPage`
+  let loaded = await countCards();
+  let morePages = true;
+
+  for (;;) {
+    throwIfCancelled(signal);
+    if (pageNumber === limits.startPage) firstCard = pageStart;
+    if (pageNumber >= limits.startPage) {
+      onPage?.(pageNumber);
+      if (
+        pageNumber >= lastAllowedPage(limits) ||
+        loaded - firstCard >= carsWanted(limits)
+      ) {
+        break;
+      }
+    }
+
+    await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
+    await page.waitForTimeout(SCROLL_WAIT_MS);
+    const nowLoaded = await countCards();
+    if (nowLoaded <= loaded) {
+      morePages = false;
+      break;
+    }
+    pageStart = loaded;
+    loaded = nowLoaded;
+    pageNumber++;
+  }
+
+  // The list ended before the page asked for
+  if (pageNumber < limits.startPage) {
+    return {
+      cards: [],
+      lastPage: pageNumber,
+      lastPageStart: 0,
+      morePages: false,
+    };
+  }
+
+  const cards = (await page.$$(cardSelector)).slice(firstCard, loaded);
+  return {
+    cards,
+    lastPage: pageNumber,
+    lastPageStart: pageStart - firstCard,
+    morePages,
+  };
+}
@@ -0,0 +1,206 @@
+// Site adapter registry for Stagehand car search
+// Discovers every adapter exported from src/sites/* so that adding a new
+// auction house only needs a single new file in this directory
+import { readdirSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import type { SiteConfig, LoginCredentials } from "../../index.ts";
+import type { SearchFilter } from "../shared/search-params.js";
+import type { RetryPolicy } from "../utils/site-errors.js";
+import type { SiteFilters } from "./filters.js";
+import type { SiteModels } from "../catalog/catalog.js";
+
+/**
+ * SITE ADAPTER
+ * Metadata each site declares about itself alongside its SiteConfig factory
+ * - id: stable key used in requests, config and progress events
+ * - credentialEnv: env var names holding the trade account for this site
+ * - useProxies: whether the site must run on the proxy-enabled Stagehand instance
+ * - filters: whether the site applies each search filter exactly,
+ *   approximately or not at all (see src/sites/filters.ts)
+ * - filterNotes: what an approximated or ignored filter does on the site,
+ *   passed on with the site's results
+ * - models: the site's own names for catalogue models (see
+ *   src/catalog/catalog.ts); sites without it search models as named
+ * - modelsByName: whether the site finds models left out of `models` under
+ *   their catalogue name (e.g. through a model search box), so they are not
+ *   gaps in its mapping
+ * - enabledByDefault: whether the site runs when no explicit selection is made
+ * - retryPolicy: overrides the default retry policy for flaky or slow sites
+ * - loginSuccessUrl: matches the URL the browser lands on after a successful
+ *   login, checked by the credential test endpoint. Sites that declare it
+ *   also reuse stored login sessions
+ * - maxConcurrentSessions: sessions the site may have open across every
+ *   scrape in the process; defaults to SITE_MAX_SESSIONS
+ */
+export type SiteAdapter = {
+  id: string;
+  displayName: string;
+  credentialEnv: {
+    username: string;
+    password: string;
+  };
+  useProxies: boolean;
+  filters: SiteFilters;
+  filterNotes?: Partial<Record<SearchFilter, string>>;
+  models?: SiteModels;
+  modelsByName?: boolean;
+  enabledByDefault: boolean;
+  retryPolicy?: Partial<RetryPolicy>;
+  loginSuccessUrl?: RegExp;
+  maxConcurrentSessions?: number;
+  create: (stagehand: any) => SiteConfig;
+};
+
+/**
+ * UNKNOWN SITE ERROR
+ * Thrown when a caller asks for site ids that no adapter provides
+ */
+export class UnknownSiteError extends Error {
+  unknownSites: string[];
+
+  constructor(unknownSites: string[]) {
+    super(`Unknown site(s): ${unknownSites.join(", ")}`);
+    this.name = "UnknownSiteError";
+    this.unknownSites = unknownSites;
+  }
+}
+
+/**
+ * DEFINE SITE
+ * Identity helper so adapter modules get type checking on their metadata
+ */
+export function defineSite(adapter: SiteAdapter): SiteAdapter {
+  return adapter;
+}
+
+// Modules in this directory that are not site adapters
+const NON_ADAPTER_MODULES = ["registry", "filters", "paging", "intercept"];
+
+let discoveredAdapters: Promise<SiteAdapter[]> | null = null;
+
+function isSiteAdapter(value: unknown): value is SiteAdapter {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    typeof (value as SiteAdapter).id === "string" &&
+    typeof (value as SiteAdapter).create === "function"
+  );
+}
+
+/**
+ * DISCOVER SITE ADAPTERS
+ * Imports every module in src/sites (works for both .ts via tsx and compiled .js)
+ * and collects any exported SiteAdapter. The result is cached for the process lifetime
+ */
+export function discoverSiteAdapters(): Promise<SiteAdapter[]> {
+  if (!discoveredAdapters) {
+    discoveredAdapters = (async () => {
+      const sitesDir = dirname(fileURLToPath(import.meta.url));
+      const moduleFiles = readdirSync(sitesDir).filter(
+        (file) =>
+          /\.(ts|js)$/.test(file) &&
+          !file.endsWith(".d.ts") &&
+          !NON_ADAPTER_MODULES.includes(file.replace(/\.(ts|js)$/, ""))
+      );
+
+      const adapters: SiteAdapter[] = [];
+      for (const file of moduleFiles) {
+        const moduleExports = await import(
+          pathToFileURL(join(sitesDir, file)).href
+        );
+        for (const value of Object.values(moduleExports)) {
+          if (!isSiteAdapter(value)) continue;
+          if (adapters.some((adapter) => adapter.id === value.id)) {
+            throw new Error(
+              `Duplicate site adapter id "${value.id}" in ${file}`
+            );
+          }
+          adapters.push(value);
+        }
+      }
+
+      console.log(
+        `🧩 [Registry] Discovered ${adapters.length} site adapters: ${adapters
+          .map((adapter) => adapter.id)
+          .join(", ")}`
+      );
+      return adapters;
+    })();
+  }
+  return discoveredAdapters;
+}
+
+// Parse a comma separated list of site ids from an env var
+function parseSiteList(value: string | undefined): string[] | undefined {
+  if (!value || !value.trim()) return undefined;
+  return value
+    .split(",")
+    .map((site) => site.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * RESOLVE SITES
+ * Picks the adapters to run for a scrape
+ * - Explicitly requested sites win over the configured defaults
+ * - ENABLED_SITES (comma separated) replaces each adapter's enabledByDefault flag
+ * - DISABLED_SITES (comma separated) always removes a site, even if requested
+ * Unknown site ids throw so callers can surface a clear error
+ */
+export async function resolveSites(
+  requested?: string[]
+): Promise<SiteAdapter[]> {
+  const adapters = await discoverSiteAdapters();
+  const enabledByConfig = parseSiteList(process.env.ENABLED_SITES);
+  const disabledByConfig = parseSiteList(process.env.DISABLED_SITES) || [];
+
+  let selected: SiteAdapter[];
+  if (requested && requested.length > 0) {
+    const wanted = requested.map((site) => site.trim().toLowerCase());
+    const unknown = wanted.filter(
+      (id) => !adapters.some((adapter) => adapter.id === id)
+    );
+    if (unknown.length > 0) {
+      throw new UnknownSiteError(unknown);
+    }
+    selected = adapters.filter((adapter) => wanted.includes(adapter.id));
+  } else if (enabledByConfig) {
+    selected = adapters.filter((adapter) =>
+      enabledByConfig.includes(adapter.id)
+    );
+  } else {
+    selected = adapters.filter((adapter) => adapter.enabledByDefault);
+  }
+
+  return selected.filter((adapter) => !disabledByConfig.includes(adapter.id));
+}
+
+/**
+ * CREATE SITE CONFIG
+ * Builds the SiteConfig for an adapter, keeping name and proxy settings in
+ * sync with the adapter metadata
+ */
+export function createSiteConfig(
+  adapter: SiteAdapter,
+  stagehand: any
+): SiteConfig {
+  return {
+    ...adapter.create(stagehand),
+    name: adapter.id,
+    useProxies: adapter.useProxies,
+    retryPolicy: adapter.retryPolicy,
+    loginSuccessUrl: adapter.loginSuccessUrl,
+  };
+}
+
+/**
+ * GET ENV CREDENTIALS
+ * Reads the trade account for a site from the env vars its adapter declares
+ */
+export function getEnvCredentials(adapter: SiteAdapter): LoginCredentials {
+  return {
+    username: process.env[adapter.credentialEnv.username] || "",
+    password: process.env[adapter.credentialEnv.password] || "",
+  };
+}
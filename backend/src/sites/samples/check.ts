@@ -0,0 +1,36 @@
+// Listings payload check
+// Parses the sample responses in this directory with the schemas the adapters
+// check captured listings responses against. The samples are only as good as
+// their last capture: when a site changes its endpoint, save a fresh response
+// from the browser's network tab over its sample and run this again before
+// changing the schema
+// Usage: npm run listings:check
+import { readFileSync } from "node:fs";
+import type { z } from "zod";
+import { carwowListingsSchema } from "../carwow.js";
+import { motorwayListingsSchema } from "../motorway.js";
+
+const samples: { file: string; schema: z.ZodTypeAny }[] = [
+  { file: "carwow-listings.json", schema: carwowListingsSchema },
+  { file: "motorway-vehicles.json", schema: motorwayListingsSchema },
+];
+
+let failures = 0;
+for (const { file, schema } of samples) {
+  const body = JSON.parse(readFileSync(new URL(file, import.meta.url), "utf8"));
+  const parsed = schema.safeParse(body);
+  if (parsed.success) {
+    console.log(`✅ ${file}`);
+    continue;
+  }
+  failures++;
+  console.log(`❌ ${file}`);
+  for (const issue of parsed.error.issues) {
+    console.log(`   ${issue.path.join(".")}: ${issue.message}`);
+  }
+}
+
+console.log(
+  `\n🏁 [Listings] ${failures} of ${samples.length} samples failed their schema`
+);
+process.exit(failures > 0 ? 1 : 0);
@@ -0,0 +1,31 @@
+// Server-side Supabase client
+// Uses the service role key so background work (alerts, per-user settings)
+// can read rows for every user. Never expose this key to the frontend
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
+
+let adminClient: SupabaseClient | null = null;
+
+export function isSupabaseConfigured(): boolean {
+  return !!process.env.SUPABASE_URL && !!process.env.SUPABASE_SERVICE_ROLE_KEY;
+}
+
+/**
+ * GET SUPABASE ADMIN
+ * Lazily creates the service role client from SUPABASE_URL and
+ * SUPABASE_SERVICE_ROLE_KEY
+ */
+export function getSupabaseAdmin(): SupabaseClient {
+  if (!adminClient) {
+    const url = process.env.SUPABASE_URL;
+    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+    if (!url || !serviceRoleKey) {
+      throw new Error(
+        "SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set to use Supabase"
+      );
+    }
+    adminClient = createClient(url, serviceRoleKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+  }
+  return adminClient;
+}
@@ -1,3 +1,5 @@
+import type { VehicleHistorySummary } from "../history/types.js";
+
 export interface CarData {
   url: string;
   imageUrl: string;
@@ -19,4 +21,5 @@ export interface CarData {
 export interface StandardizedCarData extends CarData {
   source: string; // The name of the site where this car was found
   timestamp: string; // When this data was scraped
+  history?: VehicleHistorySummary; // Price and status history, once recorded
 }
@@ -1,15 +1,5 @@
-export type SearchParams = {
-  make?: string;
-  model?: string;
-  minPrice?: number;
-  maxPrice?: number;
-  minMileage?: number;
-  maxMileage?: number;
-  color?: string;
-  minAge?: number; // in years
-  maxAge?: number; // in years
-  vatQualifying?: boolean; // VAT qualification filter
-};
+// Search parameters are validated by the schema shared with the frontend
+export type { SearchParams } from "../shared/search-params.js";
 
 export type LoginCredentials = {
   username: string;
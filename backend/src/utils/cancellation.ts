@@ -0,0 +1,46 @@
+// Cooperative cancellation for scrapes
+// scrapeAllSites receives an AbortSignal; site adapters call throwIfCancelled
+// between expensive steps (page loads, LLM calls) so a cancelled scrape stops
+// spending proxy bandwidth and LLM credits as soon as possible
+
+/**
+ * SCRAPE CANCELLED ERROR
+ * Thrown when the AbortSignal passed to a scrape has been triggered
+ */
+export class ScrapeCancelledError extends Error {
+  constructor(message = "Scrape was cancelled") {
+    super(message);
+    this.name = "ScrapeCancelledError";
+  }
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new ScrapeCancelledError();
+  }
+}
+
+/**
+ * Waits for `ms`, rejecting with ScrapeCancelledError as soon as the signal
+ * is triggered so a cancelled scrape never sits out a retry delay
+ */
+export function waitUnlessCancelled(
+  ms: number,
+  signal?: AbortSignal
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ScrapeCancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ScrapeCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
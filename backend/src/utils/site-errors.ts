@@ -0,0 +1,163 @@
+// Classified site failures and the retry policy built on them
+// processSite retries transient failures (timeouts, proxy drops, empty result
+// pages) on a fresh page with exponential backoff, and reports the final
+// failure class so the UI can show "BCA: login failed" instead of silence
+
+export type SiteErrorKind =
+  | "auth"
+  | "selector"
+  | "navigation_timeout"
+  | "network"
+  | "zero_results"
+  | "unknown";
+
+// The step of processSite an error was thrown from
+export type ScrapePhase =
+  | "setup"
+  | "login"
+  | "navigation"
+  | "filters"
+  | "extraction";
+
+/**
+ * SITE ERROR
+ * A site failure with its classification attached
+ */
+export class SiteError extends Error {
+  kind: SiteErrorKind;
+  phase?: ScrapePhase;
+
+  constructor(kind: SiteErrorKind, message: string, phase?: ScrapePhase) {
+    super(message);
+    this.name = "SiteError";
+    this.kind = kind;
+    this.phase = phase;
+  }
+}
+
+/**
+ * SITE ERROR REPORT
+ * What the caller hears about a site that failed after its last attempt
+ */
+export type SiteErrorReport = {
+  siteName: string;
+  kind: SiteErrorKind;
+  summary: string;
+  message: string;
+  phase?: ScrapePhase;
+  attempts: number;
+  currentSite: number;
+  totalSites: number;
+};
+
+/**
+ * RETRY POLICY
+ * - maxAttempts: total attempts including the first one
+ * - baseDelayMs: wait before the first retry, doubled for each retry after
+ * - retryOn: error kinds worth another attempt
+ */
+export type RetryPolicy = {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  retryOn: SiteErrorKind[];
+};
+
+// Auth failures are never retried so a wrong password cannot lock the account
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: Number(process.env.SITE_MAX_ATTEMPTS) || 3,
+  baseDelayMs: Number(process.env.SITE_RETRY_BASE_DELAY_MS) || 2_000,
+  maxDelayMs: 30_000,
+  retryOn: ["network", "navigation_timeout", "zero_results"],
+};
+
+export function resolveRetryPolicy(overrides?: Partial<RetryPolicy>) {
+  return { ...DEFAULT_RETRY_POLICY, ...overrides };
+}
+
+const NETWORK_PATTERNS = [
+  /net::ERR_/i,
+  /ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|ENOTFOUND/,
+  /proxy/i,
+  /socket hang up/i,
+  /Target (page, context or browser )?(has been )?closed/i,
+  /browser has disconnected/i,
+];
+const SELECTOR_PATTERNS = [
+  /waiting for (selector|locator|getBy)/i,
+  /No (node|element) found/i,
+  /strict mode violation/i,
+  /could not find/i,
+];
+const NAVIGATION_PATTERNS = [
+  /Navigation timeout/i,
+  /page\.goto/i,
+  /waitForLoadState|waitForNavigation|waitForURL/i,
+];
+
+/**
+ * CLASSIFY SITE ERROR
+ * Maps a thrown error to a failure class from its message and the phase it
+ * was thrown in. Anything that goes wrong while logging in, apart from the
+ * network and page loads, counts as an auth failure
+ */
+export function classifySiteError(
+  error: unknown,
+  phase: ScrapePhase
+): SiteErrorKind {
+  if (error instanceof SiteError) return error.kind;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const isTimeout =
+    (error instanceof Error && error.name === "TimeoutError") ||
+    /timeout/i.test(message);
+
+  if (NETWORK_PATTERNS.some((pattern) => pattern.test(message))) {
+    return "network";
+  }
+  if (
+    isTimeout &&
+    NAVIGATION_PATTERNS.some((pattern) => pattern.test(message))
+  ) {
+    return "navigation_timeout";
+  }
+  if (phase === "login") return "auth";
+  if (SELECTOR_PATTERNS.some((pattern) => pattern.test(message))) {
+    return "selector";
+  }
+  if (isTimeout) {
+    return phase === "navigation" ? "navigation_timeout" : "selector";
+  }
+  return "unknown";
+}
+
+// Short description shown next to the site name, e.g. "BCA: login failed"
+export function summarizeSiteError(kind: SiteErrorKind): string {
+  switch (kind) {
+    case "auth":
+      return "login failed";
+    case "selector":
+      return "page layout not recognised";
+    case "navigation_timeout":
+      return "page took too long to load";
+    case "network":
+      return "network or proxy error";
+    case "zero_results":
+      return "no vehicles found";
+    default:
+      return "unexpected error";
+  }
+}
+
+/**
+ * Delay before retry number `attempt` (1 for the first retry): exponential
+ * backoff capped at maxDelayMs, with up to 20% jitter so sites that failed
+ * together do not retry in lockstep
+ */
+export function retryDelay(policy: RetryPolicy, attempt: number): number {
+  const delay = Math.min(
+    policy.baseDelayMs * 2 ** (attempt - 1),
+    policy.maxDelayMs
+  );
+  return Math.round(delay * (1 + Math.random() * 0.2));
+}
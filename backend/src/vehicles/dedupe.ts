@@ -0,0 +1,227 @@
+// Cross-site duplicate detection for scraped car data
+// The same car is often listed on Motorway, BCA and CarWow at once. This module
+// merges those copies into a single vehicle with one listing per source so
+// buyers can compare the price on each channel
+import type { VehicleHistorySummary } from "../history/types.js";
+import type { StandardizedCarData } from "../types/car.js";
+
+/**
+ * VEHICLE LISTING
+ * One source's copy of a vehicle inside a cluster
+ */
+export type VehicleListing = {
+  source: string;
+  price: number;
+  url: string;
+  imageUrl: string;
+  location: string;
+  mileage?: number;
+  listType?: string;
+  timestamp: string;
+  history?: VehicleHistorySummary;
+};
+
+/**
+ * VEHICLE CLUSTER
+ * A single physical vehicle merged from every listing that matched it
+ * - matchedBy: "registration" when listings share a VRM, "similarity" when
+ *   any listing was joined on title and mileage (even to listings that share
+ *   a VRM), "single" for unmatched listings
+ */
+export type VehicleCluster = {
+  id: string;
+  registration?: string;
+  title: string;
+  make?: string;
+  model?: string;
+  year?: number;
+  mileage?: number;
+  imageUrl: string;
+  listings: VehicleListing[];
+  minPrice: number;
+  maxPrice: number;
+  priceSpread: number;
+  cheapestSource: string;
+  matchedBy: "registration" | "similarity" | "single";
+};
+
+// Titles need at least this share of words in common to count as the same car
+const TITLE_SIMILARITY_THRESHOLD = 0.6;
+// Mileage readings taken on different days drift slightly between sites
+const MILEAGE_TOLERANCE_MILES = 500;
+const MILEAGE_TOLERANCE_RATIO = 0.02;
+
+/**
+ * Normalise a VRM for matching: uppercase with spaces and punctuation removed
+ * Returns undefined for placeholders such as "" or "Unknown"
+ */
+export function normalizeRegistration(
+  registration: string | undefined
+): string | undefined {
+  if (!registration) return undefined;
+  const normalized = registration.toUpperCase().replace(/[^A-Z0-9]/g, "");
+  if (normalized.length < 2 || normalized === "UNKNOWN") return undefined;
+  return normalized;
+}
+
+// Split a title into lowercase words, ignoring punctuation and single characters
+function titleTokens(title: string): Set<string> {
+  return new Set(
+    title
+      .toLowerCase()
+      .split(/[^a-z0-9.]+/)
+      .filter((token) => token.length > 1)
+  );
+}
+
+// Jaccard similarity of the word sets of two titles (0 - 1)
+function titleSimilarity(a: string, b: string): number {
+  const tokensA = titleTokens(a);
+  const tokensB = titleTokens(b);
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  let shared = 0;
+  tokensA.forEach((token) => {
+    if (tokensB.has(token)) shared++;
+  });
+  return shared / (tokensA.size + tokensB.size - shared);
+}
+
+function mileageMatches(a: number, b: number): boolean {
+  const tolerance = Math.max(
+    MILEAGE_TOLERANCE_MILES,
+    Math.max(a, b) * MILEAGE_TOLERANCE_RATIO
+  );
+  return Math.abs(a - b) <= tolerance;
+}
+
+// Fallback match for listings without a usable VRM: similar title and mileage
+function isSimilarVehicle(
+  car: StandardizedCarData,
+  other: StandardizedCarData
+): boolean {
+  if (car.mileage === undefined || other.mileage === undefined) return false;
+  if (car.make && other.make && car.make !== other.make) return false;
+  if (car.year && other.year && car.year !== other.year) return false;
+  return (
+    mileageMatches(car.mileage, other.mileage) &&
+    titleSimilarity(car.title, other.title) >= TITLE_SIMILARITY_THRESHOLD
+  );
+}
+
+function toListing(car: StandardizedCarData): VehicleListing {
+  return {
+    source: car.source,
+    price: car.price,
+    url: car.url,
+    imageUrl: car.imageUrl,
+    location: car.location,
+    mileage: car.mileage,
+    listType: car.listType,
+    timestamp: car.timestamp,
+    history: car.history,
+  };
+}
+
+// Build the merged vehicle from the listings grouped together
+function buildCluster(
+  id: string,
+  cars: StandardizedCarData[],
+  matchedBy: VehicleCluster["matchedBy"]
+): VehicleCluster {
+  const listings = cars.map(toListing).sort((a, b) => a.price - b.price);
+  const cheapest = listings[0];
+  const maxPrice = listings[listings.length - 1].price;
+
+  // Prefer the first listing that carries each detail
+  const pick = <K extends keyof StandardizedCarData>(key: K) =>
+    cars.find((car) => car[key] !== undefined && car[key] !== "")?.[key];
+
+  return {
+    id,
+    registration: pick("registration") as string | undefined,
+    title: cars.reduce(
+      (longest, car) =>
+        car.title.length > longest.length ? car.title : longest,
+      ""
+    ),
+    make: pick("make") as string | undefined,
+    model: pick("model") as string | undefined,
+    year: pick("year") as number | undefined,
+    mileage: pick("mileage") as number | undefined,
+    imageUrl: (pick("imageUrl") as string | undefined) || "",
+    listings,
+    minPrice: cheapest.price,
+    maxPrice,
+    priceSpread: maxPrice - cheapest.price,
+    cheapestSource: cheapest.source,
+    matchedBy: cars.length === 1 ? "single" : matchedBy,
+  };
+}
+
+/**
+ * CLUSTER VEHICLES
+ * Groups listings that describe the same physical vehicle
+ * 1. Listings with the same normalised registration are merged
+ * 2. Listings without a registration join the first group with a similar
+ *    title and mileage, otherwise they start a group of their own
+ * Clusters are returned cheapest first
+ */
+export function clusterVehicles(cars: StandardizedCarData[]): VehicleCluster[] {
+  const groups: {
+    key: string;
+    cars: StandardizedCarData[];
+    matchedBy: VehicleCluster["matchedBy"];
+  }[] = [];
+  const groupsByRegistration = new Map<string, (typeof groups)[number]>();
+  const unregistered: StandardizedCarData[] = [];
+
+  for (const car of cars) {
+    const registration = normalizeRegistration(car.registration);
+    if (!registration) {
+      unregistered.push(car);
+      continue;
+    }
+
+    const existing = groupsByRegistration.get(registration);
+    if (existing) {
+      existing.cars.push(car);
+    } else {
+      const group = {
+        key: `vrm:${registration}`,
+        cars: [car],
+        matchedBy: "registration" as const,
+      };
+      groupsByRegistration.set(registration, group);
+      groups.push(group);
+    }
+  }
+
+  for (const car of unregistered) {
+    const match = groups.find(
+      (group) =>
+        !group.cars.some((other) => other.source === car.source) &&
+        group.cars.some((other) => isSimilarVehicle(car, other))
+    );
+    if (match) {
+      match.cars.push(car);
+      // The weakest rule that joined a listing is the one the group rests on
+      match.matchedBy = "similarity";
+    } else {
+      groups.push({ key: `url:${car.url}`, cars: [car], matchedBy: "single" });
+    }
+  }
+
+  const clusters = groups.map((group) =>
+    buildCluster(group.key, group.cars, group.matchedBy)
+  );
+
+  const duplicates = cars.length - clusters.length;
+  if (duplicates > 0) {
+    console.log(
+      `🔗 [Dedupe] Merged ${cars.length} listings into ${clusters.length} vehicles (${duplicates} duplicates)`
+    );
+  }
+
+  return clusters.sort((a, b) => a.minPrice - b.minPrice);
+}
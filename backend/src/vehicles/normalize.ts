@@ -0,0 +1,285 @@
+// Vehicle normalisation layer for scraped car data
+// Every site adapter returns its own shape (string prices, "45,000 mi" mileage,
+// buyNowPrice, capCleanPrice...). This module coerces each record into
+// StandardizedCarData and reports the records that cannot be salvaged
+import { z } from "zod";
+import type { StandardizedCarData } from "../types/car.js";
+
+/**
+ * REJECTED CAR
+ * A scraped record that failed validation, kept so the API can report it
+ */
+export type RejectedCar = {
+  site: string;
+  reasons: string[];
+  record: {
+    title?: string;
+    url?: string;
+    registration?: string;
+  };
+};
+
+export type NormalizedSiteResults = {
+  cars: StandardizedCarData[];
+  rejected: RejectedCar[];
+};
+
+// Known makes and the spellings sites use for them, longest aliases first
+const MAKE_ALIASES: [alias: string, make: string][] = [
+  ["MERCEDES-BENZ", "Mercedes"],
+  ["MERCEDES BENZ", "Mercedes"],
+  ["MERCEDES", "Mercedes"],
+  ["LAND ROVER", "Land Rover"],
+  ["LAND-ROVER", "Land Rover"],
+  ["RANGE ROVER", "Land Rover"],
+  ["ALFA ROMEO", "Alfa Romeo"],
+  ["ASTON MARTIN", "Aston Martin"],
+  ["ROLLS-ROYCE", "Rolls-Royce"],
+  ["ROLLS ROYCE", "Rolls-Royce"],
+  ["VOLKSWAGEN", "Volkswagen"],
+  ["VW", "Volkswagen"],
+  ["AUDI", "Audi"],
+  ["BMW", "BMW"],
+  ["BENTLEY", "Bentley"],
+  ["CITROEN", "Citroen"],
+  ["CUPRA", "Cupra"],
+  ["DACIA", "Dacia"],
+  ["DS", "DS"],
+  ["FIAT", "Fiat"],
+  ["FORD", "Ford"],
+  ["HONDA", "Honda"],
+  ["HYUNDAI", "Hyundai"],
+  ["JAGUAR", "Jaguar"],
+  ["JEEP", "Jeep"],
+  ["KIA", "Kia"],
+  ["LEXUS", "Lexus"],
+  ["MAZDA", "Mazda"],
+  ["MG", "MG"],
+  ["MINI", "Mini"],
+  ["MITSUBISHI", "Mitsubishi"],
+  ["NISSAN", "Nissan"],
+  ["PEUGEOT", "Peugeot"],
+  ["POLESTAR", "Polestar"],
+  ["PORSCHE", "Porsche"],
+  ["RENAULT", "Renault"],
+  ["SEAT", "Seat"],
+  ["SKODA", "Skoda"],
+  ["SMART", "Smart"],
+  ["SUBARU", "Subaru"],
+  ["SUZUKI", "Suzuki"],
+  ["TESLA", "Tesla"],
+  ["TOYOTA", "Toyota"],
+  ["VAUXHALL", "Vauxhall"],
+  ["VOLVO", "Volvo"],
+];
+
+// Words that belong to the model name rather than the trim (e.g. "3 Series", "C Class")
+const MODEL_SUFFIXES = ["SERIES", "CLASS", "ROVER", "SPORT", "EVOQUE", "VELAR"];
+
+/**
+ * Parse a number out of site text such as "£12,995", "45,000 mi" or "12995.00"
+ * Returns undefined for empty or non-numeric values so zod reports them as missing
+ */
+export function parseNumber(value: unknown): number | undefined {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value !== "string") return undefined;
+
+  const cleaned = value.replace(/[^0-9.]/g, "");
+  if (!cleaned) return undefined;
+
+  const parsed = parseFloat(cleaned);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Canonical spelling of a make, e.g. "MERCEDES-BENZ" -> "Mercedes"
+ * Returns undefined for makes that have no known alias
+ */
+export function canonicalMake(make: string): string | undefined {
+  const upperMake = make.trim().toUpperCase().replace(/\s+/g, " ");
+  return MAKE_ALIASES.find(([alias]) => alias === upperMake)?.[1];
+}
+
+// Title-case shouty words from sites like BCA ("GOLF" -> "Golf") but keep "X5", "GTI"
+function tidyWord(word: string): string {
+  if (/^[A-Z]{4,}$/.test(word)) {
+    return word.charAt(0) + word.slice(1).toLowerCase();
+  }
+  return word;
+}
+
+/**
+ * Parse make and model from a listing title
+ * e.g. "BMW 3 SERIES 320d M Sport" -> { make: "BMW", model: "3 Series" }
+ */
+export function parseMakeModel(title: string): {
+  make?: string;
+  model?: string;
+} {
+  const upperTitle = ` ${title.toUpperCase().replace(/\s+/g, " ")} `;
+
+  for (const [alias, make] of MAKE_ALIASES) {
+    const index = upperTitle.indexOf(` ${alias} `);
+    if (index === -1) continue;
+
+    // Range Rover titles often omit "Land Rover", so the alias is the model
+    if (alias === "RANGE ROVER") {
+      return { make, model: "Range Rover" };
+    }
+
+    const rest = title
+      .trim()
+      .replace(/\s+/g, " ")
+      .slice(index + alias.length)
+      .trim()
+      .split(" ")
+      .filter((word) => !/^(19|20)\d{2}$/.test(word));
+
+    if (rest.length === 0) return { make };
+
+    const modelWords = [rest[0]];
+    if (rest[1] && MODEL_SUFFIXES.includes(rest[1].toUpperCase())) {
+      modelWords.push(rest[1]);
+    }
+    return { make, model: modelWords.map(tidyWord).join(" ") };
+  }
+
+  return {};
+}
+
+/**
+ * Parse the first registration year from a listing title or a UK registration
+ * UK age identifiers: "AB19 CDE" -> 2019 (March), "AB69 CDE" -> 2019 (September)
+ */
+export function parseYear(
+  title: string,
+  registration: string
+): number | undefined {
+  const currentYear = new Date().getFullYear();
+
+  const titleYear = title.match(/\b(19[89]\d|20\d{2})\b/);
+  if (titleYear) {
+    const year = parseInt(titleYear[1]);
+    if (year <= currentYear + 1) return year;
+  }
+
+  const ageIdentifier = registration
+    .replace(/\s/g, "")
+    .toUpperCase()
+    .match(/^[A-Z]{2}(\d{2})[A-Z]{3}$/);
+  if (ageIdentifier) {
+    const code = parseInt(ageIdentifier[1]);
+    const year = code >= 50 ? 2000 + code - 50 : 2000 + code;
+    if (code !== 0 && code !== 50 && year <= currentYear) return year;
+  }
+
+  return undefined;
+}
+
+// Empty strings from sites should count as missing, not as valid values
+const optionalText = z.preprocess(
+  (value) =>
+    typeof value === "string" && value.trim() ? value.trim() : undefined,
+  z.string().optional()
+);
+
+/**
+ * STANDARDIZED CAR SCHEMA
+ * Runtime contract for StandardizedCarData, coercing raw adapter values
+ */
+export const standardizedCarSchema = z.object({
+  url: z.string().url("url is not a valid URL"),
+  imageUrl: z.preprocess((value) => value ?? "", z.string()),
+  title: z.string().trim().min(1, "title is missing"),
+  price: z.preprocess(
+    parseNumber,
+    z
+      .number({ required_error: "price is missing" })
+      .positive("price must be greater than zero")
+  ),
+  location: z.preprocess((value) => value ?? "", z.string().trim()),
+  registration: z.preprocess(
+    (value) => (typeof value === "string" ? value : ""),
+    z
+      .string()
+      .trim()
+      .transform((value) => value.toUpperCase())
+  ),
+  make: optionalText,
+  model: optionalText,
+  year: z.preprocess(
+    parseNumber,
+    z.number().int().min(1900, "year is implausible").optional()
+  ),
+  mileage: z.preprocess(
+    parseNumber,
+    z.number().nonnegative("mileage cannot be negative").optional()
+  ),
+  fuelType: optionalText,
+  transmission: optionalText,
+  bodyType: optionalText,
+  colour: optionalText,
+  listType: optionalText,
+  source: z.string().min(1, "source is missing"),
+  timestamp: z.string().datetime("timestamp is not an ISO date"),
+}) satisfies z.ZodType<StandardizedCarData, z.ZodTypeDef, unknown>;
+
+/**
+ * NORMALIZE CAR
+ * Fills make/model/year from the title and registration when the adapter did
+ * not provide them, then validates against the standardized schema
+ */
+export function normalizeCar(
+  raw: any
+): z.SafeParseReturnType<unknown, StandardizedCarData> {
+  const title = typeof raw?.title === "string" ? raw.title : "";
+  const registration =
+    typeof raw?.registration === "string" ? raw.registration : "";
+  const parsed = parseMakeModel(title);
+
+  return standardizedCarSchema.safeParse({
+    ...raw,
+    make: raw?.make || parsed.make,
+    model: raw?.model || parsed.model,
+    year: raw?.year || parseYear(title, registration),
+  });
+}
+
+/**
+ * NORMALIZE SITE RESULTS
+ * Coerces every record a site returned and splits out the ones that fail
+ */
+export function normalizeSiteResults(
+  siteName: string,
+  rawCars: any[]
+): NormalizedSiteResults {
+  const cars: StandardizedCarData[] = [];
+  const rejected: RejectedCar[] = [];
+
+  for (const raw of rawCars) {
+    const result = normalizeCar(raw);
+    if (result.success) {
+      cars.push(result.data);
+    } else {
+      rejected.push({
+        site: siteName,
+        reasons: result.error.issues.map((issue) => issue.message),
+        record: {
+          title: raw?.title,
+          url: raw?.url,
+          registration: raw?.registration,
+        },
+      });
+    }
+  }
+
+  if (rejected.length > 0) {
+    console.log(
+      `⚠️ [Normalize] ${siteName}: rejected ${rejected.length} of ${rawCars.length} records`
+    );
+  }
+
+  return { cars, rejected };
+}
@@ -0,0 +1,183 @@
+// Post-extraction filtering of scraped car data
+// Many sites can only approximate a search (price bands, 10,000 mile steps,
+// yearly age bands), so they return cars outside the buyer's range. This
+// module checks every normalised car against the requested price, mileage and
+// age ranges, colour, make and model. Cars just outside a range are kept apart
+// as near misses; cars further out, or of another make, model or colour, are
+// dropped. Fields a site did not provide are given the benefit of the doubt
+import type { SearchFilter, SearchParams } from "../shared/search-params.js";
+import type { StandardizedCarData } from "../types/car.js";
+import { canonicalMake } from "./normalize.js";
+
+/**
+ * FILTER MISS
+ * A range a near miss falls outside, e.g. "£750 over the maximum price"
+ */
+export type FilterMiss = {
+  filter: SearchFilter;
+  message: string;
+};
+
+export type NearMissCar = StandardizedCarData & {
+  misses: FilterMiss[];
+};
+
+export type PostFilterResult = {
+  cars: StandardizedCarData[]; // Match every filter
+  nearMisses: NearMissCar[];
+  filteredOut: number; // Cars dropped outright
+};
+
+/**
+ * RANGE CHECK
+ * One min/max pair of the search and how far outside it a car may be to
+ * still count as a near miss
+ */
+type RangeCheck = {
+  min: "minPrice" | "minMileage" | "minAge";
+  max: "maxPrice" | "maxMileage" | "maxAge";
+  value: (car: StandardizedCarData) => number | undefined;
+  tolerance: (bound: number) => number;
+  describe: (difference: number, side: "min" | "max") => string;
+};
+
+const formatNumber = (value: number) =>
+  Math.round(value).toLocaleString("en-GB");
+
+const RANGE_CHECKS: RangeCheck[] = [
+  {
+    min: "minPrice",
+    max: "maxPrice",
+    value: (car) => car.price,
+    tolerance: (bound) => bound * 0.1,
+    describe: (difference, side) =>
+      `£${formatNumber(difference)} ${
+        side === "max" ? "over the maximum" : "under the minimum"
+      } price`,
+  },
+  {
+    min: "minMileage",
+    max: "maxMileage",
+    value: (car) => car.mileage,
+    tolerance: (bound) => bound * 0.1,
+    describe: (difference, side) =>
+      `${formatNumber(difference)} miles ${
+        side === "max" ? "over the maximum" : "under the minimum"
+      } mileage`,
+  },
+  {
+    min: "minAge",
+    max: "maxAge",
+    // Ages are whole years, counted from the registration year
+    value: (car) =>
+      car.year === undefined ? undefined : new Date().getFullYear() - car.year,
+    tolerance: () => 1,
+    describe: (difference, side) =>
+      `${difference} year${difference === 1 ? "" : "s"} ${
+        side === "max" ? "older than the maximum" : "newer than the minimum"
+      } age`,
+  },
+];
+
+// "Mercedes-Benz" and "mercedes benz" compare equal
+function compact(text: string): string {
+  return text.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+function matchesMake(car: StandardizedCarData, make: string): boolean {
+  if (!car.make) return true;
+  const canonical = (name: string) => compact(canonicalMake(name) ?? name);
+  return canonical(car.make) === canonical(make);
+}
+
+// Sites name models differently ("3 Series" vs "320d M Sport"), so a model
+// matches when the car's model or title contains it, or for a series or
+// class when the car's model starts with it (e.g. "320d" is a "3 Series")
+function matchesModel(car: StandardizedCarData, model: string): boolean {
+  if (!car.model) return true;
+  const wanted = compact(model);
+  if ([car.model, car.title].some((text) => compact(text).includes(wanted))) {
+    return true;
+  }
+  const series = model.trim().match(/^(\S+)\s+(series|class)$/i);
+  return !!series && compact(car.model).startsWith(compact(series[1]));
+}
+
+function matchesColour(car: StandardizedCarData, colour: string): boolean {
+  if (!car.colour) return true;
+  return compact(car.colour).includes(compact(colour));
+}
+
+/**
+ * Misses of a car against the search's ranges, or null when the car is too
+ * far outside one of them to show at all
+ */
+function findRangeMisses(
+  car: StandardizedCarData,
+  params: SearchParams
+): FilterMiss[] | null {
+  const misses: FilterMiss[] = [];
+
+  for (const check of RANGE_CHECKS) {
+    const value = check.value(car);
+    if (value === undefined) continue;
+
+    const min = params[check.min];
+    const max = params[check.max];
+    let miss: { filter: SearchFilter; bound: number; side: "min" | "max" };
+    if (max !== undefined && value > max) {
+      miss = { filter: check.max, bound: max, side: "max" };
+    } else if (min !== undefined && value < min) {
+      miss = { filter: check.min, bound: min, side: "min" };
+    } else {
+      continue;
+    }
+
+    const difference = Math.abs(value - miss.bound);
+    if (difference > check.tolerance(miss.bound)) return null;
+    misses.push({
+      filter: miss.filter,
+      message: check.describe(difference, miss.side),
+    });
+  }
+
+  return misses;
+}
+
+/**
+ * POST FILTER CARS
+ * Splits one site's normalised cars into those that match the search, near
+ * misses within 10% of a price or mileage bound or a year of an age bound,
+ * and the rest, which are dropped
+ */
+export function postFilterCars(
+  siteName: string,
+  cars: StandardizedCarData[],
+  params: SearchParams
+): PostFilterResult {
+  const result: PostFilterResult = { cars: [], nearMisses: [], filteredOut: 0 };
+
+  for (const car of cars) {
+    const misses =
+      (!params.make || matchesMake(car, params.make)) &&
+      (!params.model || matchesModel(car, params.model)) &&
+      (!params.color || matchesColour(car, params.color))
+        ? findRangeMisses(car, params)
+        : null;
+
+    if (!misses) {
+      result.filteredOut++;
+    } else if (misses.length > 0) {
+      result.nearMisses.push({ ...car, misses });
+    } else {
+      result.cars.push(car);
+    }
+  }
+
+  if (result.filteredOut > 0 || result.nearMisses.length > 0) {
+    console.log(
+      `🔎 [Filter] ${siteName}: ${result.cars.length} match, ${result.nearMisses.length} near misses, ${result.filteredOut} outside the search`
+    );
+  }
+  return result;
+}
@@ -7,6 +7,7 @@ import { AuthProvider } from "./providers/AuthProvider";
 import ErrorBoundary from "./components/ErrorBoundary";
 import Index from "./pages/Index";
 import AccountPage from "./pages/AccountPage";
+import TradeAccountsPage from "./pages/TradeAccountsPage";
 import AuthPage from "./pages/AuthPage";
 import NotFound from "./pages/NotFound";
 import DashboardLayout from "./components/layout/DashboardLayout";
@@ -37,6 +38,10 @@ const App = () => (
               <Route element={<ProtectedRoute />}>
                 <Route element={<DashboardLayout />}>
                   <Route path="/" element={<Index />} />
+                  <Route
+                    path="/trade-accounts"
+                    element={<TradeAccountsPage />}
+                  />
                   <Route path="/account" element={<AccountPage />} />
                 </Route>
               </Route>
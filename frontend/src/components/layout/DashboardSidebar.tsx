@@ -13,7 +13,7 @@ import {
   SidebarMenuButton,
 } from "@/components/ui/sidebar";
 import { cn } from "@/lib/utils";
-import { Search, User } from "lucide-react";
+import { KeyRound, Search, User } from "lucide-react";
 
 // To avoid hard-coding menu items
 const MENU_ITEMS = [
@@ -23,6 +23,12 @@ const MENU_ITEMS = [
     path: "/",
     icon: Search,
   },
+  {
+    id: "trade-accounts",
+    label: "Trade accounts",
+    path: "/trade-accounts",
+    icon: KeyRound,
+  },
   {
     id: "account",
     label: "Account",
@@ -0,0 +1,81 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ExternalLink } from "lucide-react";
+
+import { Vehicle } from "@/services/api/vehicleApi";
+
+interface NearMissesListProps {
+  vehicles: Vehicle[];
+}
+
+// Vehicles just outside the price, mileage or age range of the search, hidden
+// until asked for so they never mix with the real matches
+export function NearMissesList({ vehicles }: NearMissesListProps) {
+  const [showNearMisses, setShowNearMisses] = useState(false);
+  if (vehicles.length === 0) return null;
+
+  return (
+    <div className="mt-8">
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-lg font-semibold">
+          Near misses ({vehicles.length})
+        </h3>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => setShowNearMisses((shown) => !shown)}
+        >
+          {showNearMisses ? "Hide" : "Show"} near misses
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        Within 10% of a price or mileage limit, or a year of an age limit
+      </p>
+      {showNearMisses && (
+        <div className="space-y-2">
+          {vehicles.map((vehicle) => (
+            <div
+              key={vehicle.id}
+              className="flex items-center justify-between rounded-md border p-2 text-sm"
+            >
+              <div>
+                <p className="font-medium">{vehicle.title}</p>
+                <p className="text-xs text-muted-foreground">
+                  {vehicle.source} • {vehicle.registration}
+                  {vehicle.mileage !== undefined &&
+                    ` • ${vehicle.mileage.toLocaleString()} miles`}
+                </p>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {vehicle.misses?.map((miss) => (
+                    <Badge
+                      key={miss.filter}
+                      variant="outline"
+                      className="border-amber-300 text-amber-700"
+                    >
+                      {miss.message}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="font-medium">
+                  {typeof vehicle.price === "string"
+                    ? vehicle.price
+                    : `£${vehicle.price.toLocaleString()}`}
+                </span>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => window.open(vehicle.url, "_blank")}
+                >
+                  <ExternalLink className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
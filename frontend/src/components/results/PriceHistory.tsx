@@ -0,0 +1,107 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ExternalLink } from "lucide-react";
+
+import {
+  RemovedVehicle,
+  VehicleHistorySummary,
+} from "@/services/api/vehicleApi";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// "Tuesday" within the last week, otherwise "12 Oct"
+function describeDate(timestamp: string): string {
+  const date = new Date(timestamp);
+  if (date.toDateString() === new Date().toDateString()) {
+    return "earlier today";
+  }
+  if (Date.now() - date.getTime() < 7 * DAY_MS) {
+    return date.toLocaleDateString("en-GB", { weekday: "long" });
+  }
+  return date.toLocaleDateString("en-GB", { day: "numeric", month: "short" });
+}
+
+interface PriceHistoryBadgeProps {
+  history?: VehicleHistorySummary;
+  className?: string;
+}
+
+// Last price change and relisting of a listing, e.g. "Price dropped £500 since Tuesday"
+export function PriceHistoryBadge({
+  history,
+  className = "",
+}: PriceHistoryBadgeProps) {
+  if (!history) return null;
+
+  const priceChange = history.priceChange || 0;
+  const isRelisted = history.status === "relisted";
+  if (priceChange === 0 && !isRelisted) return null;
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 text-xs ${className}`}>
+      {isRelisted && <Badge variant="outline">Relisted</Badge>}
+      {priceChange !== 0 && history.previousPriceAt && (
+        <span
+          className={priceChange < 0 ? "text-green-700" : "text-amber-700"}
+          title={`Was £${history.previousPrice?.toLocaleString()}`}
+        >
+          Price {priceChange < 0 ? "dropped" : "rose"} £
+          {Math.abs(priceChange).toLocaleString()} since{" "}
+          {describeDate(history.previousPriceAt)}
+        </span>
+      )}
+    </div>
+  );
+}
+
+interface RemovedVehiclesListProps {
+  vehicles: RemovedVehicle[];
+}
+
+// Listings returned by the previous run of this search that have since gone
+export function RemovedVehiclesList({ vehicles }: RemovedVehiclesListProps) {
+  if (vehicles.length === 0) return null;
+
+  return (
+    <div className="mt-8">
+      <h3 className="text-lg font-semibold mb-1">
+        No longer listed ({vehicles.length})
+      </h3>
+      <p className="text-sm text-muted-foreground mb-4">
+        Returned by the last run of this search but missing now, most likely
+        sold or withdrawn
+      </p>
+      <div className="space-y-2">
+        {vehicles.map((vehicle) => (
+          <div
+            key={vehicle.key}
+            className="flex items-center justify-between rounded-md border p-2 text-sm"
+          >
+            <div>
+              <p className="font-medium">{vehicle.title}</p>
+              <p className="text-xs text-muted-foreground">
+                {vehicle.source}
+                {vehicle.registration && ` • ${vehicle.registration}`} • last
+                seen {describeDate(vehicle.lastSeenAt)}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              {vehicle.lastPrice !== undefined && (
+                <span className="text-muted-foreground line-through">
+                  £{vehicle.lastPrice.toLocaleString()}
+                </span>
+              )}
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => window.open(vehicle.url, "_blank")}
+              >
+                <ExternalLink className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
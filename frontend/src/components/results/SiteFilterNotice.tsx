@@ -0,0 +1,62 @@
+import { AlertCircle } from "lucide-react";
+import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
+
+import { SEARCH_FILTER_LABELS, type SearchFilter } from "@shared/search-params";
+import { SiteFilterReport } from "@/services/api/scrapeSSEApi";
+
+interface SiteFilterNoticeProps {
+  siteName: string;
+  report?: SiteFilterReport;
+}
+
+// One line per filter, e.g. "Maximum price: Carwow filters the reserve price in bands"
+function FilterLines({
+  filters,
+  notes,
+}: {
+  filters: SearchFilter[];
+  notes?: SiteFilterReport["filterNotes"];
+}) {
+  return (
+    <ul className="list-disc pl-4">
+      {filters.map((filter) => (
+        <li key={filter}>
+          {SEARCH_FILTER_LABELS[filter]}
+          {notes?.[filter] ? `: ${notes[filter]}` : ""}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Explains why a site's results may not match every filter of the search
+export function SiteFilterNotice({ siteName, report }: SiteFilterNoticeProps) {
+  if (!report) return null;
+  const { filtersApproximated, filtersIgnored, filterNotes } = report;
+  if (filtersApproximated.length === 0 && filtersIgnored.length === 0) {
+    return null;
+  }
+
+  return (
+    <Alert className="mb-4 border-amber-200 bg-amber-50">
+      <AlertCircle className="h-4 w-4 text-amber-600" />
+      <AlertTitle className="text-amber-800">
+        Some filters work differently on {siteName}
+      </AlertTitle>
+      <AlertDescription className="space-y-2 text-amber-700">
+        {filtersIgnored.length > 0 && (
+          <div>
+            <p>Not applied, so results may not match:</p>
+            <FilterLines filters={filtersIgnored} notes={filterNotes} />
+          </div>
+        )}
+        {filtersApproximated.length > 0 && (
+          <div>
+            <p>Applied approximately:</p>
+            <FilterLines filters={filtersApproximated} notes={filterNotes} />
+          </div>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
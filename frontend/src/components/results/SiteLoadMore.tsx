@@ -0,0 +1,42 @@
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+import { SitePaging } from "@/services/api/scrapeSSEApi";
+
+interface SiteLoadMoreProps {
+  siteName: string;
+  paging?: SitePaging;
+  isLoading?: boolean;
+  onLoadMore?: () => void;
+}
+
+// How much of a site's results the search read, with a button for the next
+// page when the result caps left some behind
+export function SiteLoadMore({
+  siteName,
+  paging,
+  isLoading = false,
+  onLoadMore,
+}: SiteLoadMoreProps) {
+  if (!paging) return null;
+  const { returned, totalAvailable, nextPage } = paging;
+  if (!nextPage && (totalAvailable === undefined || totalAvailable <= returned))
+    return null;
+
+  return (
+    <div className="mt-6 flex flex-col items-center gap-2">
+      <p className="text-sm text-muted-foreground">
+        Read {returned.toLocaleString()}
+        {totalAvailable !== undefined &&
+          ` of ${totalAvailable.toLocaleString()}`}{" "}
+        vehicles from {siteName}
+      </p>
+      {nextPage && onLoadMore && (
+        <Button variant="outline" onClick={onLoadMore} disabled={isLoading}>
+          {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Load more from {siteName}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ExternalLink } from "lucide-react";
+
+import { VehicleCluster } from "@/services/api/vehicleApi";
+import { PriceHistoryBadge } from "./PriceHistory";
+
+interface VehicleClusterCardProps {
+  cluster: VehicleCluster;
+}
+
+// A single vehicle merged across sources, listing the price on each channel
+export default function VehicleClusterCard({
+  cluster,
+}: VehicleClusterCardProps) {
+  const isMultiSource = cluster.listings.length > 1;
+
+  return (
+    <Card>
+      <div className="h-[200px] overflow-hidden relative">
+        <img
+          src={cluster.imageUrl || "https://via.placeholder.com/400"}
+          alt={cluster.title}
+          className="w-full h-full object-cover"
+        />
+        <Badge className="absolute top-2 right-2">
+          {isMultiSource
+            ? `${cluster.listings.length} sources`
+            : cluster.cheapestSource}
+        </Badge>
+      </div>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-xl">{cluster.title}</CardTitle>
+        <CardDescription>
+          {cluster.registration || "No registration"}
+          {cluster.mileage !== undefined &&
+            ` • ${cluster.mileage.toLocaleString()} miles`}
+          {cluster.year && ` • ${cluster.year}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isMultiSource && cluster.priceSpread > 0 && (
+          <p className="text-sm text-green-700 mb-3">
+            £{cluster.priceSpread.toLocaleString()} cheaper on{" "}
+            {cluster.cheapestSource}
+          </p>
+        )}
+        {cluster.matchedBy === "similarity" && (
+          <p className="text-xs text-muted-foreground mb-3">
+            Matched on title and mileage, check the registration before buying
+          </p>
+        )}
+        <div className="space-y-2">
+          {cluster.listings.map((listing, index) => (
+            <div
+              key={listing.url}
+              className={`flex items-center justify-between rounded-md border p-2 text-sm ${
+                isMultiSource && index === 0
+                  ? "border-green-200 bg-green-50"
+                  : ""
+              }`}
+            >
+              <div>
+                <p className="font-medium">{listing.source}</p>
+                <p className="text-xs text-muted-foreground">
+                  {listing.location}
+                </p>
+                <PriceHistoryBadge history={listing.history} className="mt-1" />
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="font-medium">
+                  £{listing.price.toLocaleString()}
+                </span>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => window.open(listing.url, "_blank")}
+                >
+                  <ExternalLink className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -15,8 +15,18 @@ import { Separator } from "@/components/ui/separator";
 import { AlertCircle, Search } from "lucide-react";
 import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
 
-import { Vehicle } from "@/services/api/vehicleApi";
+import {
+  RemovedVehicle,
+  Vehicle,
+  VehicleCluster,
+} from "@/services/api/vehicleApi";
 import { SearchParams } from "@/services/search/types";
+import VehicleClusterCard from "./VehicleClusterCard";
+import { PriceHistoryBadge, RemovedVehiclesList } from "./PriceHistory";
+import { SiteFilterNotice } from "./SiteFilterNotice";
+import { NearMissesList } from "./NearMissesList";
+import { SiteLoadMore } from "./SiteLoadMore";
+import { SiteFilterReport, SitePaging } from "@/services/api/scrapeSSEApi";
 
 // Add a separate interface for vehicles with errors
 interface SearchError {
@@ -26,18 +36,41 @@ interface SearchError {
 
 interface VehicleResultsProps {
   vehicles: Vehicle[];
+  clusters?: VehicleCluster[];
+  removedVehicles?: RemovedVehicle[];
+  nearMisses?: Vehicle[]; // Just outside the search, shown on request
   isLoading?: boolean;
   searchPerformed?: boolean;
   searchErrors?: SearchError[];
   searchParams?: SearchParams | null;
+  siteFilters?: Record<string, SiteFilterReport>; // Keyed by site id
+  sitePaging?: Record<string, SitePaging>; // Keyed by site id
+  loadingMoreSite?: string | null; // Site a "load more" is running for
+  onLoadMore?: (siteId: string) => void;
 }
 
+// Display names of the sites with their own results tab
+const SITE_NAMES: Record<string, string> = {
+  bca: "BCA",
+  motorway: "Motorway",
+  carwow: "CarWow",
+  cartotrade: "CarToTrade",
+  disposalnetwork: "DisposalNetwork",
+};
+
 export default function VehicleResults({
   vehicles = [],
+  clusters = [],
+  removedVehicles = [],
+  nearMisses = [],
   isLoading = false,
   searchPerformed = false,
   searchErrors = [],
   searchParams = null,
+  siteFilters = {},
+  sitePaging = {},
+  loadingMoreSite = null,
+  onLoadMore,
 }: VehicleResultsProps) {
   // Debug logging
   console.log("VehicleResults received props:", {
@@ -61,6 +94,17 @@ export default function VehicleResults({
     );
   }, [vehicles, titleSearchTerm]);
 
+  // Cross-site clusters arrive once the search completes and replace the "All" tab
+  const filteredClusters = useMemo(() => {
+    if (!titleSearchTerm.trim()) {
+      return clusters;
+    }
+    return clusters.filter((cluster) =>
+      cluster.title.toLowerCase().includes(titleSearchTerm.toLowerCase())
+    );
+  }, [clusters, titleSearchTerm]);
+  const showClusters = clusters.length > 0;
+
   const resultGroups = {
     all: filteredVehicles,
     bca: filteredVehicles.filter(
@@ -164,6 +208,8 @@ export default function VehicleResults({
               </p>
             </div>
           )}
+          <NearMissesList vehicles={nearMisses} />
+          <RemovedVehiclesList vehicles={removedVehicles} />
         </CardContent>
       </Card>
     );
@@ -181,6 +227,13 @@ export default function VehicleResults({
         <CardTitle>Search Results</CardTitle>
         <CardDescription>
           Found {filteredVehicles.length} vehicles matching your criteria
+          {showClusters && (
+            <span>
+              {" "}
+              ({filteredClusters.length} unique after merging cross-site
+              duplicates)
+            </span>
+          )}
           {titleSearchTerm && (
             <span className="text-muted-foreground">
               {" "}
@@ -228,7 +281,9 @@ export default function VehicleResults({
         <Tabs defaultValue="all">
           <TabsList>
             <TabsTrigger value="all">
-              All ({resultGroups.all.length})
+              All (
+              {showClusters ? filteredClusters.length : resultGroups.all.length}
+              )
             </TabsTrigger>
             <TabsTrigger value="bca">
               BCA ({resultGroups.bca.length})
@@ -252,35 +307,27 @@ export default function VehicleResults({
 
           {Object.entries(resultGroups).map(([key, groupVehicles]) => (
             <TabsContent key={key} value={key} className="mt-4">
-              {/* VAT Qualifying Warning for non-BCA tabs */}
-              {searchParams?.vatQualifying &&
-                key !== "bca" &&
-                key !== "all" && (
-                  <Alert className="mb-4 border-amber-200 bg-amber-50">
-                    <AlertCircle className="h-4 w-4 text-amber-600" />
-                    <AlertTitle className="text-amber-800">
-                      VAT Qualifying Filter Not Available
-                    </AlertTitle>
-                    <AlertDescription className="text-amber-700">
-                      VAT qualifying filtering is not available for{" "}
-                      {key === "motorway"
-                        ? "Motorway"
-                        : key === "carwow"
-                        ? "CarWow"
-                        : key === "cartotrade"
-                        ? "CarToTrade"
-                        : key === "disposalnetwork"
-                        ? "DisposalNetwork"
-                        : key === "others"
-                        ? "other sources"
-                        : key}
-                      . All vehicles from this source are shown regardless of
-                      VAT qualification status.
-                    </AlertDescription>
-                  </Alert>
-                )}
+              {/* Filters this site ignored or only approximated */}
+              <SiteFilterNotice
+                siteName={SITE_NAMES[key] || key}
+                report={siteFilters[key]}
+              />
 
-              {groupVehicles.length === 0 ? (
+              {key === "all" && showClusters ? (
+                filteredClusters.length === 0 ? (
+                  <div className="flex items-center justify-center h-48">
+                    <p className="text-muted-foreground">
+                      No vehicles found matching "{titleSearchTerm}"
+                    </p>
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                    {filteredClusters.map((cluster) => (
+                      <VehicleClusterCard key={cluster.id} cluster={cluster} />
+                    ))}
+                  </div>
+                )
+              ) : groupVehicles.length === 0 ? (
                 <div className="flex items-center justify-center h-48">
                   <p className="text-muted-foreground">
                     {titleSearchTerm
@@ -311,17 +358,17 @@ export default function VehicleResults({
                         </CardDescription>
                       </CardHeader>
                       <CardContent className="pb-2">
+                        <PriceHistoryBadge
+                          history={vehicle.history}
+                          className="mb-3"
+                        />
                         <div className="grid grid-cols-2 gap-2 text-sm mb-4">
                           <div>
                             <p className="text-muted-foreground">Price</p>
                             <p className="font-medium">
-                              {vehicle.source === "CarWow" ||
-                              vehicle.source === "CarToTrade"
-                                ? ""
-                                : "£"}
                               {typeof vehicle.price === "string"
                                 ? vehicle.price
-                                : vehicle.price.toLocaleString()}
+                                : `£${vehicle.price.toLocaleString()}`}
                             </p>
                           </div>
                           <div>
@@ -362,9 +409,20 @@ export default function VehicleResults({
                   ))}
                 </div>
               )}
+
+              {/* Results the caps left on the site */}
+              <SiteLoadMore
+                siteName={SITE_NAMES[key] || key}
+                paging={sitePaging[key]}
+                isLoading={loadingMoreSite === key}
+                onLoadMore={onLoadMore && (() => onLoadMore(key))}
+              />
             </TabsContent>
           ))}
         </Tabs>
+
+        <NearMissesList vehicles={nearMisses} />
+        <RemovedVehiclesList vehicles={removedVehicles} />
       </CardContent>
     </Card>
   );
@@ -1,9 +1,10 @@
-import React, { useEffect, useMemo } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import {
   Form,
   FormControl,
@@ -29,6 +30,13 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Search, Loader2, RotateCcw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  catalogApiService,
+  CatalogMake,
+  CatalogMatch,
+} from "@/services/api/catalogApi";
+import { VehicleTypeahead } from "./VehicleTypeahead";
 
 const searchFormSchema = z
   .object({
@@ -42,6 +50,7 @@ const searchFormSchema = z
     maxMileage: z.string().optional(),
     minPrice: z.string().optional(),
     maxPrice: z.string().optional(),
+    sites: z.array(z.string()).optional(),
   })
   .superRefine((data, ctx) => {
     // Validate price range
@@ -105,232 +114,18 @@ const searchFormSchema = z
 
 type SearchFormValues = z.infer<typeof searchFormSchema>;
 
-// Mock data
-const carMakes = [
-  "Audi",
-  "BMW",
-  "Bentley",
-  "Citroen",
-  "Ford",
-  "Honda",
-  "Fiat",
-  "Hyundai",
-  "Jaguar",
-  "Kia",
-  "Land Rover",
-  "Lexus",
-  "Mazda",
-  "Mercedes",
-  "Mini",
-  "Nissan",
-  "Peugeot",
-  "Renault",
-  "Suzuki",
-  "Seat",
-  "Skoda",
-  "Smart",
-  "Tesla",
-  "Toyota",
-  "Vauxhall",
-  "Volkswagen",
-  "Volvo",
+// Sites that can be searched (ids match the backend site registry)
+const siteOptions = [
+  { id: "bca", label: "BCA" },
+  { id: "motorway", label: "Motorway" },
+  { id: "carwow", label: "CarWow" },
+  { id: "disposalnetwork", label: "DisposalNetwork" },
 ];
 
 const yearOptions = Array.from({ length: 25 }, (_, i) =>
   (new Date().getFullYear() - i).toString()
 );
 
-// Model map - moved outside component to avoid re-creation
-const modelMap: Record<string, string[]> = {
-  Audi: [
-    "A1",
-    "A3",
-    "A4",
-    "A5",
-    "A6",
-    "A7",
-    "A8",
-    "E-Tron",
-    "Q2",
-    "Q3",
-    "Q4",
-    "Q5",
-    "Q7",
-    "Q8",
-    "R8",
-    "RS",
-    "TT",
-  ],
-  BMW: [
-    "1 Series",
-    "2 Series",
-    "3 Series",
-    "4 Series",
-    "5 Series",
-    "6 Series",
-    "7 Series",
-    "8 Series",
-    "Alpina",
-    "M Series",
-    "X1",
-    "X2",
-    "X3",
-    "X4",
-    "X5",
-    "X6",
-    "X7",
-    "Z4",
-    "i3",
-    "i4",
-    "iX",
-  ],
-  Bentley: ["Bentayga", "Continental", "Flying Spur", "Mulsanne"],
-  Citroen: [
-    "Berlingo",
-    "C1",
-    "C3",
-    "C4 Picasso",
-    "C4",
-    "C4 SpaceTourer",
-    "C5",
-    "DS3 / DS3c",
-    "SpaceTourer",
-  ],
-  Fiat: ["500", "500L", "500X", "Panda", "Punto", "Tipo"],
-  Ford: [
-    "C-Max",
-    "Connect CAR",
-    "Ecosport",
-    "Edge",
-    "Fiesta",
-    "Focus",
-    "KA",
-    "Kuga",
-    "Mondeo",
-    "Puma",
-    "S-Max",
-  ],
-  Honda: ["Civic", "Jazz"],
-  Hyundai: ["Coupe", "Ioniq", "Kona", "i30", "i40"],
-  Jaguar: ["F-Pace", "F-Type", "XE", "XF", "XJ", "XK"],
-  Kia: ["CEED", "Niro", "Optima", "Picanto"],
-  "Land Rover": ["Defender", "Discovery", "Freelander", "Range Rover"],
-  Lexus: ["IS", "LS", "NX", "RX", "SC", "UX"],
-  Mazda: ["6", "MX-30", "MX-5"],
-  Mercedes: [
-    "A Class",
-    "AMG A",
-    "AMG C",
-    "AMG E",
-    "AMG GLC",
-    "AMG GLE",
-    "AMG GLS",
-    "AMG SLK",
-    "B Class",
-    "C Class",
-    "CLA",
-    "CLE",
-    "CLK",
-    "CLS",
-    "E Class",
-    "EQA",
-    "EQB",
-    "EQC",
-    "EQE",
-    "EQS",
-    "EQV",
-    "G Class",
-    "GL",
-    "GLA",
-    "GLB",
-    "GLC",
-    "GLE",
-    "GLS",
-    "M",
-    "Maybach",
-    "S",
-    "SL",
-    "SLC",
-    "SLK",
-    "V Class",
-  ],
-  Mini: ["Clubman", "Countryman", "Cooper", "Placeman", "Roadster"],
-  Nissan: ["Micra", "NV200", "Qashqai", "Leaf"],
-  Peugeot: [
-    "108",
-    "2008",
-    "206",
-    "207",
-    "208",
-    "3008",
-    "307",
-    "308",
-    "407",
-    "5008",
-    "508",
-    "Rifter",
-    "Traveller",
-  ],
-  Renault: ["Espace", "Megane", "Modus", "Scenic", "Zoe"],
-  Seat: ["Ibiza", "Leon", "Mii", "Exeo", "Altea"],
-  Skoda: [
-    "Citigo",
-    "Fabia",
-    "Karoq",
-    "Kodiaq",
-    "Octavia",
-    "Rapid",
-    "Roomster",
-    "Superb",
-    "Yeti",
-  ],
-  Smart: ["ForFour", "ForTwo"],
-  Suzuki: ["Jimny", "Vitara", "Swift"],
-  Tesla: [],
-  Toyota: [
-    "Auris",
-    "Avensis",
-    "Aygo",
-    "Corolla",
-    "Estima",
-    "Highlander",
-    "LandCruiser",
-    "Prius",
-    "Proace",
-    "Yaris",
-    "Verso",
-  ],
-  Vauxhall: [
-    "Adam",
-    "Astra",
-    "Combo",
-    "Corsa",
-    "Crossland",
-    "Grandland",
-    "Insignia",
-    "Mokka",
-    "Viva",
-    "Vivaro",
-    "Zafira",
-  ],
-  Volkswagen: [
-    "Arteon",
-    "Caddy",
-    "California",
-    "Caravelle",
-    "Golf",
-    "Passat",
-    "Polo",
-    "T-Roc",
-    "Tiguan",
-    "UP!",
-    "Touran",
-    "Touareg",
-    "Sharan",
-  ],
-  Volvo: ["S60", "S90", "V40", "V60", "V70", "V90", "XC40", "XC60", "XC90"],
-};
-
 interface SearchFormProps {
   onSubmit: (values: SearchFormValues) => void;
   isLoading?: boolean;
@@ -340,6 +135,25 @@ export default function SearchForm({
   onSubmit,
   isLoading = false,
 }: SearchFormProps) {
+  const { toast } = useToast();
+  // Makes and models come from the backend catalogue shared with every site
+  const [catalog, setCatalog] = useState<CatalogMake[]>([]);
+  // Trim keyword of the last type-ahead pick, which no site filters on
+  const [typedTrim, setTypedTrim] = useState<string>();
+
+  useEffect(() => {
+    catalogApiService
+      .listMakes()
+      .then(setCatalog)
+      .catch((error) => {
+        toast({
+          title: "Could not load makes and models",
+          description: error instanceof Error ? error.message : undefined,
+          variant: "destructive",
+        });
+      });
+  }, [toast]);
+
   const form = useForm<SearchFormValues>({
     resolver: zodResolver(searchFormSchema),
     mode: "onChange", // Enable real-time validation
@@ -354,6 +168,7 @@ export default function SearchForm({
       maxMileage: "",
       minPrice: "",
       maxPrice: "",
+      sites: [],
     },
   });
 
@@ -371,6 +186,7 @@ export default function SearchForm({
   };
 
   const handleReset = () => {
+    setTypedTrim(undefined);
     form.reset({
       make: "any_make",
       model: "any_model",
@@ -382,28 +198,44 @@ export default function SearchForm({
       maxMileage: "",
       minPrice: "",
       maxPrice: "",
+      sites: [],
     });
   };
 
   const selectedMake = form.watch("make");
+  // Model picked in the type-ahead, applied once its make is selected
+  const pendingModel = useRef<string | null>(null);
 
   // Reset model value when make changes
   useEffect(() => {
     if (selectedMake && selectedMake !== "any_make") {
-      form.setValue("model", "any_model");
+      form.setValue("model", pendingModel.current ?? "any_model");
+      pendingModel.current = null;
     } else if (selectedMake === "any_make") {
       // If "Any make" is selected, force model to "Any model"
       form.setValue("model", "any_model");
     }
   }, [selectedMake, form]);
 
+  // Fill the make and model selects from a type-ahead suggestion
+  const handleTypeaheadSelect = (match: CatalogMatch) => {
+    const model = match.model ?? "any_model";
+    setTypedTrim(match.trim);
+    if (match.make === form.getValues("make")) {
+      form.setValue("model", model);
+      return;
+    }
+    pendingModel.current = model;
+    form.setValue("make", match.make);
+  };
+
   // Generate select options for car models based on selected make
   const getCarModels = (make: string) => {
     if (!make || make === "any_make") {
       // If no make is selected or "Any make" is selected, return empty array
       return [];
     }
-    return modelMap[make] || [];
+    return catalog.find((entry) => entry.make === make)?.models || [];
   };
 
   const carModels = getCarModels(selectedMake);
@@ -448,6 +280,17 @@ export default function SearchForm({
             onSubmit={form.handleSubmit(handleSubmit)}
             className="space-y-6"
           >
+            <div className="space-y-2">
+              <Label>Quick search</Label>
+              <VehicleTypeahead onSelect={handleTypeaheadSelect} />
+              {typedTrim && (
+                <p className="text-sm text-muted-foreground">
+                  "{typedTrim}" is not a search filter, look for it in the
+                  vehicle titles
+                </p>
+              )}
+            </div>
+
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
               {/* Make Field */}
               <FormField
@@ -468,7 +311,7 @@ export default function SearchForm({
                       </FormControl>
                       <SelectContent>
                         <SelectItem value="any_make">Any make</SelectItem>
-                        {carMakes.map((make) => (
+                        {catalog.map(({ make }) => (
                           <SelectItem key={make} value={make}>
                             {make}
                           </SelectItem>
@@ -706,6 +549,44 @@ export default function SearchForm({
                   />
                 </div>
               </div>
+
+              {/* Site Selection */}
+              <FormField
+                control={form.control}
+                name="sites"
+                render={({ field }) => (
+                  <FormItem className="md:col-span-2 lg:col-span-3">
+                    <FormLabel>Websites</FormLabel>
+                    <div className="flex flex-wrap gap-4">
+                      {siteOptions.map((site) => (
+                        <label
+                          key={site.id}
+                          htmlFor={`site-${site.id}`}
+                          className="flex items-center gap-2 text-sm"
+                        >
+                          <Checkbox
+                            id={`site-${site.id}`}
+                            checked={field.value?.includes(site.id)}
+                            onCheckedChange={(checked) => {
+                              const current = field.value || [];
+                              field.onChange(
+                                checked
+                                  ? [...current, site.id]
+                                  : current.filter((id) => id !== site.id)
+                              );
+                            }}
+                          />
+                          {site.label}
+                        </label>
+                      ))}
+                    </div>
+                    <FormDescription>
+                      Leave all unticked to search every website.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
             </div>
 
             <div className="flex gap-3">
@@ -0,0 +1,100 @@
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { catalogApiService, CatalogMatch } from "@/services/api/catalogApi";
+
+// Wait for a pause in typing before asking the backend
+const RESOLVE_DELAY_MS = 250;
+
+interface VehicleTypeaheadProps {
+  onSelect: (match: CatalogMatch) => void;
+}
+
+// Free-text make and model search, e.g. "merc c class" or "vw golf gti",
+// suggesting catalogue makes and models to fill the selects with
+export function VehicleTypeahead({ onSelect }: VehicleTypeaheadProps) {
+  const [query, setQuery] = useState("");
+  const [matches, setMatches] = useState<CatalogMatch[]>([]);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    const text = query.trim();
+    if (!text) {
+      setMatches([]);
+      return;
+    }
+
+    // Later keystrokes replace the pending lookup and drop stale answers
+    let cancelled = false;
+    const timeout = setTimeout(() => {
+      catalogApiService
+        .resolve(text)
+        .then((found) => {
+          if (!cancelled) setMatches(found);
+        })
+        .catch((error) => {
+          console.error("Could not resolve make and model:", error);
+          if (!cancelled) setMatches([]);
+        });
+    }, RESOLVE_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query]);
+
+  const select = (match: CatalogMatch) => {
+    onSelect(match);
+    setQuery(match.label);
+    setOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <Input
+        value={query}
+        placeholder='Type a make and model, e.g. "merc c class"'
+        onChange={(event) => {
+          setQuery(event.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={(event) => {
+          if (event.key === "Enter" && open && matches.length > 0) {
+            // Take the best reading rather than submitting the form
+            event.preventDefault();
+            select(matches[0]);
+          } else if (event.key === "Escape") {
+            setOpen(false);
+          }
+        }}
+      />
+      {open && matches.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full rounded-md border bg-popover p-1 shadow-md">
+          {matches.map((match) => (
+            <li key={match.label}>
+              <button
+                type="button"
+                className="flex w-full items-center justify-between rounded-sm px-2 py-1.5 text-left text-sm hover:bg-accent"
+                // Select before the input's blur closes the list
+                onMouseDown={(event) => {
+                  event.preventDefault();
+                  select(match);
+                }}
+              >
+                <span>
+                  {[match.make, match.model].filter(Boolean).join(" ")}
+                </span>
+                {match.trim && (
+                  <span className="text-xs text-muted-foreground">
+                    {match.trim}
+                  </span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,10 @@
-import React, { useState, useCallback, useEffect } from "react";
+import React, {
+  useState,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+} from "react";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -24,7 +30,11 @@ import {
   Search,
   Loader2,
 } from "lucide-react";
-import { scrapeSSEApiService, SSEEvent } from "@/services/api/scrapeSSEApi";
+import {
+  scrapeSSEApiService,
+  SSEEvent,
+  SSEScrapingOptions,
+} from "@/services/api/scrapeSSEApi";
 import { ApiSearchRequest, ApiVehicle } from "@/services/api/vehicleApi";
 
 interface ScrapingStats {
@@ -86,6 +96,124 @@ export default function RealTimeScraper() {
     setError(null);
   }, []);
 
+  // Event handlers for a scraping job, used when starting and when resuming
+  const scrapingOptions = useMemo<SSEScrapingOptions>(
+    () => ({
+      onConnected: () => {
+        console.log("SSE connection established");
+        console.log("Connection event received");
+      },
+      onProgress: (event: SSEEvent) => {
+        console.log("SSE Progress event received:", event);
+        try {
+          if (event.type === "progress") {
+            console.log("Processing progress event for site:", event.siteName);
+            console.log("Cars received:", event.cars);
+            console.log("Cars type:", typeof event.cars);
+            console.log("Cars is array:", Array.isArray(event.cars));
+            console.log("Cars length:", event.cars?.length);
+
+            if (event.cars && Array.isArray(event.cars)) {
+              console.log("First car sample:", event.cars[0]);
+              console.log(
+                "All car keys:",
+                event.cars.map((car) => Object.keys(car || {}))
+              );
+              console.log(
+                "Sample car data structure:",
+                JSON.stringify(event.cars[0], null, 2)
+              );
+            }
+
+            // Validate and filter out invalid car data
+            // Cars might have different structures depending on the site
+            const validCars =
+              event.cars?.filter(
+                (car) =>
+                  car &&
+                  typeof car === "object" &&
+                  (car.make ||
+                    car.model ||
+                    car.title ||
+                    car.name ||
+                    car.primaryVehicleDescription)
+              ) || [];
+
+            console.log("Valid cars after filtering:", validCars);
+            console.log("Valid cars count:", validCars.length);
+
+            setSiteResults((prev) => {
+              const newResults = {
+                ...prev,
+                [event.siteName]: {
+                  cars: validCars,
+                  completed: true,
+                },
+              };
+              console.log("Updated site results:", newResults);
+              return newResults;
+            });
+
+            setStats((prev) => {
+              const newStats = {
+                ...prev,
+                totalCars: prev.totalCars + validCars.length,
+                sitesCompleted: event.currentSite,
+                totalSites: event.totalSites,
+              };
+              console.log("Updated stats:", newStats);
+              return newStats;
+            });
+
+            setAllResults((prev) => {
+              const newAllResults = [...prev, ...validCars];
+              console.log("Updated all results:", newAllResults);
+              return newAllResults;
+            });
+          } else {
+            console.warn(
+              "Progress event missing cars data or wrong format:",
+              event
+            );
+          }
+        } catch (error) {
+          console.error("Error processing progress event:", error);
+          handleError(
+            `Error processing results: ${
+              error instanceof Error ? error.message : "Unknown error"
+            }`
+          );
+        }
+      },
+      onSiteEvent: (event) => {
+        if (event.type !== "site_failed") return;
+        setSiteResults((prev) => ({
+          ...prev,
+          [event.siteName]: {
+            cars: [],
+            completed: true,
+            error: `${event.summary} (${event.message})`,
+          },
+        }));
+        setStats((prev) => ({
+          ...prev,
+          sitesCompleted: event.currentSite,
+          totalSites: event.totalSites,
+        }));
+      },
+      onComplete: (results: ApiVehicle[]) => {
+        console.log("SSE Complete event received:", results);
+        setStats((prev) => ({ ...prev, endTime: new Date() }));
+        setIsScraping(false);
+        console.log("Scraping completed with", results.length, "cars");
+      },
+      onError: (errorMessage: string) => {
+        handleError(errorMessage);
+      },
+    }),
+    [handleError]
+  );
+
   // Start scraping
   const startScraping = useCallback(async () => {
     if (isScraping) return;
@@ -95,111 +223,12 @@ export default function RealTimeScraper() {
     setStats((prev) => ({ ...prev, startTime: new Date() }));
 
     try {
-      await scrapeSSEApiService.startScraping(searchParams, {
-        onConnected: () => {
-          console.log("SSE connection established");
-          console.log("Connection event received");
-        },
-        onProgress: (event: SSEEvent) => {
-          console.log("SSE Progress event received:", event);
-          try {
-            if (event.type === "progress") {
-              console.log(
-                "Processing progress event for site:",
-                event.siteName
-              );
-              console.log("Cars received:", event.cars);
-              console.log("Cars type:", typeof event.cars);
-              console.log("Cars is array:", Array.isArray(event.cars));
-              console.log("Cars length:", event.cars?.length);
-
-              if (event.cars && Array.isArray(event.cars)) {
-                console.log("First car sample:", event.cars[0]);
-                console.log(
-                  "All car keys:",
-                  event.cars.map((car) => Object.keys(car || {}))
-                );
-                console.log(
-                  "Sample car data structure:",
-                  JSON.stringify(event.cars[0], null, 2)
-                );
-              }
-
-              // Validate and filter out invalid car data
-              // Cars might have different structures depending on the site
-              const validCars =
-                event.cars?.filter(
-                  (car) =>
-                    car &&
-                    typeof car === "object" &&
-                    (car.make ||
-                      car.model ||
-                      car.title ||
-                      car.name ||
-                      car.primaryVehicleDescription)
-                ) || [];
-
-              console.log("Valid cars after filtering:", validCars);
-              console.log("Valid cars count:", validCars.length);
-
-              setSiteResults((prev) => {
-                const newResults = {
-                  ...prev,
-                  [event.siteName]: {
-                    cars: validCars,
-                    completed: true,
-                  },
-                };
-                console.log("Updated site results:", newResults);
-                return newResults;
-              });
-
-              setStats((prev) => {
-                const newStats = {
-                  ...prev,
-                  totalCars: prev.totalCars + validCars.length,
-                  sitesCompleted: event.currentSite,
-                  totalSites: event.totalSites,
-                };
-                console.log("Updated stats:", newStats);
-                return newStats;
-              });
-
-              setAllResults((prev) => {
-                const newAllResults = [...prev, ...validCars];
-                console.log("Updated all results:", newAllResults);
-                return newAllResults;
-              });
-            } else {
-              console.warn(
-                "Progress event missing cars data or wrong format:",
-                event
-              );
-            }
-          } catch (error) {
-            console.error("Error processing progress event:", error);
-            handleError(
-              `Error processing results: ${
-                error instanceof Error ? error.message : "Unknown error"
-              }`
-            );
-          }
-        },
-        onComplete: (results: ApiVehicle[]) => {
-          console.log("SSE Complete event received:", results);
-          setStats((prev) => ({ ...prev, endTime: new Date() }));
-          setIsScraping(false);
-          console.log("Scraping completed with", results.length, "cars");
-        },
-        onError: (errorMessage: string) => {
-          handleError(errorMessage);
-        },
-      });
+      await scrapeSSEApiService.startScraping(searchParams, scrapingOptions);
     } catch (error) {
       console.error("Failed to start scraping:", error);
       handleError(error instanceof Error ? error.message : "Unknown error");
     }
-  }, [isScraping, searchParams, resetState, handleError]);
+  }, [isScraping, searchParams, resetState, handleError, scrapingOptions]);
 
   // Stop scraping
   const stopScraping = useCallback(() => {
@@ -208,11 +237,24 @@ export default function RealTimeScraper() {
     setStats((prev) => ({ ...prev, endTime: new Date() }));
   }, []);
 
-  // Cleanup on unmount
+  // Reattach to a job that was still running when the page was left; only
+  // once, on mount
+  const resumeChecked = useRef(false);
+  useEffect(() => {
+    if (resumeChecked.current) return;
+    resumeChecked.current = true;
+    if (!scrapeSSEApiService.getActiveJobId()) return;
+
+    setIsScraping(true);
+    setStats((prev) => ({ ...prev, startTime: new Date() }));
+    scrapeSSEApiService.resumeScraping(scrapingOptions);
+  }, [scrapingOptions]);
+
+  // Detach on unmount; the job keeps running and can be resumed later
   useEffect(() => {
     return () => {
       if (isScraping) {
-        scrapeSSEApiService.stopScraping();
+        scrapeSSEApiService.detach();
       }
     };
   }, [isScraping]);
@@ -0,0 +1,212 @@
+import { useEffect } from "react";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { WebsiteCredentials } from "@/services/search/types";
+import { tradeAccountsApiService } from "@/services/api/tradeAccountsApi";
+
+// A trade site the scraper supports (ids match the backend site registry)
+export interface TradeSite {
+  id: string;
+  label: string;
+  url: string;
+}
+
+const accountFormSchema = z.object({
+  username: z.string().trim().min(1, { message: "Username is required" }),
+  password: z.string(),
+  url: z.string().trim(),
+  notes: z.string(),
+});
+
+type AccountFormValues = z.infer<typeof accountFormSchema>;
+
+interface TradeAccountDialogProps {
+  site: TradeSite | null;
+  account?: WebsiteCredentials;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (account: WebsiteCredentials) => void;
+}
+
+// Add or edit the trade account for one site. The saved password is never
+// shown; leaving the field blank keeps it
+export default function TradeAccountDialog({
+  site,
+  account,
+  onOpenChange,
+  onSaved,
+}: TradeAccountDialogProps) {
+  const { toast } = useToast();
+  const form = useForm<AccountFormValues>({
+    resolver: zodResolver(accountFormSchema),
+    defaultValues: { username: "", password: "", url: "", notes: "" },
+  });
+
+  useEffect(() => {
+    if (!site) return;
+    form.reset({
+      username: account?.username || "",
+      password: "",
+      url: account?.url || site.url,
+      notes: account?.notes || "",
+    });
+  }, [site, account, form]);
+
+  async function onSubmit(values: AccountFormValues) {
+    if (!site) return;
+    if (!account?.hasPassword && !values.password) {
+      form.setError("password", { message: "Password is required" });
+      return;
+    }
+
+    try {
+      const input = {
+        name: site.label,
+        username: values.username,
+        url: values.url,
+        notes: values.notes,
+        ...(values.password ? { password: values.password } : {}),
+      };
+      const saved = account
+        ? await tradeAccountsApiService.updateAccount(account.id, input)
+        : await tradeAccountsApiService.createAccount({
+            ...input,
+            active: true,
+          });
+      toast({ title: `${site.label} account saved` });
+      onSaved(saved);
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: `Could not save the ${site.label} account`,
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    }
+  }
+
+  return (
+    <Dialog open={!!site} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {account ? "Edit" : "Add"} {site?.label} account
+          </DialogTitle>
+          <DialogDescription>
+            The password is encrypted when saved and cannot be viewed again
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="username"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Username</FormLabel>
+                  <FormControl>
+                    <Input autoComplete="off" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Password</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="password"
+                      autoComplete="new-password"
+                      placeholder={
+                        account?.hasPassword ? "••••••••" : undefined
+                      }
+                      {...field}
+                    />
+                  </FormControl>
+                  {account?.hasPassword && (
+                    <FormDescription>
+                      Leave blank to keep the saved password
+                    </FormDescription>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="url"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Website</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      rows={3}
+                      placeholder="e.g. shared with the Leeds branch"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? "Saving..." : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
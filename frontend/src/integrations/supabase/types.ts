@@ -14,6 +14,7 @@ export type Database = {
           active: boolean | null
           created_at: string | null
           id: string
+          last_login_at: string | null
           name: string | null
           notes: string | null
           password: string | null
@@ -25,6 +26,7 @@ export type Database = {
           active?: boolean | null
           created_at?: string | null
           id: string
+          last_login_at?: string | null
           name?: string | null
           notes?: string | null
           password?: string | null
@@ -36,6 +38,7 @@ export type Database = {
           active?: boolean | null
           created_at?: string | null
           id?: string
+          last_login_at?: string | null
           name?: string | null
           notes?: string | null
           password?: string | null
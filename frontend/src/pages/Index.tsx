@@ -1,15 +1,26 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import SearchForm from "@/components/search/SearchForm";
 import VehicleResults from "@/components/results/VehicleResults";
 import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
 import { vehicleSearchService } from "@/services/search/vehicleSearch";
 import { SearchResult, SearchParams } from "@/services/search/types";
 import {
   Vehicle,
   ApiVehicle,
+  NearMissVehicle,
+  RejectedVehicle,
+  RemovedVehicle,
+  VehicleCluster,
   vehicleApiService,
 } from "@/services/api/vehicleApi";
-import { SSEConnectedEvent } from "@/services/api/scrapeSSEApi";
+import {
+  SSEConnectedEvent,
+  SSESiteEvent,
+  SiteFilterReport,
+  SitePaging,
+  SiteStage,
+} from "@/services/api/scrapeSSEApi";
 import { supabase } from "@/lib/supabase";
 
 // Interface for search errors
@@ -18,10 +29,119 @@ interface SearchError {
   error: string;
 }
 
+// One line of a site's live timeline in the progress panel
+interface SiteTimelineEntry {
+  label: string;
+  timestamp: string;
+  tone: "info" | "success" | "error";
+  stage?: SiteStage;
+}
+
+interface SiteProgress {
+  cars: ApiVehicle[];
+  completed: boolean;
+  rejected: number;
+  error?: string;
+  stage?: string; // Label of what the site is doing right now
+  timeline: SiteTimelineEntry[];
+  filters?: SiteFilterReport; // How the site handled the search's filters
+  paging?: SitePaging; // How much of its results were read
+}
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60
+    ? `${seconds}s`
+    : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+// Turn a site lifecycle event into a timeline line
+const describeSiteEvent = (event: SSESiteEvent): SiteTimelineEntry => {
+  const entry = { timestamp: event.timestamp, tone: "info" as const };
+
+  switch (event.type) {
+    case "site_started":
+      return { ...entry, label: "Started" };
+    case "site_completed":
+      return {
+        ...entry,
+        tone: "success",
+        label: `Completed: ${event.carsFound} vehicles in ${formatDuration(
+          event.durationMs
+        )}${event.nearMisses > 0 ? `, ${event.nearMisses} near misses` : ""}${
+          event.filteredOut > 0
+            ? `, ${event.filteredOut} outside the search dropped`
+            : ""
+        }`,
+      };
+    case "site_failed":
+      return { ...entry, tone: "error", label: `Failed: ${event.summary}` };
+    case "site_stage": {
+      const attempt = event.attempt > 1 ? ` (attempt ${event.attempt})` : "";
+      switch (event.stage) {
+        case "queued":
+          return {
+            ...entry,
+            stage: event.stage,
+            label: `Waiting for other searches on this site (${
+              event.queuePosition || 1
+            } in line)`,
+          };
+        case "resuming_session":
+          return {
+            ...entry,
+            stage: event.stage,
+            label: `Reusing saved login${attempt}`,
+          };
+        case "logging_in":
+          return {
+            ...entry,
+            stage: event.stage,
+            label: `Logging in${attempt}`,
+          };
+        case "navigating":
+          return {
+            ...entry,
+            stage: event.stage,
+            label: `Opening search results${attempt}`,
+          };
+        case "applying_filters":
+          return {
+            ...entry,
+            stage: event.stage,
+            label: `Applying filters${attempt}`,
+          };
+        case "extracting":
+          return {
+            ...entry,
+            stage: event.stage,
+            label: event.page
+              ? `Extracting page ${event.page}${
+                  event.totalPages ? ` of ${event.totalPages}` : ""
+                }${attempt}`
+              : `Extracting vehicles${attempt}`,
+          };
+        case "retrying":
+          return {
+            ...entry,
+            stage: event.stage,
+            tone: "error",
+            label: `Retrying in ${formatDuration(event.retryInMs || 0)} after ${
+              event.reason || "an error"
+            }`,
+          };
+      }
+    }
+  }
+};
+
 const Index = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [searchPerformed, setSearchPerformed] = useState(false);
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [clusters, setClusters] = useState<VehicleCluster[]>([]);
+  const [removedVehicles, setRemovedVehicles] = useState<RemovedVehicle[]>([]);
+  const [nearMisses, setNearMisses] = useState<Vehicle[]>([]);
   const [searchErrors, setSearchErrors] = useState<SearchError[]>([]);
   const [currentSearchParams, setCurrentSearchParams] =
     useState<SearchParams | null>(null);
@@ -34,9 +154,10 @@ const Index = () => {
     sitesCompleted: number;
     totalCars: number;
   }>({ totalSites: 0, sitesCompleted: 0, totalCars: 0 });
-  const [siteResults, setSiteResults] = useState<
-    Record<string, { cars: ApiVehicle[]; completed: boolean }>
-  >({});
+  const [siteResults, setSiteResults] = useState<Record<string, SiteProgress>>(
+    {}
+  );
+  const [loadingMoreSite, setLoadingMoreSite] = useState<string | null>(null);
 
   const { toast } = useToast();
 
@@ -59,14 +180,256 @@ const Index = () => {
     fetchUserDetails();
   }, []);
 
-  // Cleanup SSE search on unmount only
+  // Detach from the SSE search on unmount only; the job keeps running on the
+  // backend so the page can reattach when the user comes back
   useEffect(() => {
     return () => {
-      // Only stop SSE when component unmounts, not when isSSESearchActive changes
-      vehicleSearchService.stopSSESearch();
+      // Only detach when component unmounts, not when isSSESearchActive changes
+      vehicleSearchService.detachSSESearch();
     };
   }, []); // Empty dependency array - only runs on unmount
 
+  // SSE callbacks, shared by new searches and by reattaching to a running job
+  const handleSSEConnected = (event: SSEConnectedEvent) => {
+    console.log("🔌 [Index] SSE connection established for search");
+    console.log("📊 [Index] Connection event data:", event);
+
+    // Extract totalSites from the connection event
+    const totalSites = event?.totalSites || 0;
+    console.log(`🏢 [Index] Total sites to scrape: ${totalSites}`);
+
+    // Update the progress state with the total sites count immediately
+    setSseProgress((prev) => ({
+      ...prev,
+      totalSites: totalSites,
+    }));
+    console.log("✅ [Index] Progress state updated with totalSites");
+  };
+
+  const handleSSEProgress = (
+    siteName: string,
+    cars: ApiVehicle[],
+    totalSites: number,
+    currentSite: number,
+    rejected: RejectedVehicle[]
+  ) => {
+    console.log(
+      `📊 [Index] Progress callback from ${siteName}: ${cars.length} cars`
+    );
+    console.log(`🏢 [Index] Site ${currentSite} of ${totalSites} completed`);
+
+    // Update site results
+    setSiteResults((prev) => ({
+      ...prev,
+      [siteName]: {
+        ...prev[siteName],
+        cars,
+        completed: true,
+        rejected: rejected.length,
+        timeline: prev[siteName]?.timeline || [],
+      },
+    }));
+
+    // Update progress
+    setSseProgress((prev) => {
+      const newProgress = {
+        totalSites,
+        sitesCompleted: currentSite,
+        totalCars: prev.totalCars + cars.length,
+      };
+      console.log("📈 [Index] Progress updated:", newProgress);
+      return newProgress;
+    });
+
+    // Convert API vehicles to frontend format and add to vehicles list
+    console.log(
+      `🔄 [Index] Converting ${cars.length} vehicles from ${siteName}`
+    );
+    const convertedVehicles = cars.map((apiVehicle) => {
+      return vehicleApiService.convertApiVehicleToVehicle(
+        apiVehicle as Record<string, unknown>
+      );
+    });
+    console.log(
+      `✅ [Index] Successfully converted ${convertedVehicles.length} vehicles`
+    );
+
+    setVehicles((prev) => {
+      const newVehicles = [...prev, ...convertedVehicles];
+      console.log(
+        `🚗 [Index] Vehicles state updated: ${prev.length} → ${newVehicles.length} total vehicles`
+      );
+      return newVehicles;
+    });
+
+    // Only set searchPerformed to true if we actually have vehicles
+    if (convertedVehicles.length > 0) {
+      console.log(
+        "✅ [Index] Setting searchPerformed to true (vehicles found)"
+      );
+      setSearchPerformed(true);
+      // Set loading to false since we have results
+      setIsLoading(false);
+      console.log("🔄 [Index] Loading state set to false");
+    } else {
+      console.log(
+        "ℹ️ [Index] No vehicles found, keeping searchPerformed false"
+      );
+    }
+
+    // Show progress toast
+    toast({
+      title: `${siteName} Complete`,
+      description: `Found ${cars.length} vehicles from ${siteName}`,
+    });
+  };
+
+  // Site lifecycle events drive the live per-site timeline
+  const handleSSESiteEvent = (event: SSESiteEvent) => {
+    console.log(`🏢 [Index] ${event.siteName}: ${event.type}`);
+    const entry = describeSiteEvent(event);
+    const finished =
+      event.type === "site_completed" || event.type === "site_failed";
+
+    setSiteResults((prev) => {
+      const current: SiteProgress = prev[event.siteName] || {
+        cars: [],
+        completed: false,
+        rejected: 0,
+        timeline: [],
+      };
+      // Page-by-page extraction and queue moves update one line instead of
+      // adding one each
+      const last = current.timeline[current.timeline.length - 1];
+      const timeline =
+        (entry.stage === "extracting" || entry.stage === "queued") &&
+        last?.stage === entry.stage
+          ? [...current.timeline.slice(0, -1), entry]
+          : [...current.timeline, entry];
+
+      return {
+        ...prev,
+        [event.siteName]: {
+          ...current,
+          completed: current.completed || finished,
+          error: event.type === "site_failed" ? event.summary : current.error,
+          stage: finished ? undefined : entry.label,
+          timeline,
+          filters: event.type === "site_completed" ? event : current.filters,
+          paging: event.type === "site_completed" ? event : current.paging,
+        },
+      };
+    });
+
+    if (event.type !== "site_failed") return;
+
+    // A site gave up after its retries; show why instead of dropping it
+    setSseProgress((prev) => ({
+      ...prev,
+      totalSites: event.totalSites,
+      sitesCompleted: event.currentSite,
+    }));
+    setSearchErrors((prev) => [
+      ...prev,
+      { source: event.siteName, error: event.summary },
+    ]);
+
+    toast({
+      title: `${event.siteName}: ${event.summary}`,
+      description:
+        event.attempts > 1
+          ? `Gave up after ${event.attempts} attempts`
+          : event.message,
+      variant: "destructive",
+    });
+  };
+
+  const handleSSEComplete = (
+    results: ApiVehicle[],
+    completedClusters: VehicleCluster[],
+    removed: RemovedVehicle[],
+    completedNearMisses: NearMissVehicle[]
+  ) => {
+    console.log("🏁 [Index] SSE search completed");
+    console.log(`📊 [Index] Final results: ${results.length} total vehicles`);
+
+    setIsSSESearchActive(false);
+    setIsLoading(false);
+
+    // Ensure search is marked as performed and vehicles remain visible
+    setSearchPerformed(true);
+    setClusters(completedClusters);
+    setRemovedVehicles(removed);
+    setNearMisses(
+      completedNearMisses.map((nearMiss) =>
+        vehicleApiService.convertApiVehicleToVehicle({ ...nearMiss })
+      )
+    );
+
+    // The final results are the vehicles already shown from onProgress, now
+    // with their price history attached
+    setVehicles(
+      results.map((apiVehicle) =>
+        vehicleApiService.convertApiVehicleToVehicle(
+          apiVehicle as Record<string, unknown>
+        )
+      )
+    );
+    console.log(
+      "✅ [Index] Search marked as completed, vehicles updated with history"
+    );
+
+    toast({
+      title: "Search Complete",
+      description: `Found ${results.length} vehicles across all websites`,
+    });
+  };
+
+  const handleSSEError = (errorMessage: string) => {
+    console.error("❌ [Index] SSE search error:", errorMessage);
+    setIsSSESearchActive(false);
+    setIsLoading(false);
+    console.log("🔄 [Index] Error state: SSE inactive, loading false");
+
+    toast({
+      title: "Search Error",
+      description: errorMessage,
+      variant: "destructive",
+    });
+  };
+
+  // Reattach to a scrape job that was still running when the page was left.
+  // Runs once on mount, through a ref holding this render's handlers
+  const resumeSearch = useRef<() => void>();
+  resumeSearch.current = () => {
+    if (!vehicleSearchService.hasResumableSSESearch()) return;
+
+    console.log("🔁 [Index] Reattaching to running scrape job");
+    setIsLoading(true);
+    setIsSSESearchActive(true);
+    vehicleSearchService.resumeSearchWithSSE(
+      handleSSEConnected,
+      handleSSEProgress,
+      handleSSEComplete,
+      handleSSEError,
+      handleSSESiteEvent
+    );
+  };
+  useEffect(() => resumeSearch.current?.(), []);
+
+  // Stop the running search and cancel the scrape on the backend
+  const handleStopSearch = () => {
+    console.log("🛑 [Index] Stopping SSE search");
+    vehicleSearchService.stopSSESearch();
+    setIsSSESearchActive(false);
+    setIsLoading(false);
+
+    toast({
+      title: "Search Stopped",
+      description: "The search was cancelled on every website",
+    });
+  };
+
   const handleSearch = async (searchValues: SearchParams) => {
     try {
       console.log("🔍 [Index] Starting vehicle search");
@@ -75,6 +438,10 @@ const Index = () => {
       setIsLoading(true);
       setSearchErrors([]);
       setVehicles([]);
+      setClusters([]);
+      setRemovedVehicles([]);
+      setNearMisses([]);
+      setSiteResults({});
       setSearchPerformed(false);
       setCurrentSearchParams(searchValues); // Store search parameters
 
@@ -84,135 +451,17 @@ const Index = () => {
         // Reset SSE state
         setIsSSESearchActive(true);
         setSseProgress({ totalSites: 0, sitesCompleted: 0, totalCars: 0 }); // totalSites will be updated by onConnected
-        setSiteResults({});
 
         // Use SSE-based search for real-time results
         try {
           console.log("📡 [Index] Initiating SSE connection");
           await vehicleSearchService.searchVehiclesWithSSE(
             searchValues,
-            // onConnected callback
-            (event: SSEConnectedEvent) => {
-              console.log("🔌 [Index] SSE connection established for search");
-              console.log("📊 [Index] Connection event data:", event);
-
-              // Extract totalSites from the connection event
-              const totalSites = event?.totalSites || 0;
-              console.log(`🏢 [Index] Total sites to scrape: ${totalSites}`);
-
-              // Update the progress state with the total sites count immediately
-              setSseProgress((prev) => ({
-                ...prev,
-                totalSites: totalSites,
-              }));
-              console.log("✅ [Index] Progress state updated with totalSites");
-            },
-            // onProgress callback
-
-            (siteName, cars, totalSites, currentSite) => {
-              console.log(
-                `📊 [Index] Progress callback from ${siteName}: ${cars.length} cars`
-              );
-              console.log(
-                `🏢 [Index] Site ${currentSite} of ${totalSites} completed`
-              );
-
-              // Update site results
-              setSiteResults((prev) => ({
-                ...prev,
-                [siteName]: { cars, completed: true },
-              }));
-
-              // Update progress
-              setSseProgress((prev) => {
-                const newProgress = {
-                  totalSites,
-                  sitesCompleted: currentSite,
-                  totalCars: prev.totalCars + cars.length,
-                };
-                console.log("📈 [Index] Progress updated:", newProgress);
-                return newProgress;
-              });
-
-              // Convert API vehicles to frontend format and add to vehicles list
-              console.log(
-                `🔄 [Index] Converting ${cars.length} vehicles from ${siteName}`
-              );
-              const convertedVehicles = cars.map((apiVehicle) => {
-                return vehicleApiService.convertApiVehicleToVehicle(apiVehicle);
-              });
-              console.log(
-                `✅ [Index] Successfully converted ${convertedVehicles.length} vehicles`
-              );
-
-              setVehicles((prev) => {
-                const newVehicles = [...prev, ...convertedVehicles];
-                console.log(
-                  `🚗 [Index] Vehicles state updated: ${prev.length} → ${newVehicles.length} total vehicles`
-                );
-                return newVehicles;
-              });
-
-              // Only set searchPerformed to true if we actually have vehicles
-              if (convertedVehicles.length > 0) {
-                console.log(
-                  "✅ [Index] Setting searchPerformed to true (vehicles found)"
-                );
-                setSearchPerformed(true);
-                // Set loading to false since we have results
-                setIsLoading(false);
-                console.log("🔄 [Index] Loading state set to false");
-              } else {
-                console.log(
-                  "ℹ️ [Index] No vehicles found, keeping searchPerformed false"
-                );
-              }
-
-              // Show progress toast
-              toast({
-                title: `${siteName} Complete`,
-                description: `Found ${cars.length} vehicles from ${siteName}`,
-              });
-            },
-            // onComplete callback
-            (results) => {
-              console.log("🏁 [Index] SSE search completed");
-              console.log(
-                `📊 [Index] Final results: ${results.length} total vehicles`
-              );
-
-              setIsSSESearchActive(false);
-              setIsLoading(false);
-
-              // Ensure search is marked as performed and vehicles remain visible
-              setSearchPerformed(true);
-
-              // Don't add vehicles again - they're already in state from onProgress
-              // The results from onComplete are the same vehicles we already processed
-              console.log(
-                "✅ [Index] Search marked as completed, vehicles remain visible"
-              );
-
-              toast({
-                title: "Search Complete",
-                description: `Found ${results.length} vehicles across all websites`,
-              });
-            },
-            // onError callback
-            (errorMessage) => {
-              console.error("❌ [Index] SSE search error:", errorMessage);
-              setIsSSESearchActive(false);
-              setIsLoading(false);
-              console.log(
-                "🔄 [Index] Error state: SSE inactive, loading false"
-              );
-
-              toast({
-                title: "Search Error",
-                description: errorMessage,
-                variant: "destructive",
-              });
-            }
+            handleSSEConnected,
+            handleSSEProgress,
+            handleSSEComplete,
+            handleSSEError,
+            handleSSESiteEvent
           );
 
           // Fallback: If SSE connection doesn't establish within 2 seconds, set default totalSites
@@ -220,8 +469,11 @@ const Index = () => {
             console.log("⏰ [Index] Fallback timeout triggered (2 seconds)");
             setSseProgress((prev) => {
               if (prev.totalSites === 0) {
-                console.log("🔄 [Index] Setting fallback totalSites: 5");
-                return { ...prev, totalSites: 5 };
+                const fallbackTotal = searchValues.sites?.length || 5;
+                console.log(
+                  `🔄 [Index] Setting fallback totalSites: ${fallbackTotal}`
+                );
+                return { ...prev, totalSites: fallbackTotal };
               }
               console.log(
                 `ℹ️ [Index] Fallback not needed, totalSites already: ${prev.totalSites}`
@@ -250,9 +502,13 @@ const Index = () => {
         console.log("🔍 [Index] Using regular (non-SSE) search");
 
         // Use regular search
-        const searchResults = await vehicleSearchService.searchVehicles(
-          searchValues
-        );
+        const {
+          results: searchResults,
+          clusters: searchClusters,
+          removed,
+          nearMisses: searchNearMisses,
+          siteResults: completedSites,
+        } = await vehicleSearchService.searchVehicles(searchValues);
 
         // Combine all vehicle results
         const allVehicles = searchResults.flatMap((result) => result.vehicles);
@@ -279,6 +535,24 @@ const Index = () => {
         }
 
         setVehicles(allVehicles);
+        setClusters(searchClusters);
+        setRemovedVehicles(removed);
+        setNearMisses(searchNearMisses);
+        setSiteResults(
+          Object.fromEntries(
+            completedSites.map((site) => [
+              site.siteName,
+              {
+                cars: [],
+                completed: true,
+                rejected: site.rejected,
+                timeline: [],
+                filters: site,
+                paging: site,
+              },
+            ])
+          )
+        );
         setSearchPerformed(true);
 
         if (allVehicles.length > 0) {
@@ -308,6 +582,69 @@ const Index = () => {
     }
   };
 
+  // Read the next page of one site's results and add the vehicles not
+  // already shown
+  const handleLoadMore = async (siteId: string) => {
+    const paging = siteResults[siteId]?.paging;
+    if (!currentSearchParams || !paging?.nextPage) return;
+
+    setLoadingMoreSite(siteId);
+    try {
+      const more = await vehicleSearchService.loadMoreFromSite(
+        currentSearchParams,
+        siteId,
+        paging.nextPage,
+        paging.nextOffset
+      );
+      if (!more.paging) {
+        throw new Error(`${siteId} did not return any more results`);
+      }
+
+      const shown = new Set(vehicles.map((vehicle) => vehicle.url));
+      const added = more.vehicles.filter((vehicle) => !shown.has(vehicle.url));
+      setVehicles((prev) => [...prev, ...added]);
+      setNearMisses((prev) => [...prev, ...more.nearMisses]);
+      // Cross-site clusters only cover the first results, so the "All" tab
+      // lists vehicles one by one once more are loaded
+      setClusters([]);
+      setSiteResults((prev) => ({
+        ...prev,
+        [siteId]: {
+          ...prev[siteId],
+          paging: {
+            returned: paging.returned + more.paging.returned,
+            totalAvailable: more.paging.totalAvailable ?? paging.totalAvailable,
+            nextPage: more.paging.nextPage,
+            nextOffset: more.paging.nextOffset,
+          },
+        },
+      }));
+
+      toast({
+        title: `Loaded more from ${siteId}`,
+        description: `${added.length} more vehicles`,
+      });
+    } catch (error) {
+      console.error(`❌ [Index] Load more from ${siteId} failed:`, error);
+      toast({
+        title: `Could not load more from ${siteId}`,
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingMoreSite(null);
+    }
+  };
+
+  // Filter reports and paging of the sites that completed, for the results
+  // tabs
+  const siteFilters: Record<string, SiteFilterReport> = {};
+  const sitePaging: Record<string, SitePaging> = {};
+  for (const [siteName, site] of Object.entries(siteResults)) {
+    if (site.filters) siteFilters[siteName] = site.filters;
+    if (site.paging) sitePaging[siteName] = site.paging;
+  }
+
   return (
     <div className="space-y-8">
       <div>
@@ -373,6 +710,14 @@ const Index = () => {
               <h3 className="text-lg font-semibold text-blue-800">
                 🔍 Real-time Search Progress
               </h3>
+              <Button
+                variant="outline"
+                size="sm"
+                className="ml-auto"
+                onClick={handleStopSearch}
+              >
+                Stop
+              </Button>
             </div>
 
             {/* Initial Loading State */}
@@ -449,19 +794,53 @@ const Index = () => {
                         <div className="font-medium text-blue-700 capitalize">
                           {siteName}
                         </div>
-                        <div className="text-sm text-blue-600">
-                          {siteData.cars.length} cars found
-                        </div>
-                        {siteData.completed ? (
+                        {siteData.completed && !siteData.error && (
+                          <div className="text-sm text-blue-600">
+                            {siteData.cars.length} cars found
+                          </div>
+                        )}
+                        {siteData.rejected > 0 && (
+                          <div className="text-xs text-amber-600">
+                            {siteData.rejected} invalid listings skipped
+                          </div>
+                        )}
+                        {siteData.error ? (
+                          <div className="text-xs text-red-600 flex items-center">
+                            <span className="mr-1">✗</span> {siteData.error}
+                          </div>
+                        ) : siteData.completed ? (
                           <div className="text-xs text-green-600 flex items-center">
                             <span className="mr-1">✓</span> Complete
                           </div>
                         ) : (
                           <div className="text-xs text-blue-600 flex items-center">
                             <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-blue-600 mr-1"></div>
-                            Processing...
+                            {siteData.stage || "Processing..."}
                           </div>
                         )}
+                        {siteData.timeline.length > 0 && (
+                          <ol className="mt-2 space-y-0.5 border-l border-blue-100 pl-2">
+                            {siteData.timeline.map((entry, index) => (
+                              <li
+                                key={index}
+                                className={`text-xs ${
+                                  entry.tone === "error"
+                                    ? "text-red-600"
+                                    : entry.tone === "success"
+                                    ? "text-green-600"
+                                    : "text-gray-500"
+                                }`}
+                              >
+                                <span className="text-gray-400 mr-1">
+                                  {new Date(
+                                    entry.timestamp
+                                  ).toLocaleTimeString()}
+                                </span>
+                                {entry.label}
+                              </li>
+                            ))}
+                          </ol>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -484,7 +863,14 @@ const Index = () => {
         )} */}
 
         <VehicleResults
+          siteFilters={siteFilters}
+          sitePaging={sitePaging}
+          loadingMoreSite={loadingMoreSite}
+          onLoadMore={handleLoadMore}
           vehicles={vehicles}
+          clusters={clusters}
+          removedVehicles={removedVehicles}
+          nearMisses={nearMisses}
           isLoading={isLoading}
           searchPerformed={searchPerformed}
           searchErrors={searchErrors}
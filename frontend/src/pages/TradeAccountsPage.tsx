@@ -0,0 +1,251 @@
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import TradeAccountDialog, {
+  TradeSite,
+} from "@/components/trade-accounts/TradeAccountDialog";
+import { WebsiteCredentials } from "@/services/search/types";
+import {
+  LoginTestResult,
+  tradeAccountsApiService,
+} from "@/services/api/tradeAccountsApi";
+
+// Every site the scraper can log into (ids match the backend site registry)
+const TRADE_SITES: TradeSite[] = [
+  { id: "bca", label: "BCA", url: "https://www.bca.co.uk" },
+  { id: "motorway", label: "Motorway", url: "https://pro.motorway.co.uk" },
+  { id: "carwow", label: "CarWow", url: "https://dealers.carwow.co.uk" },
+  {
+    id: "disposalnetwork",
+    label: "DisposalNetwork",
+    url: "https://disposalnetwork.1link.co.uk",
+  },
+  { id: "cartotrade", label: "CarToTrade", url: "https://www.cartotrade.com" },
+];
+
+function formatLoginTime(timestamp?: string): string {
+  if (!timestamp) return "Never";
+  return new Date(timestamp).toLocaleString("en-GB", {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+export default function TradeAccountsPage() {
+  const { toast } = useToast();
+  const [accounts, setAccounts] = useState<WebsiteCredentials[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingSite, setEditingSite] = useState<TradeSite | null>(null);
+  const [testingSite, setTestingSite] = useState<string | null>(null);
+  const [testResults, setTestResults] = useState<
+    Record<string, LoginTestResult>
+  >({});
+
+  useEffect(() => {
+    tradeAccountsApiService
+      .listAccounts()
+      .then(setAccounts)
+      .catch((error) => {
+        toast({
+          title: "Could not load trade accounts",
+          description: error instanceof Error ? error.message : undefined,
+          variant: "destructive",
+        });
+      })
+      .finally(() => setIsLoading(false));
+  }, [toast]);
+
+  const accountFor = (site: TradeSite) =>
+    accounts.find((account) => account.siteId === site.id);
+
+  const handleSaved = (saved: WebsiteCredentials) => {
+    setAccounts((prev) =>
+      prev.some((account) => account.id === saved.id)
+        ? prev.map((account) => (account.id === saved.id ? saved : account))
+        : [...prev, saved]
+    );
+  };
+
+  const handleToggleActive = async (
+    site: TradeSite,
+    account: WebsiteCredentials
+  ) => {
+    try {
+      handleSaved(
+        await tradeAccountsApiService.updateAccount(account.id, {
+          active: !account.active,
+        })
+      );
+    } catch (error) {
+      toast({
+        title: `Could not update the ${site.label} account`,
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleTestLogin = async (
+    site: TradeSite,
+    account: WebsiteCredentials
+  ) => {
+    setTestingSite(site.id);
+    try {
+      const result = await tradeAccountsApiService.testLogin(
+        site.id,
+        account.id
+      );
+      setTestResults((prev) => ({ ...prev, [site.id]: result }));
+      if (result.success) {
+        handleSaved({ ...account, lastLoginAt: new Date().toISOString() });
+      }
+      toast({
+        title: result.success
+          ? `Logged into ${site.label}`
+          : `${site.label} login failed`,
+        description: result.reason,
+        variant: result.success ? "default" : "destructive",
+      });
+    } catch (error) {
+      toast({
+        title: `Could not test the ${site.label} login`,
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    } finally {
+      setTestingSite(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Trade Accounts</h1>
+        <p className="text-muted-foreground mt-2">
+          Searches run only on the sites you have an active account for
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {TRADE_SITES.map((site) => {
+          const account = accountFor(site);
+          const testResult = testResults[site.id];
+
+          if (isLoading) {
+            return <Skeleton key={site.id} className="h-48 w-full" />;
+          }
+
+          return (
+            <Card key={site.id}>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle>{site.label}</CardTitle>
+                  {!account ? (
+                    <Badge variant="outline">Not set up</Badge>
+                  ) : account.active ? (
+                    <Badge>Active</Badge>
+                  ) : (
+                    <Badge variant="secondary">Inactive</Badge>
+                  )}
+                </div>
+                <CardDescription>{account?.url || site.url}</CardDescription>
+              </CardHeader>
+
+              <CardContent className="space-y-1 text-sm">
+                {account ? (
+                  <>
+                    <p>
+                      <span className="text-muted-foreground">Username: </span>
+                      {account.username}
+                    </p>
+                    <p>
+                      <span className="text-muted-foreground">
+                        Last successful login:{" "}
+                      </span>
+                      {formatLoginTime(account.lastLoginAt)}
+                    </p>
+                    {account.notes && (
+                      <p className="text-muted-foreground">{account.notes}</p>
+                    )}
+                  </>
+                ) : (
+                  <p className="text-muted-foreground">
+                    Add your {site.label} login to include it in searches
+                  </p>
+                )}
+
+                {testResult && (
+                  <div
+                    className={`mt-2 text-xs ${
+                      testResult.success ? "text-green-700" : "text-red-600"
+                    }`}
+                  >
+                    {testResult.success
+                      ? "Test login succeeded"
+                      : `Test login failed: ${testResult.reason}`}
+                    {testResult.screenshot && (
+                      <a
+                        href={testResult.screenshot}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="ml-2 underline"
+                      >
+                        View screenshot
+                      </a>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+
+              <CardFooter className="gap-2">
+                <Button
+                  variant={account ? "outline" : "default"}
+                  size="sm"
+                  onClick={() => setEditingSite(site)}
+                >
+                  {account ? "Edit" : "Add account"}
+                </Button>
+                {account && (
+                  <>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleToggleActive(site, account)}
+                    >
+                      {account.active ? "Deactivate" : "Activate"}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={!account.active || testingSite !== null}
+                      onClick={() => handleTestLogin(site, account)}
+                    >
+                      {testingSite === site.id ? "Testing..." : "Test login"}
+                    </Button>
+                  </>
+                )}
+              </CardFooter>
+            </Card>
+          );
+        })}
+      </div>
+
+      <TradeAccountDialog
+        site={editingSite}
+        account={editingSite ? accountFor(editingSite) : undefined}
+        onOpenChange={(open) => !open && setEditingSite(null)}
+        onSaved={handleSaved}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import { supabase } from "@/lib/supabase";
+
+// Bearer token of the signed-in user. The backend requires it on every API
+// call and scrapes with the user's own trade accounts
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
@@ -0,0 +1,57 @@
+import { getAuthHeaders } from "./authHeaders";
+
+// A make and its models under the catalogue's canonical names
+export interface CatalogMake {
+  make: string;
+  models: string[];
+}
+
+// One reading of free text such as "vw golf gti" as a catalogue make and model,
+// with the words after the model kept as a trim keyword
+export interface CatalogMatch {
+  make: string;
+  model?: string;
+  trim?: string;
+  label: string;
+}
+
+interface CatalogResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+class CatalogApiService {
+  private baseUrl: string;
+
+  constructor() {
+    this.baseUrl = import.meta.env.VITE_API_BASE_URL || "http://localhost:3001";
+  }
+
+  // Send a request and unwrap the `data` of the backend's JSON envelope
+  private async request<T>(path: string): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      headers: await getAuthHeaders(),
+    });
+    const body: CatalogResponse<T> | null = await response
+      .json()
+      .catch(() => null);
+    if (!response.ok || !body?.success || body.data === undefined) {
+      throw new Error(body?.error || `HTTP error! status: ${response.status}`);
+    }
+    return body.data;
+  }
+
+  // Makes and models the search form offers, shared with every site mapping
+  listMakes(): Promise<CatalogMake[]> {
+    return this.request("/api/catalog");
+  }
+
+  // Readings of what a buyer typed, best first
+  resolve(query: string): Promise<CatalogMatch[]> {
+    return this.request(`/api/catalog/resolve?q=${encodeURIComponent(query)}`);
+  }
+}
+
+// Export singleton instance
+export const catalogApiService = new CatalogApiService();
@@ -1,10 +1,23 @@
-import { ApiSearchRequest, ApiVehicle } from "./vehicleApi";
+import {
+  ApiSearchRequest,
+  ApiVehicle,
+  NearMissVehicle,
+  RejectedVehicle,
+  RemovedVehicle,
+  VehicleCluster,
+  describeApiError,
+  validateSearchRequest,
+} from "./vehicleApi";
+import { getAuthHeaders } from "./authHeaders";
+import type { SearchFilter } from "@shared/search-params";
 
 // SSE Event Types
 export interface SSEConnectedEvent {
   type: "connected";
   message: string;
+  jobId?: string;
   totalSites: number;
+  sites: string[];
   timestamp: string;
 }
 
@@ -14,13 +27,116 @@ export interface SSEProgressEvent {
   cars: ApiVehicle[];
   totalSites: number;
   currentSite: number;
+  rejected?: RejectedVehicle[];
+  nearMisses?: NearMissVehicle[];
   timestamp: string;
 }
 
+// Why a site failed after its last retry, as classified by the backend
+export type SiteErrorKind =
+  | "auth"
+  | "selector"
+  | "navigation_timeout"
+  | "network"
+  | "zero_results"
+  | "unknown";
+
+// Where a site is in its run, see SiteStage in the backend
+export type SiteStage =
+  | "queued"
+  | "resuming_session"
+  | "logging_in"
+  | "navigating"
+  | "applying_filters"
+  | "extracting"
+  | "retrying";
+
+export interface SSESiteStartedEvent {
+  type: "site_started";
+  siteName: string;
+  totalSites: number;
+  timestamp: string;
+}
+
+export interface SSESiteStageEvent {
+  type: "site_stage";
+  siteName: string;
+  stage: SiteStage;
+  attempt: number;
+  queuePosition?: number; // While queued, 1 = next to start
+  page?: number; // While extracting
+  totalPages?: number; // While extracting, when the site knows it
+  retryInMs?: number; // While retrying
+  reason?: string; // While retrying, e.g. "network or proxy error"
+  timestamp: string;
+}
+
+// How a site handled the filters of a search. Only filters the search set
+// are listed; notes explain the approximated and ignored ones
+export interface SiteFilterReport {
+  filtersApplied: SearchFilter[];
+  filtersApproximated: SearchFilter[];
+  filtersIgnored: SearchFilter[];
+  filterNotes?: Partial<Record<SearchFilter, string>>;
+}
+
+// How much of a site's results a search read. `nextPage` is set when the
+// site has more, for loading them with `startPage`, and `nextOffset` when the
+// result cap cut into that page, for `startOffset`
+export interface SitePaging {
+  returned: number; // Cars read, at most maxResultsPerSite
+  totalAvailable?: number; // Matches the site reports, when it says
+  nextPage?: number;
+  nextOffset?: number;
+}
+
+export interface SSESiteCompletedEvent extends SiteFilterReport, SitePaging {
+  type: "site_completed";
+  siteName: string;
+  carsFound: number;
+  rejected: number;
+  nearMisses: number; // Just outside the search, sent separately
+  filteredOut: number; // Outside the search and dropped
+  attempts: number;
+  durationMs: number;
+  totalSites: number;
+  currentSite: number;
+  timestamp: string;
+}
+
+// A site that failed after its last retry, with the classified reason
+export interface SSESiteFailedEvent {
+  type: "site_failed";
+  siteName: string;
+  kind: SiteErrorKind;
+  summary: string; // e.g. "login failed"
+  message: string;
+  attempts: number;
+  durationMs: number;
+  totalSites: number;
+  currentSite: number;
+  timestamp: string;
+}
+
+export type SSESiteEvent =
+  | SSESiteStartedEvent
+  | SSESiteStageEvent
+  | SSESiteCompletedEvent
+  | SSESiteFailedEvent;
+
 export interface SSECompleteEvent {
   type: "complete";
   totalCars: number;
   results: ApiVehicle[];
+  clusters?: VehicleCluster[];
+  removed?: RemovedVehicle[];
+  nearMisses?: NearMissVehicle[];
+  timestamp: string;
+}
+
+export interface SSECancelledEvent {
+  type: "cancelled";
+  message: string;
   timestamp: string;
 }
 
@@ -33,9 +149,52 @@ export interface SSEErrorEvent {
 export type SSEEvent =
   | SSEConnectedEvent
   | SSEProgressEvent
+  | SSESiteEvent
   | SSECompleteEvent
+  | SSECancelledEvent
   | SSEErrorEvent;
 
+// Scrape job as returned by GET /api/jobs/:id
+export interface ScrapeJob {
+  id: string;
+  status: "queued" | "running" | "completed" | "failed" | "cancelled";
+  sites: string[];
+  progress: Record<
+    string,
+    {
+      status: "pending" | "running" | "completed" | "failed";
+      carsFound: number;
+      rejected: number;
+      nearMisses?: number;
+      stage?: SiteStage;
+      queuePosition?: number;
+      durationMs?: number;
+      returned?: number;
+      totalAvailable?: number;
+      nextPage?: number;
+      nextOffset?: number;
+      error?: Pick<
+        SSESiteFailedEvent,
+        "kind" | "summary" | "message" | "attempts"
+      >;
+    }
+  >;
+  results: ApiVehicle[];
+  clusters: VehicleCluster[];
+  rejected: RejectedVehicle[];
+  nearMisses: NearMissVehicle[];
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+// localStorage key holding the job to reattach to after a page refresh
+const ACTIVE_JOB_STORAGE_KEY = "activeScrapeJobId";
+// How often to reconnect to a job stream that dropped before finishing
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_DELAY_MS = 2000;
+
 // SSE Progress Callback
 export type SSEProgressCallback = (event: SSEEvent) => void;
 
@@ -43,13 +202,22 @@ export type SSEProgressCallback = (event: SSEEvent) => void;
 export interface SSEScrapingOptions {
   onProgress?: SSEProgressCallback;
   onConnected?: (event: SSEConnectedEvent) => void;
-  onComplete?: (results: ApiVehicle[]) => void;
+  onSiteEvent?: (event: SSESiteEvent) => void;
+  onComplete?: (
+    results: ApiVehicle[],
+    clusters: VehicleCluster[],
+    removed: RemovedVehicle[],
+    nearMisses: NearMissVehicle[]
+  ) => void;
   onError?: (error: string) => void;
+  onCancelled?: () => void;
 }
 
 class ScrapeSSEApiService {
   private baseUrl: string;
   private abortController: AbortController | null = null;
+  private lastEventId = 0;
+  private receivedTerminalEvent = false;
 
   constructor() {
     // Default to localhost:3001, but can be overridden with environment variable
@@ -57,7 +225,7 @@ class ScrapeSSEApiService {
   }
 
   /**
-   * Start real-time car scraping with SSE
+   * Start real-time car scraping as a backend job and stream its events
    */
   async startScraping(
     searchRequest: ApiSearchRequest,
@@ -66,54 +234,136 @@ class ScrapeSSEApiService {
     try {
       // Cancel any existing scraping
       this.stopScraping();
+      validateSearchRequest(searchRequest);
 
-      // Create new abort controller
-      this.abortController = new AbortController();
-
-      console.log("🚀 [SSE] Starting scraping session");
+      console.log("🚀 [SSE] Starting scraping job");
       console.log("📋 [SSE] Search parameters:", searchRequest);
-      console.log(
-        "🔗 [SSE] API endpoint:",
-        `${this.baseUrl}/api/scrape-stream`
-      );
+      console.log("🔗 [SSE] API endpoint:", `${this.baseUrl}/api/jobs`);
 
-      const response = await fetch(`${this.baseUrl}/api/scrape-stream`, {
+      const response = await fetch(`${this.baseUrl}/api/jobs`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          ...(await getAuthHeaders()),
         },
         body: JSON.stringify(searchRequest),
-        signal: this.abortController.signal,
       });
 
-      if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      if (!response.ok || !body?.data?.id) {
         console.error(`❌ [SSE] HTTP error! status: ${response.status}`);
-        throw new Error(`HTTP error! status: ${response.status}`);
+        // Validation errors (e.g. unknown sites) come back as JSON
+        throw new Error(describeApiError(body, response.status));
       }
 
-      console.log("✅ [SSE] HTTP response received successfully");
-      console.log("📊 [SSE] Response status:", response.status);
+      const jobId: string = body.data.id;
+      console.log(`🆔 [SSE] Job created: ${jobId}`);
+      localStorage.setItem(ACTIVE_JOB_STORAGE_KEY, jobId);
 
-      // Check if response is SSE (be more flexible with content type)
-      const contentType = response.headers.get("content-type");
+      await this.attachToJob(jobId, options);
+    } catch (error) {
+      console.error("SSE scraping failed:", error);
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error occurred";
+      options.onError?.(errorMessage);
+    }
+  }
 
-      // Allow both SSE and JSON content types for flexibility
-      if (
-        !contentType?.includes("text/event-stream") &&
-        !contentType?.includes("application/json")
-      ) {
-        console.warn(
-          "Unexpected content type, but continuing anyway:",
-          contentType
-        );
+  /**
+   * Job left running by a previous page load, if any
+   */
+  getActiveJobId(): string | null {
+    return localStorage.getItem(ACTIVE_JOB_STORAGE_KEY);
+  }
+
+  /**
+   * Reattach to the job left running by a previous page load
+   * Returns false when there is no job to resume
+   */
+  async resumeScraping(options: SSEScrapingOptions = {}): Promise<boolean> {
+    const jobId = this.getActiveJobId();
+    if (!jobId) return false;
+
+    console.log(`🔁 [SSE] Resuming job ${jobId}`);
+    await this.attachToJob(jobId, options);
+    return true;
+  }
+
+  /**
+   * Fetch the current status, progress and results of a job
+   */
+  async getJob(jobId: string): Promise<ScrapeJob | null> {
+    const response = await fetch(`${this.baseUrl}/api/jobs/${jobId}`, {
+      headers: await getAuthHeaders(),
+    });
+    if (!response.ok) return null;
+    const body = await response.json();
+    return body.data;
+  }
+
+  /**
+   * Stream a job's events, replaying everything from the start and
+   * reconnecting with Last-Event-ID if the stream drops before the job ends
+   */
+  private async attachToJob(
+    jobId: string,
+    options: SSEScrapingOptions
+  ): Promise<void> {
+    this.detach();
+    const abortController = new AbortController();
+    this.abortController = abortController;
+    this.lastEventId = 0;
+    this.receivedTerminalEvent = false;
+
+    try {
+      for (let attempt = 0; attempt <= MAX_RECONNECT_ATTEMPTS; attempt++) {
+        if (attempt > 0) {
+          console.log(
+            `🔄 [SSE] Reconnecting to job ${jobId} after event ${this.lastEventId} (attempt ${attempt})`
+          );
+          await new Promise((resolve) =>
+            setTimeout(resolve, RECONNECT_DELAY_MS)
+          );
+        }
+
+        try {
+          const response = await fetch(
+            `${this.baseUrl}/api/jobs/${jobId}/events`,
+            {
+              headers: {
+                "Last-Event-ID": String(this.lastEventId),
+                ...(await getAuthHeaders()),
+              },
+              signal: abortController.signal,
+            }
+          );
+
+          if (response.status === 404) {
+            localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+            options.onError?.("Scrape job no longer exists");
+            return;
+          }
+          if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`);
+          }
+
+          console.log("🌊 [SSE] Starting SSE stream processing");
+          await this.handleSSEStream(response, options);
+        } catch (error) {
+          if (error instanceof Error && error.name === "AbortError") {
+            throw error;
+          }
+          console.warn("⚠️ [SSE] Job stream interrupted:", error);
+        }
+
+        if (this.receivedTerminalEvent) {
+          localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+          return;
+        }
       }
 
-      console.log("🌊 [SSE] Starting SSE stream processing");
-      // Handle SSE stream
-      await this.handleSSEStream(response, options);
+      throw new Error("Lost connection to the scrape job");
     } catch (error) {
-      console.error("SSE scraping failed:", error);
-
       if (error instanceof Error && error.name === "AbortError") {
         console.log("Scraping was cancelled");
         return;
@@ -122,6 +372,10 @@ class ScrapeSSEApiService {
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error occurred";
       options.onError?.(errorMessage);
+    } finally {
+      if (this.abortController === abortController) {
+        this.abortController = null;
+      }
     }
   }
 
@@ -167,7 +421,10 @@ class ScrapeSSEApiService {
         }
 
         for (const line of lines) {
-          if (line.startsWith("data: ")) {
+          // Track the event id so a dropped stream can resume after it
+          if (line.startsWith("id: ")) {
+            this.lastEventId = parseInt(line.slice(4)) || this.lastEventId;
+          } else if (line.startsWith("data: ")) {
             try {
               const eventData = JSON.parse(line.slice(6));
               console.log("📨 [SSE] Parsed event data:", eventData.type);
@@ -205,14 +462,39 @@ class ScrapeSSEApiService {
         options.onProgress?.(event);
         break;
 
+      case "site_started":
+      case "site_stage":
+      case "site_completed":
+      case "site_failed":
+        console.log(
+          `🏢 [SSE] ${event.type} event received for ${event.siteName}`
+        );
+        options.onSiteEvent?.(event);
+        break;
+
       case "complete":
+        this.receivedTerminalEvent = true;
         console.log(
           "✅ [SSE] Complete event received, calling onComplete callback"
         );
-        options.onComplete?.(event.results);
+        options.onComplete?.(
+          event.results,
+          event.clusters || [],
+          event.removed || [],
+          event.nearMisses || []
+        );
+        break;
+
+      case "cancelled":
+        this.receivedTerminalEvent = true;
+        console.log(
+          "🛑 [SSE] Cancelled event received, calling onCancelled callback"
+        );
+        options.onCancelled?.();
         break;
 
       case "error":
+        this.receivedTerminalEvent = true;
         console.log("❌ [SSE] Error event received, calling onError callback");
         options.onError?.(event.error);
         break;
@@ -222,10 +504,39 @@ class ScrapeSSEApiService {
     }
   }
 
+  /**
+   * Stop listening to the current job but keep it stored, so the page can
+   * reattach later (e.g. when navigating away and back)
+   */
+  detach(): void {
+    if (this.abortController) {
+      console.log("🔌 [SSE] Detaching from scraping job");
+      this.abortController.abort();
+      this.abortController = null;
+    }
+  }
+
   /**
    * Stop the current scraping operation
    */
   stopScraping(): void {
+    // Cancel the job on the backend too, so it stops driving browsers
+    const jobId = this.getActiveJobId();
+    if (jobId) {
+      console.log(`🛑 [SSE] Cancelling job ${jobId}`);
+      getAuthHeaders()
+        .then((headers) =>
+          fetch(`${this.baseUrl}/api/jobs/${jobId}`, {
+            method: "DELETE",
+            headers,
+          })
+        )
+        .catch((error) =>
+          console.error("❌ [SSE] Failed to cancel job:", error)
+        );
+    }
+
+    localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
     if (this.abortController) {
       console.log("🛑 [SSE] Stopping scraping session");
       this.abortController.abort();
@@ -252,6 +563,7 @@ class ScrapeSSEApiService {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          ...(await getAuthHeaders()),
         },
         body: JSON.stringify({
           make: "BMW",
@@ -0,0 +1,85 @@
+import { WebsiteCredentials } from "../search/types";
+import { getAuthHeaders } from "./authHeaders";
+
+// Fields sent when saving a trade account; omit `password` to keep the saved one
+export type TradeAccountInput = Partial<
+  Pick<
+    WebsiteCredentials,
+    "name" | "url" | "username" | "password" | "notes" | "active"
+  >
+>;
+
+// Outcome of running only a site's login step with a saved account
+export interface LoginTestResult {
+  success: boolean;
+  reason?: string; // Why the login failed
+  landingUrl?: string;
+  screenshot?: string; // Data URL of the page after the login attempt
+  durationMs: number;
+}
+
+interface TradeAccountResponse<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+class TradeAccountsApiService {
+  private baseUrl: string;
+
+  constructor() {
+    this.baseUrl = import.meta.env.VITE_API_BASE_URL || "http://localhost:3001";
+  }
+
+  // Send a request and unwrap the `data` of the backend's JSON envelope
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: {
+        "Content-Type": "application/json",
+        ...(await getAuthHeaders()),
+      },
+    });
+    const body: TradeAccountResponse<T> | null = await response
+      .json()
+      .catch(() => null);
+    if (!response.ok || !body?.success || body.data === undefined) {
+      throw new Error(body?.error || `HTTP error! status: ${response.status}`);
+    }
+    return body.data;
+  }
+
+  // The signed-in user's trade accounts, without passwords
+  listAccounts(): Promise<WebsiteCredentials[]> {
+    return this.request("/api/trade-accounts");
+  }
+
+  // Passwords are encrypted by the backend and never sent back
+  createAccount(input: TradeAccountInput): Promise<WebsiteCredentials> {
+    return this.request("/api/trade-accounts", {
+      method: "POST",
+      body: JSON.stringify(input),
+    });
+  }
+
+  updateAccount(
+    id: string,
+    input: TradeAccountInput
+  ): Promise<WebsiteCredentials> {
+    return this.request(`/api/trade-accounts/${id}`, {
+      method: "PUT",
+      body: JSON.stringify(input),
+    });
+  }
+
+  // Log into a site with the saved account, without scraping
+  testLogin(siteId: string, accountId: string): Promise<LoginTestResult> {
+    return this.request(`/api/sites/${siteId}/test-login`, {
+      method: "POST",
+      body: JSON.stringify({ accountId }),
+    });
+  }
+}
+
+// Export singleton instance
+export const tradeAccountsApiService = new TradeAccountsApiService();
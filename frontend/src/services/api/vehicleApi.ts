@@ -1,4 +1,36 @@
+import {
+  searchParamsErrors,
+  searchParamsSchema,
+  type SearchFilter,
+  type SearchRequest,
+} from "@shared/search-params";
 import { SearchParams, SearchResult } from "../search/types";
+import { getAuthHeaders } from "./authHeaders";
+import type { SSESiteCompletedEvent } from "./scrapeSSEApi";
+
+// Price and status history the backend keeps for each listing
+export type VehicleStatus = "listed" | "relisted" | "removed";
+
+export interface VehicleHistorySummary {
+  key: string;
+  status: VehicleStatus;
+  firstSeenAt: string;
+  previousPrice?: number;
+  previousPriceAt?: string;
+  priceChange?: number; // Negative for a price drop
+}
+
+// A listing from an earlier run of the same search that is no longer listed
+export interface RemovedVehicle {
+  key: string;
+  source: string;
+  registration?: string;
+  url: string;
+  title: string;
+  lastPrice?: number;
+  lastSeenAt: string;
+  removedAt: string;
+}
 
 // Frontend Vehicle interface that matches what the API actually returns
 export interface Vehicle {
@@ -12,20 +44,45 @@ export interface Vehicle {
   url: string;
   timestamp: string;
   mileage?: number;
+  history?: VehicleHistorySummary;
+  misses?: FilterMiss[]; // Only on near misses
 }
 
 // Backend API types
-export interface ApiSearchRequest {
-  make?: string;
-  model?: string;
-  minPrice?: number;
-  maxPrice?: number;
-  minMileage?: number;
-  maxMileage?: number;
-  color?: string | null;
-  minAge?: number;
-  maxAge?: number;
-  vatQualifying?: boolean;
+// Search body for the scrape endpoints, from the schema the backend
+// validates requests against
+export type ApiSearchRequest = SearchRequest;
+
+// Body of a rejected API request. `fieldErrors` lists what is wrong with
+// each field of an invalid search
+interface ApiErrorBody {
+  error?: string;
+  fieldErrors?: Record<string, string[]>;
+}
+
+// Readable message for a failed request, including any field errors
+export function describeApiError(
+  body: ApiErrorBody | null,
+  status: number
+): string {
+  const message = body?.error || `HTTP error! status: ${status}`;
+  const details = Object.values(body?.fieldErrors ?? {}).flat();
+  return details.length ? `${message}: ${details.join("; ")}` : message;
+}
+
+// Catch an invalid search before it costs a round trip (and a quota slot)
+export function validateSearchRequest(request: ApiSearchRequest): void {
+  const parsed = searchParamsSchema.safeParse(request);
+  if (parsed.success) return;
+  throw new Error(
+    describeApiError(
+      {
+        error: "Invalid search parameters",
+        fieldErrors: searchParamsErrors(parsed.error),
+      },
+      400
+    )
+  );
 }
 
 export interface ApiVehicle {
@@ -50,11 +107,70 @@ export interface ApiVehicle {
   vrm?: string;
   capCleanPrice?: string | number;
   localSaleLocation?: string;
+  history?: VehicleHistorySummary;
+}
+
+// A scraped record the backend rejected during normalisation
+export interface RejectedVehicle {
+  site: string;
+  reasons: string[];
+  record: {
+    title?: string;
+    url?: string;
+    registration?: string;
+  };
+}
+
+// A range of the search a near miss falls just outside of
+export interface FilterMiss {
+  filter: SearchFilter;
+  message: string; // e.g. "£750 over the maximum price"
+}
+
+// A scraped vehicle just outside the requested price, mileage or age range
+export interface NearMissVehicle extends ApiVehicle {
+  misses: FilterMiss[];
+}
+
+// One source's copy of a vehicle inside a cluster
+export interface VehicleListing {
+  source: string;
+  price: number;
+  url: string;
+  imageUrl: string;
+  location: string;
+  mileage?: number;
+  listType?: string;
+  timestamp: string;
+  history?: VehicleHistorySummary;
+}
+
+// The same physical vehicle merged across sources by the backend
+export interface VehicleCluster {
+  id: string;
+  registration?: string;
+  title: string;
+  make?: string;
+  model?: string;
+  year?: number;
+  mileage?: number;
+  imageUrl: string;
+  listings: VehicleListing[];
+  minPrice: number;
+  maxPrice: number;
+  priceSpread: number;
+  cheapestSource: string;
+  matchedBy: "registration" | "similarity" | "single";
 }
 
 export interface ApiResponse {
   success: boolean;
   data?: ApiVehicle[];
+  clusters?: VehicleCluster[];
+  rejected?: RejectedVehicle[];
+  removed?: RemovedVehicle[];
+  nearMisses?: NearMissVehicle[];
+  siteResults?: SSESiteCompletedEvent[]; // One per site that completed
   error?: string;
 }
 
@@ -81,15 +197,18 @@ class VehicleApiService {
       minMileage: parseInt(params.minMileage || "0"),
       maxMileage: parseInt(params.maxMileage || "1000000"),
       color: params.color === "any_color" ? null : params.color,
+      // The newest year allowed sets the minimum age and the oldest year
+      // sets the maximum
       minAge:
-        params.minYear && params.minYear !== "any_min_year"
-          ? Math.max(0, currentYear - parseInt(params.minYear))
+        params.maxYear && params.maxYear !== "any_max_year"
+          ? Math.max(0, currentYear - parseInt(params.maxYear))
           : undefined,
       maxAge:
-        params.maxYear && params.maxYear !== "any_max_year"
-          ? Math.max(1, currentYear - parseInt(params.maxYear))
+        params.minYear && params.minYear !== "any_min_year"
+          ? Math.max(1, currentYear - parseInt(params.minYear))
           : undefined,
       vatQualifying: params.vatQualifying,
+      sites: params.sites,
     };
 
     // Only include make and model if they are actually provided and not "any" values
@@ -124,17 +243,22 @@ class VehicleApiService {
       delete apiRequest.maxPrice;
     }
 
+    // Only include sites if a subset was actually selected
+    if (!params.sites || params.sites.length === 0) {
+      delete apiRequest.sites;
+    }
+
     // Only include age parameters if they are actually provided and valid
     if (
-      !params.minYear ||
-      params.minYear === "any_min_year" ||
+      !params.maxYear ||
+      params.maxYear === "any_max_year" ||
       apiRequest.minAge === undefined
     ) {
       delete apiRequest.minAge;
     }
     if (
-      !params.maxYear ||
-      params.maxYear === "any_max_year" ||
+      !params.minYear ||
+      params.minYear === "any_min_year" ||
       apiRequest.maxAge === undefined ||
       apiRequest.maxAge < 1
     ) {
@@ -182,6 +306,8 @@ class VehicleApiService {
       url: (apiVehicle.url as string) || "#",
       timestamp: new Date().toISOString(),
       mileage: (apiVehicle.mileage as number) || undefined,
+      history: apiVehicle.history as VehicleHistorySummary | undefined,
+      misses: apiVehicle.misses as FilterMiss[] | undefined,
     };
 
     console.log("Converted to frontend vehicle:", vehicle);
@@ -191,6 +317,7 @@ class VehicleApiService {
   // Main search method that calls the backend API
   async searchVehicles(searchRequest: ApiSearchRequest): Promise<ApiResponse> {
     try {
+      validateSearchRequest(searchRequest);
       console.log("=== API SERVICE DEBUG START ===");
       console.log("Making API request to backend:", searchRequest);
       console.log("API URL:", `${this.baseUrl}/api/scrape`);
@@ -199,6 +326,7 @@ class VehicleApiService {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          ...(await getAuthHeaders()),
         },
         body: JSON.stringify(searchRequest),
       });
@@ -207,7 +335,9 @@ class VehicleApiService {
       console.log("Response ok:", response.ok);
 
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        // Surface validation errors from the backend (e.g. unknown sites)
+        const errorBody = await response.json().catch(() => null);
+        throw new Error(describeApiError(errorBody, response.status));
       }
 
       const rawData = await response.json();
@@ -266,6 +396,7 @@ class VehicleApiService {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          ...(await getAuthHeaders()),
         },
         body: JSON.stringify({
           minPrice: 10000,
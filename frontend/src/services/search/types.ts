@@ -12,23 +12,47 @@ export interface SearchParams {
   maxMileage?: string;
   minPrice?: string;
   maxPrice?: string;
+  sites?: string[]; // Site ids to search, empty means every enabled site
 }
 
+// A trade account (`dealer_websites` row) as returned by the backend
 export interface WebsiteCredentials {
-  id: string; // Required by Supabase schema
+  id: string;
+  siteId?: string; // Backend site id the account is used for
   name: string;
   url: string;
   username: string;
-  password: string;
+  password?: string; // Write-only: sent when saving, never returned
+  hasPassword?: boolean;
   notes?: string;
   active: boolean;
-  user_id?: string; // Optional in the type since it's added server-side
+  lastLoginAt?: string; // Last time a scrape logged in with the account
+  createdAt?: string;
 }
 
-import { Vehicle } from "../api/vehicleApi";
+import { RemovedVehicle, Vehicle, VehicleCluster } from "../api/vehicleApi";
+import { SitePaging, SSESiteCompletedEvent } from "../api/scrapeSSEApi";
 
 export interface SearchResult {
   vehicles: Vehicle[];
   source: string;
   error?: string;
 }
+
+// Per-source results plus the cross-site clusters built by the backend,
+// listings from the last run of the search that are no longer listed and
+// vehicles just outside the search and how each completed site went
+export interface SearchResponse {
+  results: SearchResult[];
+  clusters: VehicleCluster[];
+  removed: RemovedVehicle[];
+  nearMisses: Vehicle[];
+  siteResults: SSESiteCompletedEvent[];
+}
+
+// The next page of one site's results for a search already run
+export interface LoadMoreResponse {
+  vehicles: Vehicle[];
+  nearMisses: Vehicle[];
+  paging?: SitePaging;
+}
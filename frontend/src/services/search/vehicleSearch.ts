@@ -1,9 +1,40 @@
-import { SearchParams, SearchResult } from "./types";
-import { Vehicle } from "../api/vehicleApi";
+import {
+  LoadMoreResponse,
+  SearchParams,
+  SearchResult,
+  SearchResponse,
+} from "./types";
+import {
+  Vehicle,
+  NearMissVehicle,
+  RejectedVehicle,
+  RemovedVehicle,
+  VehicleCluster,
+} from "../api/vehicleApi";
 import { vehicleApiService, ApiSearchRequest } from "../api/vehicleApi";
-import { scrapeSSEApiService, SSEConnectedEvent } from "../api/scrapeSSEApi";
+import {
+  scrapeSSEApiService,
+  SSEConnectedEvent,
+  SSEScrapingOptions,
+  SSESiteEvent,
+} from "../api/scrapeSSEApi";
 import { toast } from "@/hooks/use-toast";
 
+// Callbacks shared by the SSE search entry points
+type SSESearchProgressCallback = (
+  siteName: string,
+  cars: any[],
+  totalSites: number,
+  currentSite: number,
+  rejected: RejectedVehicle[]
+) => void;
+type SSESearchCompleteCallback = (
+  results: any[],
+  clusters: VehicleCluster[],
+  removed: RemovedVehicle[],
+  nearMisses: NearMissVehicle[]
+) => void;
+
 // This class handles all search operations using the API
 export class VehicleSearchService {
   constructor() {
@@ -11,7 +42,7 @@ export class VehicleSearchService {
   }
 
   // Main search method that coordinates searches via API
-  async searchVehicles(params: SearchParams): Promise<SearchResult[]> {
+  async searchVehicles(params: SearchParams): Promise<SearchResponse> {
     try {
       console.log("=== SEARCH DEBUG START ===");
       console.log("Searching vehicles with params:", params);
@@ -45,13 +76,19 @@ export class VehicleSearchService {
           variant: "destructive",
         });
 
-        return [
-          {
-            vehicles: [],
-            source: "All Websites",
-            error: apiResponse.error || "API search failed",
-          },
-        ];
+        return {
+          results: [
+            {
+              vehicles: [],
+              source: "All Websites",
+              error: apiResponse.error || "API search failed",
+            },
+          ],
+          clusters: [],
+          removed: [],
+          nearMisses: [],
+          siteResults: [],
+        };
       }
 
       // Check if we have data
@@ -63,13 +100,19 @@ export class VehicleSearchService {
         );
         console.log("Data is null/undefined:", apiResponse.data == null);
         console.log("Data is not array:", !Array.isArray(apiResponse.data));
-        return [
-          {
-            vehicles: [],
-            source: "All Websites",
-            error: "No data returned from API",
-          },
-        ];
+        return {
+          results: [
+            {
+              vehicles: [],
+              source: "All Websites",
+              error: "No data returned from API",
+            },
+          ],
+          clusters: [],
+          removed: [],
+          nearMisses: [],
+          siteResults: [],
+        };
       }
 
       console.log("=== DATA PROCESSING DEBUG ===");
@@ -138,7 +181,15 @@ export class VehicleSearchService {
       );
       console.log("=== SEARCH DEBUG END ===");
 
-      return results;
+      return {
+        results,
+        clusters: apiResponse.clusters || [],
+        removed: apiResponse.removed || [],
+        nearMisses: (apiResponse.nearMisses || []).map((nearMiss) =>
+          vehicleApiService.convertApiVehicleToVehicle({ ...nearMiss })
+        ),
+        siteResults: apiResponse.siteResults || [],
+      };
     } catch (error) {
       console.error("=== ERROR DEBUG ===");
       console.error("Error in searchVehicles:", error);
@@ -150,6 +201,46 @@ export class VehicleSearchService {
     }
   }
 
+  // Read one site's results again from `startPage`, skipping the
+  // `startOffset` cars of it already shown, for "load more"
+  async loadMoreFromSite(
+    params: SearchParams,
+    siteId: string,
+    startPage: number,
+    startOffset = 0
+  ): Promise<LoadMoreResponse> {
+    console.log(
+      `➕ Loading more from ${siteId}, starting at page ${startPage}${
+        startOffset ? ` after car ${startOffset}` : ""
+      }`
+    );
+    const apiResponse = await vehicleApiService.searchVehicles({
+      ...vehicleApiService.convertSearchParamsToApi({
+        ...params,
+        sites: [siteId],
+      }),
+      startPage,
+      ...(startOffset > 0 && { startOffset }),
+    });
+    if (!apiResponse.success) {
+      throw new Error(
+        apiResponse.error || `Could not load more from ${siteId}`
+      );
+    }
+
+    return {
+      vehicles: (apiResponse.data || []).map((apiVehicle) =>
+        vehicleApiService.convertApiVehicleToVehicle({ ...apiVehicle })
+      ),
+      nearMisses: (apiResponse.nearMisses || []).map((nearMiss) =>
+        vehicleApiService.convertApiVehicleToVehicle({ ...nearMiss })
+      ),
+      paging: apiResponse.siteResults?.find(
+        (result) => result.siteName === siteId
+      ),
+    };
+  }
+
   // Group vehicles by their source
   private groupVehiclesBySource(
     vehicles: Vehicle[]
@@ -171,14 +262,10 @@ export class VehicleSearchService {
   async searchVehiclesWithSSE(
     params: SearchParams,
     onConnected?: (event: SSEConnectedEvent) => void,
-    onProgress?: (
-      siteName: string,
-      cars: any[],
-      totalSites: number,
-      currentSite: number
-    ) => void,
-    onComplete?: (results: any[]) => void,
-    onError?: (error: string) => void
+    onProgress?: SSESearchProgressCallback,
+    onComplete?: SSESearchCompleteCallback,
+    onError?: (error: string) => void,
+    onSiteEvent?: (event: SSESiteEvent) => void
   ): Promise<void> {
     try {
       console.log("🔍 [VehicleSearch] Starting SSE-based vehicle search");
@@ -188,6 +275,7 @@ export class VehicleSearchService {
         onProgress: !!onProgress,
         onComplete: !!onComplete,
         onError: !!onError,
+        onSiteEvent: !!onSiteEvent,
       });
 
       // Convert search params to API format
@@ -197,51 +285,16 @@ export class VehicleSearchService {
       console.log("📤 [VehicleSearch] API request prepared:", apiSearchRequest);
 
       // Start SSE scraping
-      await scrapeSSEApiService.startScraping(apiSearchRequest, {
-        onConnected: (event) => {
-          console.log(
-            "🔌 [VehicleSearch] SSE connection established, calling onConnected callback"
-          );
-          onConnected?.(event); // Call the passed onConnected callback with event data
-        },
-        onProgress: (event) => {
-          if (event.type === "progress") {
-            console.log(
-              `📊 [VehicleSearch] Progress event from ${event.siteName}: ${event.cars.length} cars`
-            );
-            if (onProgress) {
-              try {
-                onProgress(
-                  event.siteName,
-                  event.cars,
-                  event.totalSites,
-                  event.currentSite
-                );
-                console.log(
-                  "✅ [VehicleSearch] onProgress callback executed successfully"
-                );
-              } catch (error) {
-                console.error(
-                  "❌ [VehicleSearch] Error executing onProgress callback:",
-                  error
-                );
-              }
-            } else {
-              console.log("⚠️ [VehicleSearch] No onProgress callback provided");
-            }
-          }
-        },
-        onComplete: (results) => {
-          console.log(
-            `✅ [VehicleSearch] Search completed with ${results.length} total results`
-          );
-          onComplete?.(results);
-        },
-        onError: (errorMessage) => {
-          console.error("❌ [VehicleSearch] SSE search error:", errorMessage);
-          onError?.(errorMessage);
-        },
-      });
+      await scrapeSSEApiService.startScraping(
+        apiSearchRequest,
+        this.toScrapingOptions(
+          onConnected,
+          onProgress,
+          onComplete,
+          onError,
+          onSiteEvent
+        )
+      );
     } catch (error) {
       console.error(
         "❌ [VehicleSearch] Unexpected error in searchVehiclesWithSSE:",
@@ -253,6 +306,107 @@ export class VehicleSearchService {
     }
   }
 
+  // Whether a job from a previous page load can be reattached to
+  hasResumableSSESearch(): boolean {
+    return scrapeSSEApiService.getActiveJobId() !== null;
+  }
+
+  // Reattach to a job started before the page was refreshed
+  // Resolves to false when there is no job to resume
+  async resumeSearchWithSSE(
+    onConnected?: (event: SSEConnectedEvent) => void,
+    onProgress?: SSESearchProgressCallback,
+    onComplete?: SSESearchCompleteCallback,
+    onError?: (error: string) => void,
+    onSiteEvent?: (event: SSESiteEvent) => void
+  ): Promise<boolean> {
+    console.log("🔁 [VehicleSearch] Checking for a scrape job to resume");
+    return scrapeSSEApiService.resumeScraping(
+      this.toScrapingOptions(
+        onConnected,
+        onProgress,
+        onComplete,
+        onError,
+        onSiteEvent
+      )
+    );
+  }
+
+  // Wire the search callbacks up to the SSE service events
+  private toScrapingOptions(
+    onConnected?: (event: SSEConnectedEvent) => void,
+    onProgress?: SSESearchProgressCallback,
+    onComplete?: SSESearchCompleteCallback,
+    onError?: (error: string) => void,
+    onSiteEvent?: (event: SSESiteEvent) => void
+  ): SSEScrapingOptions {
+    return {
+      onConnected: (event) => {
+        console.log(
+          "🔌 [VehicleSearch] SSE connection established, calling onConnected callback"
+        );
+        onConnected?.(event); // Call the passed onConnected callback with event data
+      },
+      onProgress: (event) => {
+        if (event.type === "progress") {
+          console.log(
+            `📊 [VehicleSearch] Progress event from ${event.siteName}: ${event.cars.length} cars`
+          );
+          if (onProgress) {
+            try {
+              onProgress(
+                event.siteName,
+                event.cars,
+                event.totalSites,
+                event.currentSite,
+                event.rejected || []
+              );
+              console.log(
+                "✅ [VehicleSearch] onProgress callback executed successfully"
+              );
+            } catch (error) {
+              console.error(
+                "❌ [VehicleSearch] Error executing onProgress callback:",
+                error
+              );
+            }
+          } else {
+            console.log("⚠️ [VehicleSearch] No onProgress callback provided");
+          }
+        }
+      },
+      onSiteEvent: (event) => {
+        if (event.type === "site_failed") {
+          console.warn(
+            `⚠️ [VehicleSearch] ${event.siteName} failed: ${event.summary}`
+          );
+        }
+        onSiteEvent?.(event);
+      },
+      onComplete: (results, clusters, removed, nearMisses) => {
+        console.log(
+          `✅ [VehicleSearch] Search completed with ${results.length} total results (${clusters.length} unique vehicles)`
+        );
+        onComplete?.(results, clusters, removed, nearMisses);
+      },
+      onError: (errorMessage) => {
+        console.error("❌ [VehicleSearch] SSE search error:", errorMessage);
+        onError?.(errorMessage);
+      },
+      // Stopped from somewhere else, e.g. another tab attached to the same job
+      onCancelled: () => {
+        console.log("🛑 [VehicleSearch] SSE search was cancelled");
+        onError?.("Search was cancelled");
+      },
+    };
+  }
+
+  // Stop listening to the SSE search while leaving the job running
+  detachSSESearch(): void {
+    console.log("🔌 [VehicleSearch] Detaching from SSE search");
+    scrapeSSEApiService.detach();
+  }
+
   // Stop SSE search
   stopSSESearch(): void {
     console.log("🛑 [VehicleSearch] Stopping SSE search");
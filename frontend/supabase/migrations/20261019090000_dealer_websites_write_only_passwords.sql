@@ -0,0 +1,7 @@
+-- Trade site passwords are written through the backend, which stores them
+-- encrypted, and are only ever read back by the backend (service role).
+-- Signed-in users can still list their own accounts, minus the password
+revoke all on table public.dealer_websites from anon, authenticated;
+
+grant select (id, user_id, name, url, username, notes, active, created_at)
+  on table public.dealer_websites to authenticated;
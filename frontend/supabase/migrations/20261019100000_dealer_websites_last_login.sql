@@ -0,0 +1,6 @@
+-- When the backend last logged into the site with each trade account, shown
+-- on the Trade accounts page
+alter table public.dealer_websites
+  add column if not exists last_login_at timestamptz;
+
+grant select (last_login_at) on table public.dealer_websites to authenticated;